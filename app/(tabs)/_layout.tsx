@@ -5,12 +5,14 @@ import { Platform, View, Pressable } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, { useSharedValue, useAnimatedStyle, withTiming } from 'react-native-reanimated';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/hooks/useTranslation';
 import { useEffect } from 'react';
 import { useRouter } from 'expo-router';
 
 export default function TabLayout() {
   const { colors, isDark } = useTheme();
   const { user, loading } = useAuth();
+  const { t } = useTranslation();
   const router = useRouter();
   // Subtle shadow/scale on press for tab buttons
   const TabButtonContainer = (props: any) => {
@@ -134,7 +136,7 @@ export default function TabLayout() {
         <Tabs.Screen
           name="index"
           options={{
-            title: 'View',
+            title: t('tabs.view'),
             tabBarIcon: ({ size, color }) => (
               <Play size={size} color={color} />
             ),
@@ -143,7 +145,7 @@ export default function TabLayout() {
         <Tabs.Screen
           name="promote"
           options={{
-            title: 'Promote',
+            title: t('tabs.promote'),
             tabBarIcon: ({ size, color }) => (
               <TrendingUp size={size} color={color} />
             ),
@@ -152,7 +154,7 @@ export default function TabLayout() {
         <Tabs.Screen
           name="analytics"
           options={{
-            title: 'Analytics',
+            title: t('tabs.analytics'),
             tabBarIcon: ({ size, color }) => (
               <BarChart3 size={size} color={color} />
             ),
@@ -161,7 +163,7 @@ export default function TabLayout() {
         <Tabs.Screen
           name="more"
           options={{
-            title: 'More',
+            title: t('tabs.more'),
             tabBarIcon: ({ size, color }) => (
               <MoreHorizontal size={size} color={color} />
             ),
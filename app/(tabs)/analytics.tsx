@@ -10,13 +10,15 @@ import {
   Alert,
 } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
-import { getSupabase } from '../../lib/supabase';
+import { getSupabase, callRpc, getUserTransactionHistory } from '../../lib/supabase';
 import { useConfig } from '@/contexts/ConfigContext';
 import { useFeatureFlag } from '@/hooks/useFeatureFlags';
 import { useRouter } from 'expo-router';
 import GlobalHeader from '@/components/GlobalHeader';
 import { ChartBar as BarChart3, Eye, Coins, Play, Pause, CircleCheck as CheckCircle, Timer, Pencil as Edit3, Activity, TrendingUp, ChevronDown, ChevronUp, RefreshCw, ShoppingCart } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useFormatting } from '@/hooks/useFormatting';
 
 interface UserAnalytics {
   total_videos_promoted: number;
@@ -34,10 +36,12 @@ interface UserAnalytics {
 }
 
 interface RecentActivity {
-  activity_type: string;
+  id: string;
+  type: string;
   amount: number;
   description: string;
-  created_at: string;
+  timestamp: string;
+  status: string;
 }
 
 interface VideoAnalytics {
@@ -63,6 +67,8 @@ interface VideoAnalytics {
 export default function Analytics() {
   const { user, profile, loading: authLoading } = useAuth();
   const { colors, isDark } = useTheme();
+  const { t } = useTranslation();
+  const { formatCoins, formatDate } = useFormatting();
   const { config } = useConfig();
   const analyticsEnabled = useFeatureFlag('analyticsEnabled');
   const router = useRouter();
@@ -137,7 +143,7 @@ export default function Analytics() {
           try {
             const supabase = getSupabase();
             if (supabase) {
-              const { data: updatedCount, error: holdsError } = await supabase.rpc('check_and_update_expired_holds');
+              const { data: updatedCount, error: holdsError } = await callRpc('check_and_update_expired_holds');
               if (!holdsError && updatedCount && updatedCount > 0) {
                 console.log(`${updatedCount} videos automatically activated from hold`);
                 fetchAnalytics();
@@ -169,8 +175,7 @@ export default function Analytics() {
       setLoading(true);
       
       // Get analytics summary from the database function
-      const { data: analyticsData, error: analyticsError } = await getSupabase()
-        .rpc('get_user_analytics_summary', { p_user_id: user.id });
+      const { data: analyticsData, error: analyticsError } = await callRpc('get_user_analytics_summary', { p_user_id: user.id });
 
       if (analyticsError) throw analyticsError;
 
@@ -217,13 +222,8 @@ export default function Analytics() {
         setVideos([]);
       }
 
-      // Get recent activity from transactions
-      const { data: activityData, error: activityError } = await getSupabase()
-        .from('transactions')
-        .select('id, transaction_type, amount, description, created_at')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(10);
+      // Get recent activity from the coin ledger
+      const { data: activityData, error: activityError } = await getUserTransactionHistory(user.id, 10);
 
       console.log(' Raw transaction data received:', JSON.stringify(activityData, null, 2));
 
@@ -381,14 +381,6 @@ export default function Analytics() {
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-    });
-  };
-
   const handleVideoPress = (video: VideoAnalytics) => {
     router.push({
       pathname: '/edit-video',
@@ -427,14 +419,14 @@ export default function Analytics() {
     return (
       <View style={[styles.container, { backgroundColor: colors.background }]}>
         <GlobalHeader 
-          title="Analytics" 
+          title={t('tabs.analytics')}
           showCoinDisplay={true}
           menuVisible={menuVisible} 
           setMenuVisible={setMenuVisible} 
         />
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary} />
-          <Text style={[styles.loadingText, { color: colors.text }]}>Loading analytics...</Text>
+          <Text style={[styles.loadingText, { color: colors.text }]}>{t('analytics.loading')}</Text>
           {hasError && (
             <TouchableOpacity
               style={[styles.retryButton, { backgroundColor: colors.primary }]}
@@ -443,7 +435,7 @@ export default function Analytics() {
                 fetchAnalytics();
               }}
             >
-              <Text style={[styles.retryButtonText, { color: 'white' }]}>Retry</Text>
+              <Text style={[styles.retryButtonText, { color: 'white' }]}>{t('common.retry')}</Text>
             </TouchableOpacity>
           )}
         </View>
@@ -454,7 +446,7 @@ export default function Analytics() {
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <GlobalHeader 
-        title="Analytics" 
+        title={t('tabs.analytics')}
         showCoinDisplay={true}
         menuVisible={menuVisible} 
         setMenuVisible={setMenuVisible} 
@@ -468,7 +460,7 @@ export default function Analytics() {
         showsVerticalScrollIndicator={false}
       >
         <View style={styles.overviewSection}>
-          <Text style={[styles.sectionTitle, { color: colors.text }]}>Overview</Text>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('analytics.overview')}</Text>
           <View style={styles.statsContainer}>
             <View style={[styles.statCard, { backgroundColor: colors.surface }]}>
               <View style={styles.statCardContent}>
@@ -493,7 +485,7 @@ export default function Analytics() {
                 </View>
                 <View style={styles.statTextContainer}>
                   <Text style={[styles.statValue, { color: colors.text }]} numberOfLines={1} adjustsFontSizeToFit>
-                    {safeNumber(analytics?.total_coins_earned).toLocaleString()}
+                    {formatCoins(safeNumber(analytics?.total_coins_earned))}
                   </Text>
                   <Text style={[styles.statLabel, { color: colors.textSecondary }]} numberOfLines={2}>
                     Coins{'\n'}Earned
@@ -505,38 +497,38 @@ export default function Analytics() {
         </View>
 
         <View style={styles.statusSection}>
-          <Text style={[styles.sectionTitle, { color: colors.text }]}>Video Status</Text>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('analytics.videoStatus')}</Text>
           <View style={styles.statusGrid}>
             <View style={[styles.statusCard, { backgroundColor: colors.surface, borderLeftColor: '#2ECC71' }]}>
               <Text style={[styles.statusNumber, { color: colors.text }]}>{safeNumber(analytics?.active_videos)}</Text>
-              <Text style={[styles.statusLabel, { color: colors.textSecondary }]}>Active</Text>
+              <Text style={[styles.statusLabel, { color: colors.textSecondary }]}>{t('analytics.statusActive')}</Text>
             </View>
             <View style={[styles.statusCard, { backgroundColor: colors.surface, borderLeftColor: '#3498DB' }]}>
               <Text style={[styles.statusNumber, { color: colors.text }]}>{safeNumber(analytics?.completed_videos)}</Text>
-              <Text style={[styles.statusLabel, { color: colors.textSecondary }]}>Completed</Text>
+              <Text style={[styles.statusLabel, { color: colors.textSecondary }]}>{t('analytics.statusCompleted')}</Text>
             </View>
             <View style={[styles.statusCard, { backgroundColor: colors.surface, borderLeftColor: '#F39C12' }]}>
               <Text style={[styles.statusNumber, { color: colors.text }]}>{safeNumber(analytics?.on_hold_videos)}</Text>
-              <Text style={[styles.statusLabel, { color: colors.textSecondary }]}>On Hold</Text>
+              <Text style={[styles.statusLabel, { color: colors.textSecondary }]}>{t('analytics.statusOnHold')}</Text>
             </View>
             <View style={[styles.statusCard, { backgroundColor: colors.surface, borderLeftColor: '#9B59B6' }]}>
               <Text style={[styles.statusNumber, { color: colors.text }]}>{safeNumber(analytics?.repromoted_videos)}</Text>
-              <Text style={[styles.statusLabel, { color: colors.textSecondary }]}>Repromoted</Text>
+              <Text style={[styles.statusLabel, { color: colors.textSecondary }]}>{t('analytics.statusRepromoted')}</Text>
             </View>
           </View>
         </View>
 
         <View style={styles.videosSection}>
           <View style={styles.sectionHeader}>
-            <Text style={[styles.sectionTitle, { color: colors.text }]}>Promoted Videos</Text>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('analytics.promotedVideos')}</Text>
             <BarChart3 size={20} color={colors.primary} />
           </View>
           {videos.length === 0 ? (
             <View style={[styles.emptyState, { backgroundColor: colors.surface }]}>
               <Play size={48} color={colors.textSecondary} />
-              <Text style={[styles.emptyTitle, { color: colors.text }]}>No Videos Yet</Text>
+              <Text style={[styles.emptyTitle, { color: colors.text }]}>{t('analytics.noVideosTitle')}</Text>
               <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
-                Start promoting your videos to see analytics here
+                {t('analytics.noVideosMessage')}
               </Text>
             </View>
           ) : (
@@ -590,7 +582,7 @@ export default function Analytics() {
                       {video.completed && (
                         <View style={styles.completedBadgeContainer}>
                           <Text style={[styles.completedBadge, { color: colors.success }]}>
-                            Target Reached
+                            {t('analytics.targetReached')}
                           </Text>
                         </View>
                       )}
@@ -610,7 +602,7 @@ export default function Analytics() {
                           : `View More (${getRemainingCount(videos.length, 1)} more)`
                         }
                       </Text>
-                      <View style={{ marginLeft: 8 }}>
+                      <View style={{ marginStart: 8 }}>
                         {showAllVideos ? (
                           <ChevronUp size={16} color={colors.primary} />
                         ) : (
@@ -633,9 +625,9 @@ export default function Analytics() {
           {recentActivity.length === 0 ? (
             <View style={[styles.emptyState, { backgroundColor: colors.surface }]}>
               <Activity size={48} color={colors.textSecondary} />
-              <Text style={[styles.emptyTitle, { color: colors.text }]}>No Recent Activity</Text>
+              <Text style={[styles.emptyTitle, { color: colors.text }]}>{t('analytics.noActivityTitle')}</Text>
               <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
-                Your coin transactions will appear here
+                {t('analytics.noActivityMessage')}
               </Text>
             </View>
           ) : (
@@ -648,15 +640,11 @@ export default function Analytics() {
                         {formatTransactionType(activity.type)}
                       </Text>
                       <Text style={[styles.activityDate, { color: colors.textSecondary }]}>
-                        {new Date(activity.timestamp).toLocaleDateString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          year: 'numeric',
-                        })}
+                        {formatDate(activity.timestamp)}
                       </Text>
                     </View>
                     <Text style={[styles.activityAmount, { color: activity.amount > 0 ? '#10B981' : '#EF4444' }]}>
-                      {`${activity.amount > 0 ? '+' : ''}${Math.abs(activity.amount)} 🪙`}
+                      {`${activity.amount > 0 ? '+' : ''}${formatCoins(Math.abs(activity.amount))} 🪙`}
                     </Text>
                   </View>
                   <Text style={[styles.activityDescription, { color: colors.textSecondary }]} numberOfLines={2}>
@@ -677,7 +665,7 @@ export default function Analytics() {
                           : `View More Activity (${getRemainingCount(recentActivity.length, 1)} more)`
                         }
                       </Text>
-                      <View style={{ marginLeft: 8 }}>
+                      <View style={{ marginStart: 8 }}>
                         {showAllActivity ? (
                           <ChevronUp size={16} color={colors.primary} />
                         ) : (
@@ -761,7 +749,7 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     justifyContent: 'center',
     alignItems: 'center',
-    marginRight: 12,
+    marginEnd: 12,
   },
   statTextContainer: {
     flex: 1,
@@ -775,7 +763,6 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '500',
     lineHeight: 13,
-    textAlign: 'left',
   },
   statusSection: {
     marginBottom: 24,
@@ -892,7 +879,7 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
     flex: 1,
-    marginRight: 12,
+    marginEnd: 12,
     lineHeight: 22,
   },
   editButton: {
@@ -1,16 +1,29 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Alert, Linking, Dimensions, AppState } from 'react-native';
-import { WebView } from 'react-native-webview';
 import { useAuth } from '@/contexts/AuthContext';
 import { useVideoStore } from '@/store/videoStore';
-import { useCustomAlert } from '@/hooks/useCustomAlert';
+import { useAlert } from '@/contexts/AlertContext';
 import { useRealtimeVideoUpdates } from '@/hooks/useRealtimeVideoUpdates';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { useTheme } from '@/contexts/ThemeContext';
-import { ExternalLink } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ExternalLink, ThumbsUp, Flag } from 'lucide-react-native';
 import GlobalHeader from '@/components/GlobalHeader';
-import { watchVideoAndEarnCoins } from '@/lib/supabase';
+import ReportVideoModal from '@/components/ReportVideoModal';
+import { reportVideo } from '@/lib/supabase';
+import { getAutoReportReason } from '@/utils/videoReports';
+import type { ReportReason } from '@/utils/videoReports';
+import WatchPlayer, { WatchPlayerHandle } from '@/components/WatchPlayer';
+import WatchSessionService from '@/services/WatchSessionService';
+import {
+  createPlaybackMachine,
+  canClaimReward,
+  shouldAutoPlay,
+  remainingSeconds,
+  PlaybackState,
+} from '@/utils/playbackMachine';
+import type { PlayerEvent } from '@/utils/playerBridge';
 
 // Responsive helpers
 const { width: screenWidth } = Dimensions.get('window');
@@ -20,7 +33,8 @@ const isTablet = screenWidth >= 768;
 
 export default function ViewTab() {
   const { user, refreshProfile } = useAuth();
-  const { showSuccess, showError, showInfo } = useCustomAlert();
+  const { showSuccess, showError, showInfo } = useAlert();
+  const { t } = useTranslation();
   const { 
     videoQueue, 
     fetchVideos, 
@@ -29,6 +43,11 @@ export default function ViewTab() {
     clearQueue,
     shouldSkipCurrentVideo,
     refreshQueue,
+    markVideoRewarded,
+    removeVideo,
+    warmNextVideo,
+    userId: queueUserId,
+    hasHydrated,
     isLoading,
   } = useVideoStore();
   const router = useRouter();
@@ -37,47 +56,34 @@ export default function ViewTab() {
 
   // Core state
   const [menuVisible, setMenuVisible] = useState(false);
-  const [watchTimer, setWatchTimer] = useState(0);
   const [autoSkipEnabled, setAutoSkipEnabled] = useState(true);
-  const [isProcessingReward, setIsProcessingReward] = useState(false);
-  const [videoError, setVideoError] = useState(false);
-  const [isVideoPlaying, setIsVideoPlaying] = useState(false);
-  const [timerPaused, setTimerPaused] = useState(false);
-  const [timeRemaining, setTimeRemaining] = useState(0);
-  const [progress, setProgress] = useState(0);
-  const [showSkipButton, setShowSkipButton] = useState(false);
-  const [isLoadingVideo, setIsLoadingVideo] = useState(false);
   const [showRefreshButton, setShowRefreshButton] = useState(false);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [retryCount, setRetryCount] = useState(0);
   const [suppressAutoPlay, setSuppressAutoPlay] = useState(false);
-  const [videoLoadedSuccessfully, setVideoLoadedSuccessfully] = useState(false);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [isVideoTransitioning, setIsVideoTransitioning] = useState(false);
-  const [webViewReady, setWebViewReady] = useState(false);
+  const [playerReady, setPlayerReady] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
-  
-  // Note: watchVideoAndEarnCoins is now imported from @/lib/supabase
+  const [reportVisible, setReportVisible] = useState(false);
+
+  // Playback state machine: the single source of truth for loading, playing,
+  // pausing, completion and reward processing of the current video
+  const [machine] = useState(createPlaybackMachine);
+  const [playback, setPlayback] = useState<PlaybackState>(machine.getState);
   
   // Refs
-  const isVideoPlayingRef = useRef(false);
-  const timerPausedRef = useRef(false);
-  const isTabFocusedRef = useRef(false);
-  const isAppForegroundRef = useRef(true);
-  const rewardProcessedRef = useRef(false);
-  const webViewRef = useRef<WebView>(null);
-  const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastVideoIdRef = useRef<string | null>(null);
+  const playerRef = useRef<WatchPlayerHandle>(null);
   const suppressAutoPlayRef = useRef(false);
   const videoLoadTimeoutRef = useRef<any>(null);
-  const videoLoadedRef = useRef(false);
-  const timerRef = useRef<any>(null);
-  const watchTimerRef = useRef(0);
   const autoSkipEnabledRef = useRef(true);
   const currentVideoRef = useRef<any>(null);
+  const queueRefreshedRef = useRef(false);
+  const autoReportedRef = useRef(new Set<string>());
   
   // Get current video
   const currentVideo = getCurrentVideo();
+
+  // Mirror machine transitions into React state for rendering
+  useEffect(() => machine.subscribe(setPlayback), [machine]);
   
   // Check for suppress auto-play parameter
   useEffect(() => {
@@ -108,18 +114,6 @@ export default function ViewTab() {
     autoSkipEnabledRef.current = autoSkipEnabled;
   }, [autoSkipEnabled]);
 
-  useEffect(() => {
-    isVideoPlayingRef.current = isVideoPlaying;
-  }, [isVideoPlaying]);
-
-  useEffect(() => {
-    timerPausedRef.current = timerPaused;
-  }, [timerPaused]);
-
-  useEffect(() => {
-    videoLoadedRef.current = videoLoadedSuccessfully;
-  }, [videoLoadedSuccessfully]);
-
   // App state handling
   useEffect(() => {
     const handleAppStateChange = (nextAppState: string) => {
@@ -128,59 +122,27 @@ export default function ViewTab() {
       
       if (!isActive) {
         console.log('🔄 APP GOING TO BACKGROUND - pausing everything');
-        // App going to background - pause everything
-        if (timerRef.current) {
-          clearInterval(timerRef.current);
-          timerRef.current = null;
-        }
-        if (webViewRef.current) {
+        machine.send({ type: 'BACKGROUND' });
+        // The OS may kill us while backgrounded, so save where we are
+        WatchSessionService.getInstance().saveProgress(machine.getState().watchedSeconds);
+        if (playerRef.current) {
           console.log('⏸️ SENDING pauseVideo (app background)');
-          const jsCode = `
-            (function() {
-              console.log('🔵 Injected JS executing pauseVideo');
-              if (typeof window.handleMessage === 'function') {
-                console.log('✅ handleMessage found, calling it');
-                window.handleMessage({ data: JSON.stringify({ type: 'pauseVideo' }) });
-              } else {
-                console.log('❌ handleMessage not found');
-              }
-            })();
-          `;
-          webViewRef.current.injectJavaScript(jsCode);
+          playerRef.current.send('pauseVideo');
         }
-      } else if (isTabFocusedRef.current && currentVideo) {
+        return;
+      }
+
+      const state = machine.send({ type: 'FOREGROUND' });
+      if (currentVideo && shouldAutoPlay(state)) {
         console.log('🔄 APP RETURNING TO FOREGROUND - attempting auto resume');
-        console.log('📊 Foreground state:', {
-          tabFocused: isTabFocusedRef.current,
-          videoLoaded: videoLoadedRef.current,
-          rewardProcessed: rewardProcessedRef.current
-        });
-        
-        // App returning to foreground and tab is focused - force auto resume
-        if (webViewRef.current) {
+        if (playerRef.current) {
           console.log('▶️ SENDING playVideo (app foreground)');
-          const jsCode = `
-            (function() {
-              console.log('🔵 Injected JS executing playVideo');
-              if (typeof window.handleMessage === 'function') {
-                console.log('✅ handleMessage found, calling it');
-                window.handleMessage({ data: JSON.stringify({ type: 'playVideo' }) });
-              } else {
-                console.log('❌ handleMessage not found');
-              }
-            })();
-          `;
-          webViewRef.current.injectJavaScript(jsCode);
-          
-          if (!isVideoPlayingRef.current) {
-            setIsVideoPlaying(true);
-            setTimerPaused(false);
-            timerPausedRef.current = false;
-          }
+          playerRef.current.send('playVideo');
         }
       } else {
         console.log('❌ NOT resuming on foreground:', {
-          tabFocused: isTabFocusedRef.current,
+          status: state.status,
+          tabFocused: state.focused,
           hasCurrentVideo: !!currentVideo
         });
       }
@@ -188,96 +150,60 @@ export default function ViewTab() {
 
     const subscription = AppState.addEventListener('change', handleAppStateChange);
     return () => subscription?.remove();
-  }, [currentVideo]);
+  }, [currentVideo, machine]);
 
   // Tab focus handling
   useFocusEffect(
     useCallback(() => {
-      console.log('🎯 TAB FOCUS: Video tab gained focus');
-      console.log('📊 Current state:', {
+      const state = machine.send({ type: 'FOCUS' });
+      console.log('🎯 TAB FOCUS: Video tab gained focus', {
         currentVideo: currentVideo?.video_id || 'none',
-        isVideoPlaying: isVideoPlayingRef.current,
-        timerPaused: timerPausedRef.current,
-        rewardProcessed: rewardProcessedRef.current,
+        status: state.status,
         suppressAutoPlay: suppressAutoPlayRef.current
       });
-      
-      isTabFocusedRef.current = true;
+
+      const handleBlur = () => {
+        console.log('🎯 TAB BLUR: Video tab lost focus');
+        machine.send({ type: 'BLUR' });
+        
+        // Pause when tab loses focus
+        if (playerRef.current && playerReady) {
+          console.log('⏸️ SENDING pauseVideo message to player');
+          playerRef.current.send('pauseVideo');
+        }
+      };
       
       // Check if we should suppress auto-play (coming back from edit/promote/delete)
       if (suppressAutoPlayRef.current) {
         console.log('🚫 SUPPRESSING auto-play due to suppressAutoPlay flag');
         suppressAutoPlayRef.current = false;
         setSuppressAutoPlay(false);
-        return; // Skip auto-play this time
+        return handleBlur; // Skip auto-play this time
       }
       
       // Simple auto-play when tab becomes focused
-      if (currentVideo && webViewRef.current && !suppressAutoPlayRef.current && webViewReady) {
-        console.log('▶️ SENDING playVideo message to WebView');
-        const jsCode = `
-          (function() {
-            console.log('🔵 Injected JS executing playVideo from tab focus');
-            if (typeof window.handleMessage === 'function') {
-              console.log('✅ handleMessage found, calling it');
-              window.handleMessage({ data: JSON.stringify({ type: 'playVideo' }) });
-            } else {
-              console.log('❌ handleMessage not found');
-            }
-          })();
-          true;
-        `;
-        webViewRef.current.injectJavaScript(jsCode);
+      if (currentVideo && playerRef.current && playerReady && shouldAutoPlay(state)) {
+        console.log('▶️ SENDING playVideo message to player');
+        playerRef.current.send('playVideo');
       } else {
         console.log('❌ CANNOT auto-play:', {
           hasCurrentVideo: !!currentVideo,
-          hasWebViewRef: !!webViewRef.current,
-          suppressAutoPlay: suppressAutoPlayRef.current
+          hasPlayer: !!playerRef.current,
+          status: state.status
         });
       }
 
-      return () => {
-        console.log('🎯 TAB BLUR: Video tab lost focus');
-        isTabFocusedRef.current = false;
-        
-        // Pause when tab loses focus
-        if (webViewRef.current && webViewReady) {
-          console.log('⏸️ SENDING pauseVideo message to WebView');
-          const jsCode = `
-            (function() {
-              console.log('🔵 Injected JS executing pauseVideo from tab blur');
-              if (typeof window.handleMessage === 'function') {
-                console.log('✅ handleMessage found, calling it');
-                window.handleMessage({ data: JSON.stringify({ type: 'pauseVideo' }) });
-              } else {
-                console.log('❌ handleMessage not found');
-              }
-            })();
-            true;
-          `;
-          webViewRef.current.injectJavaScript(jsCode);
-        }
-        
-        console.log('🔄 UPDATING state: timer paused, video stopped');
-        setTimerPaused(true);
-        timerPausedRef.current = true;
-        setIsVideoPlaying(false);
-        isVideoPlayingRef.current = false;
-        
-        console.log('✅ Blur state updated:', {
-          timerPaused: true,
-          isVideoPlaying: false
-        });
-      };
-    }, [currentVideo, suppressAutoPlay])
+      return handleBlur;
+    }, [currentVideo, suppressAutoPlay, machine])
   );
 
-  // Initialize videos
+  // Initialize videos (once the queue saved by the last launch has been restored)
   useEffect(() => {
-    if (!user?.id) return;
+    if (!user?.id || !hasHydrated) return;
 
     const initializeVideos = async () => {
       setIsInitializing(true);
+      queueRefreshedRef.current = true;
       try {
         await fetchVideos(user.id);
       } catch (error) {
@@ -287,12 +213,24 @@ export default function ViewTab() {
       }
     };
 
+    // A saved queue belongs to whoever was signed in when it was saved
+    if (queueUserId && queueUserId !== user.id) {
+      clearQueue();
+      return;
+    }
+
     if (videoQueue.length === 0) {
       initializeVideos();
     } else {
       setIsInitializing(false);
+
+      // Freshen a restored queue in the background; the video on screen stays put
+      if (!queueRefreshedRef.current) {
+        queueRefreshedRef.current = true;
+        refreshQueue(user.id);
+      }
     }
-  }, [user?.id, fetchVideos, videoQueue.length]);
+  }, [user?.id, hasHydrated, queueUserId, fetchVideos, clearQueue, refreshQueue, videoQueue.length]);
 
   // Video change handler
   useEffect(() => {
@@ -312,32 +250,37 @@ export default function ViewTab() {
       
       // Initialize new video
       initializeNewVideo(currentVideo);
+
+      // Open a server-issued watch session; rewards are paid against its heartbeats,
+      // and resumes one that was interrupted by the app being killed
+      if (user?.id) {
+        const videoId = currentVideo.video_id;
+        const watchSession = WatchSessionService.getInstance();
+        watchSession.start(user.id, videoId).then(session => {
+          const resumedSeconds = session ? watchSession.getResumedSeconds(videoId) : 0;
+          if (resumedSeconds > 0) {
+            console.log('⏯️ Resuming watch progress at', resumedSeconds, 'seconds');
+            machine.send({ type: 'RESUME', videoId, watchedSeconds: resumedSeconds });
+          }
+        });
+      }
+
+      // Get the following video's metadata and thumbnail ready while this one plays
+      warmNextVideo();
     }
-  }, [currentVideo?.video_id, shouldSkipCurrentVideo, moveToNextVideo]);
+  }, [currentVideo?.video_id, shouldSkipCurrentVideo, moveToNextVideo, warmNextVideo, machine]);
 
   // Clean up previous video
   const cleanupVideo = useCallback(() => {
-    // Clear timers
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    
     if (videoLoadTimeoutRef.current) {
       clearTimeout(videoLoadTimeoutRef.current);
       videoLoadTimeoutRef.current = null;
     }
 
-    // Reset state
-    setWatchTimer(0);
-    watchTimerRef.current = 0;
-    setIsVideoPlaying(false);
-    setTimerPaused(false);
-    setVideoLoadedSuccessfully(false);
-    setVideoError(false);
-    setWebViewReady(false);
-    rewardProcessedRef.current = false;
-  }, []);
+    setPlayerReady(false);
+    machine.send({ type: 'RESET' });
+    WatchSessionService.getInstance().end();
+  }, [machine]);
 
   // Initialize new video
   const initializeNewVideo = useCallback((video: any) => {
@@ -348,139 +291,64 @@ export default function ViewTab() {
     
     // Reset states for new video
     setIsVideoTransitioning(false);
-    setVideoLoadedSuccessfully(false);
-    setVideoError(false);
-    setWatchTimer(0);
-    watchTimerRef.current = 0;
-    rewardProcessedRef.current = false;
-    setWebViewReady(false);
+    setPlayerReady(false);
+    machine.send({
+      type: 'LOAD',
+      videoId: video.video_id,
+      targetSeconds: video.duration_seconds || 0,
+    });
     
     // Set up video load timeout
     videoLoadTimeoutRef.current = setTimeout(() => {
-      if (!videoLoadedRef.current) {
+      const state = machine.send({ type: 'LOAD_TIMEOUT' });
+      if (state.errorReason === 'timeout') {
         console.log('⏰ Video load timeout - showing error');
-        setVideoError(true);
         setShowRefreshButton(true);
       }
     }, 15000) as any;
-  }, []);
-
-  // Timer management
-  const startTimer = useCallback(() => {
-    if (timerRef.current) return; // Already running
+  }, [machine]);
 
-    timerRef.current = setInterval(() => {
-      const isPaused = timerPausedRef.current;
-      const isLoaded = videoLoadedRef.current;
-      const isPlaying = isVideoPlayingRef.current;
-      const isFocused = isTabFocusedRef.current;
-      
-      if (!isPaused && isLoaded && isPlaying && isFocused) {
-        watchTimerRef.current += 1;
-        setWatchTimer(watchTimerRef.current);
-        
-        const targetDuration = currentVideo?.duration_seconds || 0;
-        
-        if (watchTimerRef.current >= targetDuration && !rewardProcessedRef.current) {
-          handleVideoCompletion();
-        }
-      }
+  // Watch timer: the machine only counts ticks while playing, focused and foregrounded
+  useEffect(() => {
+    const interval = setInterval(() => {
+      machine.send({ type: 'TICK' });
     }, 1000);
-  }, [currentVideo]);
-
-  // Start video playback
-  const startVideoPlayback = useCallback(() => {
-    if (!currentVideo || !videoLoadedRef.current) return;
-
-    if (webViewRef.current && webViewReady) {
-      const jsCode = `
-        (function() {
-          console.log('🔵 Injected JS executing playVideo');
-          if (typeof window.handleMessage === 'function') {
-            console.log('✅ handleMessage found, calling it');
-            window.handleMessage({ data: JSON.stringify({ type: 'playVideo' }) });
-          } else {
-            console.log('❌ handleMessage not found');
-          }
-        })();
-        true;
-      `;
-      webViewRef.current.injectJavaScript(jsCode);
-    }
 
-    startTimer();
-  }, [currentVideo, webViewReady, startTimer]);
+    return () => clearInterval(interval);
+  }, [machine]);
 
-  // Handle video completion
-  const handleVideoCompletion = useCallback(async () => {
-    if (!currentVideo || !user || rewardProcessedRef.current) return;
-    
-    rewardProcessedRef.current = true;
-    setIsProcessingReward(true);
-    
-    // Stop timer
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-
-    // Notify WebView
-    if (webViewRef.current && webViewReady) {
-      const jsCode = `
-        (function() {
-          console.log('🔵 Injected JS executing timerComplete');
-          if (typeof window.handleMessage === 'function') {
-            console.log('✅ handleMessage found, calling it');
-            window.handleMessage({ data: JSON.stringify({ type: 'timerComplete' }) });
-          } else {
-            console.log('❌ handleMessage not found');
-          }
-        })();
-        true;
-      `;
-      webViewRef.current.injectJavaScript(jsCode);
-    }
+  // Exchange the server session for coins; the REWARD_* transitions guard against double claims
+  const processReward = useCallback(async (): Promise<boolean> => {
+    if (!user) return false;
 
     try {
-      if (autoSkipEnabledRef.current) {
-        await processRewardAndSkip();
-      } else {
-        // Process reward but don't skip
-        const result = await watchVideoAndEarnCoins(user.id, currentVideo.video_id, watchTimerRef.current, true);
-        
-        if (result.error || !result.data?.success) {
-          throw new Error(result.error?.message || 'Failed to process video watch');
-        }
-        
-        // If video was marked as completed, refresh the queue
-        if (result.data?.video_completed) {
-          console.log('Video marked as completed, refreshing queue');
-          await refreshQueue(user.id);
+      const expectedCoins = currentVideo?.coin_reward || 0;
+      const result = await WatchSessionService.getInstance().complete(
+        machine.getState().watchedSeconds,
+        expectedCoins
+      );
+      const rewardedVideoId = machine.getState().videoId;
+      
+      // Offline: the claim is saved in the outbox and will be replayed, so treat it as paid
+      if (result.queued) {
+        console.log('📮 Reward queued until the connection comes back');
+        if (rewardedVideoId) {
+          markVideoRewarded(rewardedVideoId);
         }
-        
-        await refreshProfile();
-        setIsProcessingReward(false);
+        machine.send({ type: 'REWARD_SUCCESS' });
+        showInfo(t('view.rewardPendingTitle'), t('view.rewardPendingMessage', { count: expectedCoins }));
+        return true;
       }
-    } catch (error) {
-      console.error('Error in handleVideoCompletion:', error);
-      setIsProcessingReward(false);
-    }
-  }, [currentVideo, user, refreshProfile]);
-
-  // Process reward and skip to next video
-  const processRewardAndSkip = useCallback(async () => {
-    if (!currentVideo || !user) return;
-    
-    setIsProcessingReward(true);
-    setIsVideoTransitioning(true);
-    
-    try {
-      const result = await watchVideoAndEarnCoins(user.id, currentVideo.video_id, watchTimerRef.current, true);
       
       if (result.error || !result.data?.success) {
         throw new Error(result.error?.message || 'Failed to process video watch');
       }
       
+      // Never serve this video to the user again
+      if (rewardedVideoId) {
+        markVideoRewarded(rewardedVideoId);
+      }
+      
       // If video was marked as completed, refresh the queue
       if (result.data?.video_completed) {
         console.log('Video marked as completed, refreshing queue');
@@ -488,25 +356,61 @@ export default function ViewTab() {
       }
       
       await refreshProfile();
+      machine.send({ type: 'REWARD_SUCCESS' });
+      return true;
+    } catch (error) {
+      console.error('Error processing reward:', error);
+      machine.send({ type: 'REWARD_FAILURE' });
+      return false;
+    }
+  }, [user, currentVideo?.coin_reward, machine, markVideoRewarded, refreshQueue, refreshProfile, showInfo, t]);
+
+  // Handle video completion
+  const handleVideoCompletion = useCallback(async () => {
+    if (!currentVideo || !user) return;
+    if (machine.send({ type: 'REWARD_START' }).status !== 'rewarding') return;
+
+    // Notify player
+    if (playerRef.current && playerReady) {
+      playerRef.current.send('timerComplete');
+    }
+
+    if (!autoSkipEnabledRef.current) {
+      await processReward();
+      return;
+    }
+
+    // Process reward and skip to next video
+    setIsVideoTransitioning(true);
+    try {
+      const rewarded = await processReward();
+      if (!rewarded) return;
+
       moveToNextVideo();
       
       // Check if queue needs refresh
       if (videoQueue.length <= 1) {
         await refreshQueue(user.id);
       }
-      
-    } catch (error) {
-      console.error('Error processing reward:', error);
     } finally {
-      setIsProcessingReward(false);
       setIsVideoTransitioning(false);
     }
-  }, [currentVideo, user, videoQueue.length, refreshProfile, moveToNextVideo, refreshQueue]);
+  }, [currentVideo, user, machine, playerReady, processReward, moveToNextVideo, videoQueue.length, refreshQueue]);
+
+  // Claim the reward as soon as the machine reports the watch target was reached
+  useEffect(() => machine.subscribe((state, previous) => {
+    if (state.watchedSeconds > previous.watchedSeconds) {
+      WatchSessionService.getInstance().heartbeat(state.watchedSeconds);
+    }
+    if (state.status === 'completed' && previous.status === 'playing') {
+      handleVideoCompletion();
+    }
+  }), [machine, handleVideoCompletion]);
 
   // Handle skip to next video
   const handleSkipToNext = useCallback(async () => {
-    if (autoSkipEnabledRef.current) {
-      await processRewardAndSkip();
+    if (canClaimReward(machine.getState())) {
+      await handleVideoCompletion();
     } else {
       moveToNextVideo();
     }
@@ -514,135 +418,107 @@ export default function ViewTab() {
     if (videoQueue.length === 0 && user) {
       await refreshQueue(user.id);
     }
-  }, [processRewardAndSkip, moveToNextVideo, videoQueue.length, refreshQueue, user]);
+  }, [machine, handleVideoCompletion, moveToNextVideo, videoQueue.length, refreshQueue, user]);
 
   // Handle manual skip
   const handleManualSkip = useCallback(() => {
-    const targetDuration = currentVideo?.duration_seconds || 0;
-    
-    if (watchTimer >= targetDuration && !rewardProcessedRef.current) {
+    const state = machine.getState();
+
+    if (state.status === 'rewarding') return;
+
+    if (canClaimReward(state)) {
       handleVideoCompletion();
     } else {
-      // Reset processing state for immediate skip
-      setIsProcessingReward(false);
-      rewardProcessedRef.current = false;
       moveToNextVideo();
     }
-  }, [currentVideo, watchTimer, handleVideoCompletion, moveToNextVideo]);
+  }, [machine, handleVideoCompletion, moveToNextVideo]);
+
+  // Report playback errors caused by the video itself, once per video per session;
+  // they count toward the same hold threshold as viewer reports
+  const autoReportVideo = useCallback((errorCode?: number) => {
+    const videoId = currentVideoRef.current;
+    const reason = getAutoReportReason(errorCode);
+    if (!user || !videoId || !reason || autoReportedRef.current.has(videoId)) return;
+
+    autoReportedRef.current.add(videoId);
+    reportVideo(user.id, videoId, reason, { automatic: true }).then(({ error }) => {
+      if (error) {
+        console.warn('🚩 Failed to report playback error:', error);
+      } else {
+        console.log('🚩 Playback error reported:', reason);
+      }
+    });
+  }, [user]);
+
+  const handleReportVideo = useCallback(async (reason: ReportReason) => {
+    const videoId = currentVideo?.video_id;
+    if (!user || !videoId) return;
+
+    const { error } = await reportVideo(user.id, videoId, reason);
+    if (error) {
+      showError(t('view.reportFailedTitle'), t('view.reportFailedMessage'));
+      return;
+    }
+
+    setReportVisible(false);
+    removeVideo(videoId);
+    showSuccess(t('view.reportThanksTitle'), t('view.reportThanksMessage'));
+  }, [user, currentVideo?.video_id, removeVideo, showError, showSuccess, t]);
+
+  // Send a playVideo command once the player can accept it
+  const requestAutoPlay = useCallback((delay: number = 0) => {
+    if (!currentVideo || !shouldAutoPlay(machine.getState())) {
+      console.log('❌ NOT auto-playing:', machine.getState());
+      return;
+    }
 
-  // Render WebView - removed as WebView is rendered directly in the component
+    setTimeout(() => {
+      if (playerRef.current) {
+        console.log('▶️ AUTO-PLAYING video');
+        playerRef.current.send('playVideo');
+      }
+    }, delay);
+  }, [currentVideo, machine]);
 
-  // WebView message handler
-  const handleWebViewMessage = useCallback((event: any) => {
+  // Player event handler (WebView on native, IFrame API on web)
+  const handlePlayerEvent = useCallback((message: PlayerEvent) => {
     try {
-      const data = JSON.parse(event.nativeEvent.data);
-      console.log('📨 WEBVIEW MESSAGE RECEIVED:', data.type, data);
+      console.log('📨 PLAYER EVENT RECEIVED:', message.type, message.payload);
       
-      switch (data.type) {
+      switch (message.type) {
         case 'webViewReady':
-          console.log('🌐 WEBVIEW IS READY - can now send messages safely');
-          setWebViewReady(true);
-          
-          // If tab is focused, auto-play now that WebView is ready
-          if (isTabFocusedRef.current && !rewardProcessedRef.current && currentVideo) {
-            console.log('🎬 Auto-playing after WebView ready');
-            setTimeout(() => {
-              if (webViewRef.current) {
-                const jsCode = `
-                  (function() {
-                    console.log('🔵 Injected JS executing playVideo after WebView ready');
-                    if (typeof window.handleMessage === 'function') {
-                      console.log('✅ handleMessage found, calling it');
-                      window.handleMessage({ data: JSON.stringify({ type: 'playVideo' }) });
-                    } else {
-                      console.log('❌ handleMessage not found');
-                    }
-                  })();
-                  true;
-                `;
-                webViewRef.current.injectJavaScript(jsCode);
-              }
-            }, 100);
-          }
+          console.log('🌐 PLAYER IS READY - can now send messages safely');
+          setPlayerReady(true);
+          requestAutoPlay(100);
           break;
           
         case 'videoLoaded':
           console.log('🎬 VIDEO LOADED - updating state');
-          setVideoLoadedSuccessfully(true);
-          videoLoadedRef.current = true;
-          setVideoError(false);
-          
           if (videoLoadTimeoutRef.current) {
             clearTimeout(videoLoadTimeoutRef.current);
             videoLoadTimeoutRef.current = null;
           }
-          
-          // Auto-play immediately when video loads if tab is focused
-          console.log('🎬 Checking auto-play on video load:', {
-            tabFocused: isTabFocusedRef.current,
-            rewardProcessed: rewardProcessedRef.current
-          });
-          
-          if (isTabFocusedRef.current && !rewardProcessedRef.current) {
-            console.log('▶️ AUTO-PLAYING video after load');
-            if (webViewRef.current) {
-              const jsCode = `
-                (function() {
-                  if (typeof handleMessage === 'function') {
-                    handleMessage({ data: JSON.stringify({ type: 'playVideo' }) });
-                  }
-                })();
-              `;
-              webViewRef.current.injectJavaScript(jsCode);
-            }
-            
-            // Also start timer and update state immediately for auto-play
-            setIsVideoPlaying(true);
-            isVideoPlayingRef.current = true;
-            setTimerPaused(false);
-            timerPausedRef.current = false;
-            startTimer();
-          } else {
-            console.log('❌ NOT auto-playing on load:', {
-              tabFocused: isTabFocusedRef.current,
-              rewardProcessed: rewardProcessedRef.current
-            });
-          }
-          
+          machine.send({ type: 'LOADED' });
+          requestAutoPlay();
           setIsTransitioning(false);
           break;
 
         case 'videoPlaying':
-          console.log('🎉 SUCCESS: VIDEO IS NOW PLAYING - updating React state');
-          console.log('📊 WebView confirmed video is playing');
-          setIsVideoPlaying(true);
-          isVideoPlayingRef.current = true;
-          setTimerPaused(false);
-          timerPausedRef.current = false;
-          setVideoLoadedSuccessfully(true);
-          videoLoadedRef.current = true;
-          setVideoError(false);
-          
-          // Reset processing state when video starts playing after completion
-          if (rewardProcessedRef.current) {
-            setIsProcessingReward(false);
-          }
-          
-          if (isTabFocusedRef.current) {
-            startTimer();
+          console.log('🎉 SUCCESS: VIDEO IS NOW PLAYING');
+          if (videoLoadTimeoutRef.current) {
+            clearTimeout(videoLoadTimeoutRef.current);
+            videoLoadTimeoutRef.current = null;
           }
+          machine.send({ type: 'PLAYING' });
           break;
           
         case 'videoPaused':
-          console.log('⏸️ VIDEO IS NOW PAUSED - updating React state');
-          setIsVideoPlaying(false);
-          isVideoPlayingRef.current = false;
-          setTimerPaused(true);
-          timerPausedRef.current = true;
+          console.log('⏸️ VIDEO IS NOW PAUSED');
+          machine.send({ type: 'PAUSED' });
           break;
           
         case 'videoEnded':
-          setVideoError(true);
+          machine.send({ type: 'ENDED' });
           if (autoSkipEnabledRef.current) {
             handleSkipToNext();
           }
@@ -651,484 +527,14 @@ export default function ViewTab() {
         case 'videoUnavailable':
         case 'videoError':
           console.log('⚠️ Video unavailable/error - NOT auto-skipping to prevent loop');
-          setVideoError(true);
-          // Temporarily disable auto-skip for unavailable/error videos
-          // if (autoSkipEnabledRef.current) {
-          //   setTimeout(() => handleSkipToNext(), 5000);
-          // }
+          machine.send({ type: 'ERROR', reason: message.type });
+          autoReportVideo(message.payload.errorCode);
           break;
       }
     } catch (error) {
-      console.log('❌ WebView message error:', error);
-    }
-  }, [startTimer, handleSkipToNext, autoSkipEnabledRef]);
-
-  // Create HTML content
-  const createHtmlContent = useCallback((youtubeVideoId: string) => {
-    // Simple validation - just check if we have a video ID
-    if (!youtubeVideoId) {
-      return `
-        <!DOCTYPE html>
-        <html>
-        <head><meta name="viewport" content="width=device-width, initial-scale=1.0"></head>
-        <body style="background: #000; margin: 0; padding: 0;">
-          <div style="color: white; text-align: center; padding: 50px;">Video unavailable</div>
-          <script>
-            if (window.ReactNativeWebView) {
-              window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'videoUnavailable' }));
-            }
-          </script>
-        </body>
-        </html>
-      `;
+      console.log('❌ Player event error:', error);
     }
-    
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no">
-        <style>
-          * { margin: 0; padding: 0; box-sizing: border-box; }
-          body { 
-            background: #000; 
-            overflow: hidden; 
-            position: fixed; 
-            width: 100%; 
-            height: 100%; 
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-          }
-          
-          #video-container {
-            position: relative;
-            width: 100%;
-            height: 100%;
-          }
-          
-          #youtube-player { 
-            width: 100%; 
-            height: 100%; 
-            border: none; 
-            pointer-events: none;
-          }
-          
-          #security-overlay {
-            position: absolute;
-            top: 0;
-            left: 0;
-            width: 100%;
-            height: 100%;
-            background: transparent;
-            z-index: 1000;
-            cursor: pointer;
-          }
-          
-          #play-pause-button {
-            position: absolute;
-            top: 50%;
-            left: 50%;
-            transform: translate(-50%, -50%);
-            width: 68px;
-            height: 48px;
-            background: rgba(0, 0, 0, 0.8);
-            border-radius: 6px;
-            display: flex;
-            align-items: center;
-            justify-content: center;
-            cursor: pointer;
-            z-index: 1001;
-            opacity: 0.9;
-            transition: opacity 0.3s ease;
-            pointer-events: auto;
-          }
-          
-          .play-icon {
-            width: 0;
-            height: 0;
-            border-left: 16px solid #fff;
-            border-top: 11px solid transparent;
-            border-bottom: 11px solid transparent;
-            margin-left: 3px;
-          }
-          
-          .pause-icon {
-            width: 14px;
-            height: 18px;
-            position: relative;
-          }
-          
-          .pause-icon::before,
-          .pause-icon::after {
-            content: '';
-            position: absolute;
-            width: 4px;
-            height: 18px;
-            background: #fff;
-            border-radius: 1px;
-          }
-          
-          .pause-icon::before { left: 2px; }
-          .pause-icon::after { right: 2px; }
-          
-          .playing #play-pause-button {
-            opacity: 0;
-            pointer-events: none;
-          }
-          
-          .paused #play-pause-button {
-            opacity: 0.9;
-            pointer-events: auto;
-          }
-          
-          .timer-complete #play-pause-button {
-            opacity: 0;
-            pointer-events: none;
-          }
-        </style>
-      </head>
-      <body>
-        <div id="video-container" class="paused">
-          <iframe
-            id="youtube-player"
-            src="https://www.youtube.com/embed/${youtubeVideoId}?autoplay=1&controls=0&rel=0&modestbranding=1&playsinline=1&disablekb=1&fs=0&iv_load_policy=3&cc_load_policy=0&showinfo=0&theme=dark&enablejsapi=1&mute=0&loop=0"
-            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-            allowfullscreen
-            frameborder="0"
-            scrolling="no">
-          </iframe>
-          
-          <div id="security-overlay"></div>
-          <div id="play-pause-button"><div class="play-icon"></div></div>
-        </div>
-        
-        <script>
-          (function() {
-            'use strict';
-            
-            let player = null;
-            let timerCompleted = false;
-            let playerReady = false;
-            let isPlaying = false;
-            
-            console.log('🌐 WebView JavaScript loaded and ready');
-            
-            function notifyWebViewReady() {
-              try {
-                window.ReactNativeWebView.postMessage(JSON.stringify({
-                  type: 'webViewReady',
-                  timestamp: Date.now()
-                }));
-                console.log('📡 Sent webViewReady message to React Native');
-              } catch (e) {
-                console.log('❌ Failed to send webViewReady message:', e);
-              }
-            }
-            
-            notifyWebViewReady();
-            
-            let videoUnavailable = false;
-            
-            const securityOverlay = document.getElementById('security-overlay');
-            const playPauseButton = document.getElementById('play-pause-button');
-            const videoContainer = document.getElementById('video-container');
-            
-            function markVideoUnavailable() {
-              if (videoUnavailable) return;
-              console.log('🚨 Marking video as unavailable');
-              videoUnavailable = true;
-              notifyReactNative('videoUnavailable');
-            }
-            
-            function notifyReactNative(type, data = {}) {
-              try {
-                const message = { type, ...data };
-                console.log('📤 Sending to React Native:', message);
-                window.ReactNativeWebView.postMessage(JSON.stringify(message));
-              } catch (e) {
-                console.log('❌ Failed to notify React Native:', e);
-              }
-            }
-            
-            function checkIframeAvailability() {
-              const iframe = document.getElementById('youtube-player');
-              console.log('🔍 Checking iframe availability:', {
-                hasIframe: !!iframe,
-                iframeSrc: iframe?.src || 'none',
-                iframeLoaded: iframe?.contentWindow ? 'yes' : 'no'
-              });
-              
-              if (!iframe) {
-                console.log('❌ No iframe found');
-                markVideoUnavailable();
-                return;
-              }
-              
-              if (!iframe.src) {
-                console.log('❌ Iframe has no src');
-                markVideoUnavailable();
-                return;
-              }
-              
-              console.log('✅ Iframe looks good, setting up error handler');
-              iframe.onerror = () => {
-                console.log('❌ Iframe onerror triggered');
-                markVideoUnavailable();
-              };
-              
-              // Give iframe time to load before checking
-              setTimeout(() => {
-                if (!videoUnavailable && !playerReady) {
-                  console.log('⏰ Iframe load check after 5s - player not ready yet');
-                  // Don't mark as unavailable immediately, let YouTube API try to load
-                }
-              }, 5000);
-            }
-            
-            checkIframeAvailability();
-            
-            window.handleMessage = function(event) {
-              try {
-                console.log('📨 WebView received message:', event.data);
-                const data = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
-                console.log('📨 Parsed message data:', data);
-                
-                if (data.type === 'playVideo') {
-                  console.log('🎬 WebView received playVideo message');
-                  console.log('📊 WebView state:', {
-                    playerReady: playerReady,
-                    hasPlayer: !!player,
-                    timerCompleted: timerCompleted
-                  });
-                  
-                  if (playerReady && player && !timerCompleted) {
-                    console.log('✅ All conditions met, calling player.playVideo()');
-                    player.playVideo();
-                    // Immediately update overlay state
-                    updatePlayerState(true);
-                    // Notify React Native
-                    notifyReactNative('videoPlaying');
-                  } else {
-                    console.log('❌ Cannot play video - player not ready yet');
-                    // Store the play request to execute when player is ready
-                    window.pendingPlayRequest = true;
-                  }
-                }
-                
-                if (data.type === 'pauseVideo') {
-                  console.log('⏸️ WebView received pauseVideo message');
-                  if (playerReady && player) {
-                    player.pauseVideo();
-                    // Immediately update overlay state
-                    updatePlayerState(false);
-                  }
-                }
-              } catch (e) {
-                console.log('❌ WebView message handling error:', e);
-              }
-            }
-            
-            // React Native WebView message handling
-            window.addEventListener('message', handleMessage);
-            document.addEventListener('message', handleMessage);
-            
-            // Direct React Native WebView message handler
-            if (typeof window !== 'undefined') {
-              window.onmessage = handleMessage;
-            }
-            
-            if (!window.YT) {
-              console.log('📦 Loading YouTube API script');
-              const tag = document.createElement('script');
-              tag.src = 'https://www.youtube.com/iframe_api';
-              tag.onerror = () => {
-                console.log('❌ YouTube API script failed to load');
-                markVideoUnavailable();
-              };
-              tag.onload = () => {
-                console.log('✅ YouTube API script loaded');
-              };
-              
-              const firstScriptTag = document.getElementsByTagName('script')[0];
-              firstScriptTag.parentNode.insertBefore(tag, firstScriptTag);
-            } else {
-              console.log('✅ YouTube API already available');
-              window.onYouTubeIframeAPIReady();
-            }
-            
-            window.onYouTubeIframeAPIReady = function() {
-              if (videoUnavailable) return;
-              
-              console.log('🚀 YouTube API ready, initializing player');
-              
-              try {
-                player = new YT.Player('youtube-player', {
-                  events: {
-                    'onReady': onPlayerReady,
-                    'onStateChange': onPlayerStateChange,
-                    'onError': onPlayerError
-                  }
-                });
-                console.log('✅ YouTube player created successfully');
-              } catch (e) {
-                console.log('❌ Error creating YouTube player:', e);
-                markVideoUnavailable();
-              }
-            };
-            
-            function onPlayerReady(event) {
-              if (videoUnavailable) return;
-              
-              console.log('🎬 YouTube player ready event triggered');
-              playerReady = true;
-              
-              try {
-                const videoData = event.target.getVideoData();
-                console.log('📊 Video data:', videoData);
-                
-                // Be more lenient with video data validation
-                if (!videoData) {
-                  console.log('❌ No video data available');
-                  markVideoUnavailable();
-                  return;
-                }
-                
-                // Check if there's a pending play request
-                if (window.pendingPlayRequest) {
-                  console.log('🎯 Executing pending play request');
-                  event.target.playVideo();
-                  window.pendingPlayRequest = false;
-                  // Update overlay state immediately
-                  updatePlayerState(true);
-                  notifyReactNative('videoPlaying');
-                }
-                
-                console.log('✅ Video loaded successfully');
-                notifyReactNative('videoLoaded');
-                
-              } catch (e) {
-                console.log('❌ Error in onPlayerReady:', e);
-                markVideoUnavailable();
-              }
-            }
-            
-            function onPlayerStateChange(event) {
-              if (event.data === YT.PlayerState.PLAYING) {
-                console.log('🎬 YouTube player state: PLAYING');
-                updatePlayerState(true);
-                notifyReactNative('videoPlaying');
-                
-                // Execute pending play request if any
-                if (window.pendingPlayRequest) {
-                  window.pendingPlayRequest = false;
-                }
-              } else if (event.data === YT.PlayerState.PAUSED) {
-                console.log('⏸️ YouTube player state: PAUSED');
-                updatePlayerState(false);
-                notifyReactNative('videoPaused');
-              } else if (event.data === YT.PlayerState.ENDED) {
-                console.log('🏁 YouTube player state: ENDED');
-                updatePlayerState(false);
-                notifyReactNative('videoEnded');
-              }
-            }
-            
-            function onPlayerError(event) {
-              const errorCode = event.data;
-              const unavailableErrors = [2, 5, 100, 101, 150];
-              
-              if (unavailableErrors.includes(errorCode)) {
-                markVideoUnavailable();
-              } else {
-                notifyReactNative('videoError', { errorCode });
-              }
-            }
-            
-            function updatePlayerState(playing) {
-              isPlaying = playing;
-              const icon = playPauseButton.querySelector('.play-icon, .pause-icon');
-              
-              if (playing) {
-                icon.className = 'pause-icon';
-                videoContainer.classList.add('playing');
-                videoContainer.classList.remove('paused');
-              } else {
-                icon.className = 'play-icon';
-                videoContainer.classList.add('paused');
-                videoContainer.classList.remove('playing');
-              }
-            }
-            
-            function togglePlayPause() {
-              if (!playerReady || !player || timerCompleted || videoUnavailable) return;
-              
-              try {
-                if (isPlaying) {
-                  player.pauseVideo();
-                } else {
-                  player.playVideo();
-                }
-              } catch (e) {
-                // Silent error handling
-              }
-            }
-            
-            function forceVideoPause() {
-              if (playerReady && player) {
-                try {
-                  player.pauseVideo();
-                  videoContainer.classList.add('timer-complete');
-                } catch (e) {
-                  // Silent error handling
-                }
-              }
-            }
-            
-            function notifyReactNative(type, data = {}) {
-              if (window.ReactNativeWebView) {
-                window.ReactNativeWebView.postMessage(JSON.stringify({ 
-                  type: type, 
-                  ...data 
-                }));
-              }
-            }
-            
-            playPauseButton.addEventListener('click', function(e) {
-              e.stopPropagation();
-              togglePlayPause();
-            });
-            
-            securityOverlay.addEventListener('click', function(e) {
-              e.preventDefault();
-              e.stopPropagation();
-              if (!timerCompleted) togglePlayPause();
-            });
-            
-            document.addEventListener('contextmenu', e => e.preventDefault());
-            document.addEventListener('selectstart', e => e.preventDefault());
-            
-            document.addEventListener('keydown', function(e) {
-              if (timerCompleted) {
-                e.preventDefault();
-                return false;
-              }
-              
-              if (e.code === 'Space') {
-                e.preventDefault();
-                togglePlayPause();
-                return false;
-              }
-              
-              if (e.ctrlKey || e.metaKey || e.altKey) {
-                e.preventDefault();
-                return false;
-              }
-            });
-          })();
-        </script>
-      </body>
-      </html>
-    `;
-  }, []);
+  }, [machine, requestAutoPlay, handleSkipToNext, autoReportVideo]);
 
   // Extract YouTube video ID from URL
   const extractYouTubeId = useCallback((url: string): string => {
@@ -1155,12 +561,18 @@ export default function ViewTab() {
     return '';
   }, []);
 
-  // Memoize HTML content to prevent unnecessary regeneration
-  const htmlContent = useMemo(() => {
-    const videoId = extractYouTubeId(currentVideo?.youtube_url || '');
-    console.log('🎬 Creating HTML content for video ID:', videoId, 'from URL:', currentVideo?.youtube_url);
-    return createHtmlContent(videoId);
-  }, [currentVideo?.youtube_url, createHtmlContent, extractYouTubeId]);
+  const youtubeVideoId = useMemo(
+    () => extractYouTubeId(currentVideo?.youtube_url || ''),
+    [currentVideo?.youtube_url, extractYouTubeId]
+  );
+
+  // Player load failures (WebView or HTTP errors on native)
+  const handlePlayerLoadError = useCallback((reason: string) => {
+    machine.send({ type: 'ERROR', reason });
+    if (autoSkipEnabledRef.current) {
+      handleSkipToNext();
+    }
+  }, [machine, handleSkipToNext]);
 
   // Handle real-time updates
   useEffect(() => {
@@ -1198,54 +610,48 @@ export default function ViewTab() {
       }
       
       Linking.openURL(youtubeUrl).catch(() => {
-        Alert.alert('Error', 'Could not open YouTube video');
+        Alert.alert(t('common.error'), t('view.openYouTubeFailed'));
       });
     }
   };
 
-  const getRemainingTime = () => {
-    if (!currentVideo) return 0;
-    const targetDuration = currentVideo.duration_seconds || 0;
-    return Math.max(0, targetDuration - watchTimer);
-  };
+  const isProcessingReward = playback.status === 'rewarding';
 
   const getButtonState = () => {
     if (isProcessingReward) {
       return { 
-        text: 'PROCESSING...', 
+        text: t('view.processing'), 
         style: styles.processingButton, 
         disabled: true 
       };
     }
     
-    const targetDuration = currentVideo?.duration_seconds || 0;
-    
-    if (watchTimer >= targetDuration) {
-      if (rewardProcessedRef.current) {
-        return { text: 'COINS EARNED! TAP TO CONTINUE', style: styles.earnedButton, disabled: false };
+    if (playback.status === 'completed') {
+      if (playback.rewardClaimed) {
+        return { text: t('view.coinsEarnedContinue'), style: styles.earnedButton, disabled: false };
       } else {
-        return { text: `EARN ${currentVideo?.coin_reward || 0} COINS NOW`, style: styles.earnButton, disabled: false };
+        return { text: t('view.earnNow', { count: currentVideo?.coin_reward || 0 }), style: styles.earnButton, disabled: false };
       }
     }
     
-    if (videoError) {
+    if (playback.status === 'error') {
       return { 
-        text: 'VIDEO ERROR - TAP TO SKIP', 
+        text: t('view.videoErrorSkip'), 
         style: styles.errorButton, 
         disabled: false 
       };
     }
     
-    if (!videoLoadedSuccessfully) {
+    if (playback.status === 'idle' || playback.status === 'loading') {
       return { 
-        text: 'TAP TO SKIP', 
+        text: t('view.tapToSkip'), 
         style: styles.loadingButton, 
         disabled: false 
       };
     }
     
     return { 
-      text: 'SKIP VIDEO', 
+      text: t('view.skipVideo'), 
       style: styles.skipButton, 
       disabled: false 
     };
@@ -1262,7 +668,7 @@ export default function ViewTab() {
   if (!user) {
     return (
       <View style={[styles.container, { backgroundColor: colors.background }]}>
-        <Text style={[styles.loadingText, { color: colors.text }]}>Redirecting to login...</Text>
+        <Text style={[styles.loadingText, { color: colors.text }]}>{t('view.redirecting')}</Text>
       </View>
     );
   }
@@ -1272,18 +678,18 @@ export default function ViewTab() {
     return (
       <View style={[styles.container, { backgroundColor: colors.background }]}>
         <GlobalHeader 
-          title="View" 
+          title={t('tabs.view')}
           showCoinDisplay={true}
           menuVisible={menuVisible} 
           setMenuVisible={setMenuVisible} 
         />
         <View style={styles.loadingContainer}>
           <Text style={[styles.loadingText, { color: colors.text }]}>
-            {isInitializing ? 'Loading videos...' : 'Loading...'}
+            {isInitializing ? t('view.loadingVideos') : t('common.loading')}
           </Text>
           <TouchableOpacity
             style={[styles.retryButton, { backgroundColor: colors.primary }]}
-            onPress={() => user && fetchVideos(user.id)}><Text style={styles.retryButtonText}>Retry</Text></TouchableOpacity>
+            onPress={() => user && fetchVideos(user.id)}><Text style={styles.retryButtonText}>{t('common.retry')}</Text></TouchableOpacity>
         </View>
       </View>
     );
@@ -1294,18 +700,18 @@ export default function ViewTab() {
     return (
       <View style={[styles.container, { backgroundColor: colors.background }]}>
         <GlobalHeader 
-          title="View" 
+          title={t('tabs.view')}
           showCoinDisplay={true}
           menuVisible={menuVisible} 
           setMenuVisible={setMenuVisible} 
         />
         <View style={styles.emptyContainer}>
           <Text style={[styles.emptyText, { color: colors.text }]}>
-            {videoQueue.length === 0 ? 'No videos available' : 'Loading next video...'}
+            {videoQueue.length === 0 ? t('view.noVideos') : t('view.loadingNext')}
           </Text>
           <TouchableOpacity
             style={[styles.refreshButton, { backgroundColor: colors.primary }]}
-            onPress={() => user && fetchVideos(user.id)}><Text style={styles.refreshButtonText}>Refresh</Text></TouchableOpacity>
+            onPress={() => user && fetchVideos(user.id)}><Text style={styles.refreshButtonText}>{t('common.refresh')}</Text></TouchableOpacity>
         </View>
       </View>
     );
@@ -1316,7 +722,7 @@ export default function ViewTab() {
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <GlobalHeader 
-        title="View" 
+        title={t('tabs.view')}
         showCoinDisplay={true}
         menuVisible={menuVisible} 
         setMenuVisible={setMenuVisible} 
@@ -1326,37 +732,13 @@ export default function ViewTab() {
         styles.videoContainer, 
         isVideoTransitioning && styles.videoContainerTransitioning
       ]}>
-        <WebView
-          ref={webViewRef}
-          source={{ html: htmlContent }}
-          style={[
-            styles.webView,
-            isVideoTransitioning && styles.webViewTransitioning
-          ]}
-          onMessage={handleWebViewMessage}
-          javaScriptEnabled={true}
-          domStorageEnabled={true}
-          allowsInlineMediaPlayback={true}
-          mediaPlaybackRequiresUserAction={false}
-          scrollEnabled={false}
-          bounces={false}
-          cacheEnabled={true}
-          cacheMode="LOAD_DEFAULT"
-          onError={() => {
-            setVideoError(true);
-            if (autoSkipEnabledRef.current) {
-              handleSkipToNext();
-            }
-          }}
-          onHttpError={() => {
-            setVideoError(true);
-            if (autoSkipEnabledRef.current) {
-              handleSkipToNext();
-            }
-          }}
+        <WatchPlayer
+          ref={playerRef}
+          youtubeVideoId={youtubeVideoId}
+          style={isVideoTransitioning && styles.playerTransitioning}
+          onEvent={handlePlayerEvent}
+          onLoadError={handlePlayerLoadError}
           key={`video-${currentVideo?.video_id || 'default'}`}
-          startInLoadingState={false}
-          renderLoading={() => <></>}
         />
       </View>
 
@@ -1373,9 +755,10 @@ export default function ViewTab() {
       <View style={[styles.controlsContainer, { backgroundColor: colors.background }]}>
         <View style={[styles.youtubeButtonContainer, { backgroundColor: colors.surface }]}>
           <ExternalLink size={20} color="#FF0000" />
-          <TouchableOpacity onPress={handleOpenYouTube} style={styles.youtubeTextButton}><Text style={[styles.youtubeButtonText, { color: colors.text }]}>Open on YouTube</Text></TouchableOpacity>
+          <TouchableOpacity onPress={handleOpenYouTube} style={styles.youtubeTextButton}><Text style={[styles.youtubeButtonText, { color: colors.text }]}>{t('view.openOnYouTube')}</Text></TouchableOpacity>
+          <TouchableOpacity onPress={() => setReportVisible(true)} style={styles.reportButton}><Flag size={18} color={colors.textSecondary} /></TouchableOpacity>
           <View style={styles.autoPlayContainer}>
-            <Text style={[styles.autoPlayText, { color: colors.textSecondary }]}>Auto Skip</Text>
+            <Text style={[styles.autoPlayText, { color: colors.textSecondary }]}>{t('view.autoSkip')}</Text>
             <TouchableOpacity
               style={[styles.toggle, { backgroundColor: colors.border }]}
               onPress={() => setAutoSkipEnabled(!autoSkipEnabled)}><View style={[
@@ -1392,10 +775,10 @@ export default function ViewTab() {
               { color: colors.text },
               isProcessingReward && [styles.statNumberProcessing, { color: colors.warning }]
             ]}>
-              {isProcessingReward ? '⏳' : getRemainingTime()}
+              {isProcessingReward ? '⏳' : remainingSeconds(playback)}
             </Text>
             <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
-              {isProcessingReward ? 'Processing...' : 'Seconds to earn coins'}
+              {isProcessingReward ? t('common.processing') : t('view.secondsToEarn')}
             </Text>
           </View>
           <View style={styles.statItem}>
@@ -1407,7 +790,7 @@ export default function ViewTab() {
               {isProcessingReward ? '⏳' : (currentVideo?.coin_reward || '?')}
             </Text>
             <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
-              {isProcessingReward ? 'Processing...' : 'Coins to earn'}
+              {isProcessingReward ? t('common.processing') : t('view.coinsToEarn')}
             </Text>
           </View>
         </View>
@@ -1416,7 +799,22 @@ export default function ViewTab() {
           style={[styles.skipButtonBase, buttonState.style]}
           onPress={handleManualSkip}
           disabled={buttonState.disabled}><Text style={styles.skipButtonText}>{buttonState.text}</Text></TouchableOpacity>
+
+        {/* Subscribe and like campaigns have their own earn flow */}
+        <TouchableOpacity
+          style={[styles.engageButton, { borderColor: colors.border }]}
+          onPress={() => router.push('/engage')}>
+          <ThumbsUp size={18} color={colors.primary} />
+          <Text style={[styles.engageButtonText, { color: colors.primary }]}>{t('view.earnMore')}</Text>
+        </TouchableOpacity>
       </View>
+
+      <ReportVideoModal
+        visible={reportVisible}
+        videoTitle={currentVideo?.title}
+        onSubmit={handleReportVideo}
+        onClose={() => setReportVisible(false)}
+      />
     </View>
   );
 }
@@ -1476,10 +874,7 @@ const styles = StyleSheet.create({
   videoContainerTransitioning: {
     opacity: 0.8,
   },
-  webView: {
-    flex: 1,
-  },
-  webViewTransitioning: {
+  playerTransitioning: {
     opacity: 0.6,
   },
   controlsContainer: {
@@ -1510,6 +905,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  reportButton: {
+    padding: 4,
+    marginRight: 12,
+  },
   autoPlayContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1594,6 +993,20 @@ const styles = StyleSheet.create({
     color: 'white',
     textAlign: 'center',
   },
+  engageButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 8,
+  },
+  engageButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
   errorText: {
     fontSize: 14,
     textAlign: 'center',
@@ -7,10 +7,11 @@ import GlobalHeader from '@/components/GlobalHeader';
 import { DollarSign, Crown, ShieldOff, Star, Bug, Gift, Play, Clock, Coins, Sparkles, Zap } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useConfig } from '@/contexts/ConfigContext';
+import { useTranslation } from '@/hooks/useTranslation';
 import { LinearGradient } from 'expo-linear-gradient';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { getSupabase } from '@/lib/supabase';
 import AdService from '@/services/AdService';
+import CoinOutboxService from '@/services/CoinOutboxService';
 import * as Haptics from 'expo-haptics';
 import Animated, {
   useSharedValue,
@@ -32,10 +33,11 @@ const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpaci
 const AnimatedLinearGradient = Animated.createAnimatedComponent(LinearGradient);
 
 export default function MoreTab() {
-  const { user, profile, refreshProfile } = useAuth();
+  const { user, refreshProfile } = useAuth();
   const { colors, isDark } = useTheme();
   const { config } = useConfig();
   const { showError, showSuccess, showInfo, showConfirm } = useAlert();
+  const { t } = useTranslation();
   const router = useRouter();
   const [menuVisible, setMenuVisible] = useState(false);
   const [freeCoinsAvailable, setFreeCoinsAvailable] = useState(true);
@@ -131,7 +133,7 @@ export default function MoreTab() {
 
     // Check if ads are enabled in runtime config
     if (!config?.features.adsEnabled) {
-      showInfo('Feature Unavailable', 'Free coins through ads are currently disabled.');
+      showInfo(t('more.adsDisabledTitle'), t('more.adsDisabledMessage'));
       return;
     }
 
@@ -141,8 +143,8 @@ export default function MoreTab() {
     
     if (adBlockStatus.detected) {
       showConfirm(
-        'Ad Blocker Detected',
-        'Please disable ad blocking software to earn free coins through ads. Reset detection and try again?',
+        t('more.adBlockerTitle'),
+        t('more.adBlockerMessage'),
         () => {
           adService.resetAdBlockDetection();
           // Retry the ad after a short delay
@@ -165,8 +167,8 @@ export default function MoreTab() {
 
     // Show confirmation and handle the ad flow
     showConfirm(
-      '🎬 Watch Ad for Free Coins',
-      'Watch a 30-second ad to earn 100 free coins. Continue?',
+      t('more.watchAdTitle'),
+      t('more.watchAdMessage', { count: 100 }),
       () => {
         // Start loading after confirmation
         setLoading(true);
@@ -185,34 +187,24 @@ export default function MoreTab() {
       const adService = AdService.getInstance();
       const adResult = await adService.showRewardedAd();
       
-      if (adResult.success) {
+      if (adResult.success && adResult.transactionId) {
         try {
-          // Award coins to user
+          // Award coins to user; the server verifies the impression and picks the amount
           if (user) {
-            const supabase = getSupabase();
-            const { error } = await supabase
-              .from('coin_transactions')
-              .insert({
-                user_id: user.id,
-                amount: adResult.reward || 100,
-                transaction_type: 'ad_reward',
-                description: 'Free coins earned by watching 30-second ad',
-                reference_id: `ad_${Date.now()}`,
-                metadata: {
-                  ad_duration: 30,
-                  platform: Platform.OS
-                }
-              });
-
-            if (!error) {
-              // Update user's coin balance
-              await supabase
-                .from('profiles')
-                .update({ 
-                  coins: (profile?.coins || 0) + (adResult.reward || 100)
-                })
-                .eq('id', user.id);
+            const { data, error, queued } = await CoinOutboxService.getInstance().submit(
+              'ad_reward',
+              { userId: user.id, adTransactionId: adResult.transactionId },
+              { userId: user.id, coins: adResult.reward || 0 }
+            );
 
+            if (queued) {
+              await AsyncStorage.setItem('lastFreeCoinsClaimTime', new Date().toISOString());
+              await checkFreeCoinsAvailability();
+              showInfo(
+                t('view.rewardPendingTitle'),
+                t('view.rewardPendingMessage', { count: adResult.reward || 0 })
+              );
+            } else if (!error) {
               // Record claim time
               await AsyncStorage.setItem('lastFreeCoinsClaimTime', new Date().toISOString());
               
@@ -225,8 +217,8 @@ export default function MoreTab() {
               }
 
               showSuccess(
-                '🎉 Coins Earned!',
-                `${adResult.reward || 100} coins have been added to your account! Come back in 2 hours for more free coins.`
+                t('more.coinsEarnedTitle'),
+                t('more.coinsEarnedMessage', { count: data?.coins_awarded ?? adResult.reward ?? 0 })
               );
             } else {
               throw new Error('Failed to award coins');
@@ -234,25 +226,25 @@ export default function MoreTab() {
           }
         } catch (error) {
           console.error('Error awarding free coins:', error);
-          showError('Error', 'Failed to award coins. Please try again.');
+          showError(t('common.error'), t('more.awardFailed'));
         }
       } else {
-        showError('Ad Failed', 'Unable to show ad. Please try again later.');
+        showError(t('more.adFailedTitle'), t('more.adFailedMessage'));
       }
     } catch (error) {
       console.error('Error handling free coins:', error);
-      showError('Error', 'Something went wrong. Please try again.');
+      showError(t('common.error'), t('common.somethingWentWrong'));
     } finally {
       setLoading(false);
     }
   };
 
   const menuItems = [
-    { icon: DollarSign, title: 'Buy Coins', subtitle: 'Unlock Rewards', route: '/buy-coins' },
-    { icon: Crown, title: 'Become VIP', subtitle: 'Premium Access', route: '/become-vip' },
-    { icon: ShieldOff, title: 'Stop Ads', subtitle: '5 Hours Ad-Free', route: '/configure-ads' },
-    { icon: Star, title: 'Rate Us', subtitle: 'Get 100 Coins', route: '/rate-us' },
-    { icon: Bug, title: 'Report Problem', subtitle: 'Technical Issues', route: '/report-problem' },
+    { icon: DollarSign, title: t('more.buyCoins'), subtitle: t('more.buyCoinsSubtitle'), route: '/buy-coins' },
+    { icon: Crown, title: t('more.becomeVip'), subtitle: t('more.becomeVipSubtitle'), route: '/become-vip' },
+    { icon: ShieldOff, title: t('more.stopAds'), subtitle: t('more.stopAdsSubtitle'), route: '/configure-ads' },
+    { icon: Star, title: t('more.rateUs'), subtitle: t('more.rateUsSubtitle'), route: '/rate-us' },
+    { icon: Bug, title: t('more.reportProblem'), subtitle: t('more.reportProblemSubtitle'), route: '/report-problem' },
   ];
 
   const handleItemPress = (item: any) => {
@@ -292,7 +284,7 @@ export default function MoreTab() {
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <GlobalHeader 
-        title="More" 
+        title={t('tabs.more')}
         showCoinDisplay={true}
         menuVisible={menuVisible} 
         setMenuVisible={setMenuVisible} 
@@ -312,7 +304,7 @@ export default function MoreTab() {
               fontSize: isVerySmallScreen ? 18 : isSmallScreen ? 20 : 22
             }
           ]}>
-            🎁 Free Coins Available
+            {t('more.freeCoinsTitle')}
           </Text>
           
           <AnimatedTouchableOpacity
@@ -397,7 +389,7 @@ export default function MoreTab() {
                       fontSize: isVerySmallScreen ? 14 : 16
                     }
                   ]}>
-                    {freeCoinsAvailable ? '🎬 Watch & Earn' : '⏰ Cooldown'}
+                    {freeCoinsAvailable ? t('more.watchAndEarn') : t('more.cooldown')}
                   </Text>
                   <Text style={[
                     styles.freeCoinsSubtitle,
@@ -407,8 +399,8 @@ export default function MoreTab() {
                     }
                   ]}>
                     {freeCoinsAvailable 
-                      ? '30s ad = 100 coins' 
-                      : `Next in ${timeRemaining}`
+                      ? t('more.adOffer', { count: 100 })
+                      : t('more.nextIn', { time: timeRemaining })
                     }
                   </Text>
                 </View>
@@ -448,7 +440,7 @@ export default function MoreTab() {
                         fontSize: isVerySmallScreen ? 12 : 14
                       }
                     ]}>
-                      {loading ? 'Loading Ad...' : 'Tap to watch 30s ad'}
+                      {loading ? t('more.loadingAd') : t('more.tapToWatch')}
                     </Text>
                     <Zap size={isVerySmallScreen ? 12 : 14} color={colors.primary} />
                   </View>
@@ -466,7 +458,7 @@ export default function MoreTab() {
                         fontSize: isVerySmallScreen ? 12 : 14
                       }
                     ]}>
-                      Next free coins in {timeRemaining}
+                      {t('more.nextFreeCoinsIn', { time: timeRemaining })}
                     </Text>
                   </View>
                 </View>
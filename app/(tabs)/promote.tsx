@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -13,61 +13,144 @@ import {
 import { useAuth } from '../../contexts/AuthContext';
 import { useRouter } from 'expo-router';
 import { useAlert } from '@/contexts/AlertContext';
-import { getSupabase, createVideoPromotion } from '@/lib/supabase';
-import { useConfig } from '@/contexts/ConfigContext';
+import { getSupabase, createVideoPromotion, countActiveCampaigns, quotePromotion } from '@/lib/supabase';
+import type { PromotionQuote } from '@/lib/supabase';
 import { useFeatureFlag } from '@/hooks/useFeatureFlags';
+import { useEntitlements } from '@/hooks/useEntitlements';
+import { validateSchedule } from '@/utils/campaignPacing';
+import type { PromotionSchedule } from '@/utils/campaignPacing';
+import { LANGUAGES, TARGET_COUNTRIES, EVERYONE, describeTargeting } from '@/utils/audienceTargeting';
+import type { PromotionTargeting } from '@/utils/audienceTargeting';
+import { CAMPAIGN_TYPES } from '@/utils/campaignTypes';
+import type { CampaignType } from '@/utils/campaignTypes';
+import { isQuoteUsable, quoteMatches, getQuoteExpiresInMs, getQuoteDiscountTotal, QUOTE_EXPIRY_MARGIN_MS } from '@/utils/promotionQuote';
+import { getPromotableDurations, getPromotionBlocker, formatVideoLength } from '@/utils/videoMetadata';
+import type { VideoMetadata } from '@/utils/videoMetadata';
 import { validateYouTubeUrl, validateVideoTitle, extractYouTubeVideoId } from '../../utils/validation';
+import VideoMetadataService from '@/services/VideoMetadataService';
 import VideoPreview from '@/components/VideoPreview';
 import GlobalHeader from '@/components/GlobalHeader';
-import { Play, Eye, Clock, Crown } from 'lucide-react-native';
+import { Play, Eye, Clock, Crown, Calendar, Gauge, Globe, MapPin, UserPlus, ThumbsUp } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useFormatting } from '@/hooks/useFormatting';
 
 export default function PromoteTab() {
   const { user, profile, refreshProfile } = useAuth();
   const { colors, isDark } = useTheme();
+  const { t } = useTranslation();
+  const { formatDateTime } = useFormatting();
   const { showError, showSuccess, showConfirm } = useAlert();
-  const { config } = useConfig();
   const coinsEnabled = useFeatureFlag('coinsEnabled');
+  const entitlements = useEntitlements();
   const router = useRouter();
   const [menuVisible, setMenuVisible] = useState(false);
   
   const [youtubeUrl, setYoutubeUrl] = useState('');
   const [videoTitle, setVideoTitle] = useState('');
+  const [campaignType, setCampaignType] = useState<CampaignType>('view');
   const [targetViews, setTargetViews] = useState(50);
   const [videoDuration, setVideoDuration] = useState(30);
   const [isValidVideo, setIsValidVideo] = useState(false);
   const [videoId, setVideoId] = useState('');
+  const [videoMetadata, setVideoMetadata] = useState<VideoMetadata | null>(null);
   const [loading, setLoading] = useState(false);
+  const [startOption, setStartOption] = useState('after_hold');
+  const [campaignDays, setCampaignDays] = useState<number | null>(null);
+  const [dailyViewCap, setDailyViewCap] = useState<number | null>(null);
+  const [targeting, setTargeting] = useState<PromotionTargeting>(EVERYONE);
+  const [quote, setQuote] = useState<PromotionQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const quoteRequestRef = useRef(0);
 
-  // Fixed reward calculation logic based on duration
-  const calculateCoinsByDuration = (durationSeconds: number): number => {
-    if (durationSeconds >= 540) return 200;
-    if (durationSeconds >= 480) return 150;
-    if (durationSeconds >= 420) return 130;
-    if (durationSeconds >= 360) return 100;
-    if (durationSeconds >= 300) return 90;
-    if (durationSeconds >= 240) return 70;
-    if (durationSeconds >= 180) return 55;
-    if (durationSeconds >= 150) return 50;
-    if (durationSeconds >= 120) return 45;
-    if (durationSeconds >= 90) return 35;
-    if (durationSeconds >= 60) return 25;
-    if (durationSeconds >= 45) return 15;
-    if (durationSeconds >= 30) return 10;
-    return 5;
+  // Only view campaigns pay for watch time, so duration doesn't apply to the others
+  const durationSeconds = campaignType === 'view' ? videoDuration : 0;
+  const campaignInfo = CAMPAIGN_TYPES[campaignType];
+
+  // Pricing is done by the server; fetch a fresh quote whenever the options change
+  const fetchQuote = useCallback(async (): Promise<PromotionQuote | null> => {
+    if (!user) return null;
+
+    const requestId = ++quoteRequestRef.current;
+    setQuoteLoading(true);
+    setQuoteError(null);
+
+    const { data, error } = await quotePromotion(user.id, targetViews, durationSeconds, targeting, campaignType);
+
+    // A newer request (options changed meanwhile) owns the state now
+    if (requestId !== quoteRequestRef.current) return data;
+
+    setQuoteLoading(false);
+    if (error || !data) {
+      console.error('Error fetching promotion quote:', error);
+      setQuote(null);
+      setQuoteError('Could not get a price for this promotion');
+      return null;
+    }
+
+    setQuote(data);
+    return data;
+  }, [user, targetViews, durationSeconds, targeting, campaignType]);
+
+  // The tier changes the price even though the request doesn't include it
+  useEffect(() => {
+    const timer = setTimeout(fetchQuote, 300);
+    return () => clearTimeout(timer);
+  }, [fetchQuote, entitlements.tier]);
+
+  // Re-quote shortly before the current quote expires
+  useEffect(() => {
+    if (!quote) return;
+
+    const delay = Math.max(0, getQuoteExpiresInMs(quote) - QUOTE_EXPIRY_MARGIN_MS);
+    const timer = setTimeout(fetchQuote, delay);
+    return () => clearTimeout(timer);
+  }, [quote, fetchQuote]);
+
+  // Durations longer than the video can never be watched; keep the choice within its length
+  useEffect(() => {
+    const durations = getPromotableDurations(videoMetadata?.durationSeconds);
+    if (durations.length > 0) {
+      setVideoDuration(current => Math.min(current, durations[durations.length - 1]));
+    }
+  }, [videoMetadata?.durationSeconds]);
+
+  const toggleTargetLanguage = (code: string) => {
+    setTargeting(prev => ({
+      ...prev,
+      languages: prev.languages.includes(code)
+        ? prev.languages.filter(language => language !== code)
+        : [...prev.languages, code],
+    }));
   };
 
-  // Improved cost calculation with higher charges
-  const calculateCost = () => {
-    // Higher cost calculation: base cost increased significantly
-    const baseCost = Math.ceil((targetViews * videoDuration) / 50 * 8); // Doubled the multiplier and halved the divisor
-    return profile?.is_vip ? Math.ceil(baseCost * 0.9) : baseCost;
+  const toggleTargetCountry = (code: string) => {
+    setTargeting(prev => ({
+      ...prev,
+      countries: prev.countries.includes(code)
+        ? prev.countries.filter(country => country !== code)
+        : [...prev.countries, code],
+    }));
   };
 
-  const getVipDiscount = () => {
-    if (!profile?.is_vip) return 0;
-    const baseCost = Math.ceil((targetViews * videoDuration) / 50 * 8);
-    return Math.ceil(baseCost * 0.1);
+  // Start times are picked relative to now, so resolve them when the promotion is submitted
+  const buildSchedule = (): PromotionSchedule => {
+    const now = new Date();
+    let startsAt: Date | null = null;
+    if (startOption === 'in_1_hour') {
+      startsAt = new Date(now.getTime() + 60 * 60 * 1000);
+    } else if (startOption === 'tomorrow_9am') {
+      startsAt = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 9, 0, 0);
+    } else if (startOption === 'in_3_days') {
+      startsAt = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 3, 9, 0, 0);
+    }
+
+    const endsAt = campaignDays !== null
+      ? new Date((startsAt || now).getTime() + campaignDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    return { startsAt, endsAt, dailyViewCap };
   };
 
   const handleVideoValidation = (isValid: boolean, title?: string, extractedVideoId?: string) => {
@@ -119,7 +202,48 @@ export default function PromoteTab() {
       return;
     }
 
-    const cost = calculateCost();
+    // Checked again by create_video_promotion, but catch it before asking for coins.
+    // Without metadata nothing can be checked, so don't let the promotion through.
+    const metadata = videoMetadata ?? await VideoMetadataService.getInstance().resolve(extractedVideoId);
+    if (!metadata) {
+      showError('Video Details Unavailable', 'Could not check this video right now. Please try again in a moment.');
+      return;
+    }
+    const metadataBlocker = getPromotionBlocker(metadata, campaignType, videoDuration);
+    if (metadataBlocker) {
+      showError('Video Not Supported', metadataBlocker);
+      return;
+    }
+
+    const { data: activeCampaigns, error: countError } = await countActiveCampaigns(user.id);
+    if (countError || activeCampaigns === null) {
+      console.error('Error counting active campaigns:', countError);
+      showError('Error', 'Could not check your active campaigns. Please try again.');
+      return;
+    }
+    if (activeCampaigns >= entitlements.maxActiveCampaigns) {
+      showError(
+        'Campaign Limit Reached',
+        `You can run up to ${entitlements.maxActiveCampaigns} promotions at once. Wait for one to finish${entitlements.tier === 'free' ? ' or upgrade to VIP for more' : ''}.`
+      );
+      return;
+    }
+
+    const schedule = buildSchedule();
+    const scheduleError = validateSchedule(schedule, targetViews);
+    if (scheduleError) {
+      showError('Invalid Schedule', scheduleError);
+      return;
+    }
+
+    const quoteRequest = { campaignType, targetViews, durationSeconds, targeting };
+    const currentQuote = isQuoteUsable(quote, quoteRequest) ? quote : await fetchQuote();
+    if (!currentQuote) {
+      showError('Pricing Unavailable', 'Could not get a price for this promotion. Please try again.');
+      return;
+    }
+
+    const cost = currentQuote.final_cost;
     if (profile.coins < cost) {
       showConfirm(
         'Insufficient Coins',
@@ -135,23 +259,36 @@ export default function PromoteTab() {
     setLoading(true);
 
     try {
-      // Calculate coin reward based on duration
-      const coinReward = calculateCoinsByDuration(videoDuration);
-      const coinCost = calculateCost();
-      
-      // Use the new createVideoPromotion function with correct parameters
+      // Campaign type, cost, reward, views and duration are all taken from the quote server-side
       const result = await createVideoPromotion(
-        coinCost,
-        coinReward,
-        videoDuration,
-        targetViews,
+        currentQuote.quote_id,
         videoTitle,
         user.id,
-        videoId  // Use videoId instead of youtubeUrl
+        videoId,  // Use videoId instead of youtubeUrl
+        schedule,
+        { campaignType, channelId: metadata?.channelId }
       );
 
       console.log('Promotion result:', result); // Debug log
 
+      // Rejected by the duplicate, blocklist or rate limit checks; the quote is still usable
+      if (result.rejection) {
+        const { rejection } = result;
+        if (rejection.code === 'duplicate_campaign' && rejection.existingVideoId) {
+          showConfirm(
+            rejection.title,
+            rejection.message,
+            () => router.push(`/edit-video?id=${rejection.existingVideoId}&edit=1`),
+            undefined,
+            'Add Views',
+            'Cancel'
+          );
+        } else {
+          showError(rejection.title, rejection.message);
+        }
+        return;
+      }
+
       if (result.error) {
         let errorMsg = 'Failed to promote video. Please try again.';
         if (typeof result.error === 'string') {
@@ -162,17 +299,23 @@ export default function PromoteTab() {
           errorMsg = JSON.stringify(result.error);
         }
         showError('Error', errorMsg);
+        // The quote may have expired or been used; price again before the next attempt
+        fetchQuote();
         return;
       }
 
       // Check for success in data object (based on logs showing result.data.success)
       if (result.data?.success) {
         await refreshProfile();
-        const vipDiscount = getVipDiscount();
+        const vipDiscount = getQuoteDiscountTotal(currentQuote);
         const discountText = vipDiscount > 0 ? `\n\n👑 VIP Discount Applied: ${vipDiscount} coins saved!` : '';
+        const startText = schedule.startsAt
+          ? `It will start on ${formatDateTime(schedule.startsAt)}.`
+          : 'It will be active in the queue after 10-minute hold period.';
+        const pacingText = schedule.dailyViewCap ? ` Views are limited to ${schedule.dailyViewCap} per day.` : '';
         showSuccess(
           'Video Promoted Successfully!',
-          `Your video "${videoTitle}" has been submitted for promotion. It will be active in the queue after 10-minute hold period.${discountText}`
+          `Your video "${videoTitle}" has been submitted for promotion. ${startText}${pacingText}${discountText}`
         );
         resetForm();
         setTimeout(() => router.push('/(tabs)/analytics'), 1500);
@@ -190,19 +333,39 @@ export default function PromoteTab() {
   const resetForm = () => {
     setYoutubeUrl('');
     setVideoTitle('');
+    setVideoMetadata(null);
+    setCampaignType('view');
     setIsValidVideo(false);
+    setStartOption('after_hold');
+    setCampaignDays(null);
+    setDailyViewCap(null);
+    setTargeting(EVERYONE);
   };
 
   const targetViewsOptions = [35, 50, 100, 200, 300, 400, 500, 750, 1000];
-  const durationOptions = [30, 45, 60, 90, 120, 180, 240, 300, 360, 420, 480, 540];
+  const durationOptions = getPromotableDurations(videoMetadata?.durationSeconds);
+  const videoLength = formatVideoLength(videoMetadata?.durationSeconds);
+  const startOptions = [
+    { id: 'after_hold', label: 'After hold' },
+    { id: 'in_1_hour', label: 'In 1 hour' },
+    { id: 'tomorrow_9am', label: 'Tomorrow 9:00' },
+    { id: 'in_3_days', label: 'In 3 days' },
+  ];
+  const campaignDayOptions: (number | null)[] = [null, 3, 7, 14, 30];
+  const dailyViewCapOptions: (number | null)[] = [null, 10, 25, 50, 100, 250];
+  const selectedStartLabel = startOptions.find(option => option.id === startOption)?.label || 'After hold';
 
-  const cost = calculateCost();
-  const vipDiscount = getVipDiscount();
+  const campaignTypeIcons = { view: Eye, subscribe: UserPlus, like: ThumbsUp };
+  const TargetIcon = campaignTypeIcons[campaignType];
+
+  const displayedQuote = quoteMatches(quote, { campaignType, targetViews, durationSeconds, targeting })
+    ? quote
+    : null;
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <GlobalHeader 
-        title="Promote" 
+        title={t('tabs.promote')}
         showCoinDisplay={true}
         menuVisible={menuVisible} 
         setMenuVisible={setMenuVisible} 
@@ -218,7 +381,7 @@ export default function PromoteTab() {
           keyboardShouldPersistTaps="handled"
         >
           <View style={styles.inputSection}>
-            <Text style={[styles.inputLabel, { color: colors.text }]}>YouTube Video URL</Text>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>{t('promote.urlLabel')}</Text>
             <TextInput
               style={[styles.textInput, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
               placeholder="https://www.youtube.com/watch?v=..."
@@ -236,12 +399,13 @@ export default function PromoteTab() {
               youtubeUrl={youtubeUrl}
               onValidation={handleVideoValidation}
               onTitleDetected={handleTitleDetected}
+              onMetadata={setVideoMetadata}
               collapsed={false}
             />
           )}
 
           <View style={styles.inputSection}>
-            <Text style={[styles.inputLabel, { color: colors.text }]}>Video Title</Text>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>{t('promote.titleLabel')}</Text>
             <TextInput
               style={[styles.textInput, { backgroundColor: colors.inputBackground, color: colors.text, borderColor: colors.border }]}
               placeholder="Enter video title"
@@ -254,7 +418,30 @@ export default function PromoteTab() {
           </View>
 
           <View style={styles.inputSection}>
-            <Text style={[styles.inputLabel, { color: colors.text }]}>Target Views</Text>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>{t('promote.campaignTypeLabel')}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
+              {(Object.keys(CAMPAIGN_TYPES) as CampaignType[]).map((type) => {
+                const TypeIcon = campaignTypeIcons[type];
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={[
+                      styles.optionButton,
+                      { backgroundColor: colors.surface, borderColor: colors.border },
+                      campaignType === type && { backgroundColor: colors.primary, borderColor: colors.primary }
+                    ]}
+                    onPress={() => setCampaignType(type)}><TypeIcon size={16} color={campaignType === type ? 'white' : colors.primary} /><Text style={[
+                      styles.optionText,
+                      { color: campaignType === type ? 'white' : colors.primary }
+                    ]}>{CAMPAIGN_TYPES[type].label}</Text></TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+            <Text style={[styles.optionHint, { color: colors.textSecondary }]}>{campaignInfo.description}</Text>
+          </View>
+
+          <View style={styles.inputSection}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>Target {campaignInfo.label}</Text>
             <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
               {targetViewsOptions.map((views) => (
                 <TouchableOpacity
@@ -264,7 +451,7 @@ export default function PromoteTab() {
                     { backgroundColor: colors.surface, borderColor: colors.border },
                     targetViews === views && { backgroundColor: colors.primary, borderColor: colors.primary }
                   ]}
-                  onPress={() => setTargetViews(views)}><Eye size={16} color={targetViews === views ? 'white' : colors.primary} /><Text style={[
+                  onPress={() => setTargetViews(views)}><TargetIcon size={16} color={targetViews === views ? 'white' : colors.primary} /><Text style={[
                     styles.optionText,
                     { color: targetViews === views ? 'white' : colors.primary }
                   ]}>{views}</Text></TouchableOpacity>
@@ -272,60 +459,229 @@ export default function PromoteTab() {
             </ScrollView>
           </View>
 
+          {campaignType === 'view' && (
+            <View style={styles.inputSection}>
+              <Text style={[styles.inputLabel, { color: colors.text }]}>{t('promote.durationLabel')}</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
+                {durationOptions.map((duration) => (
+                  <TouchableOpacity
+                    key={duration}
+                    style={[
+                      styles.optionButton,
+                      { backgroundColor: colors.surface, borderColor: colors.border },
+                      videoDuration === duration && { backgroundColor: colors.primary, borderColor: colors.primary }
+                    ]}
+                    onPress={() => setVideoDuration(duration)}><Clock size={16} color={videoDuration === duration ? 'white' : colors.primary} /><Text style={[
+                      styles.optionText,
+                      { color: videoDuration === duration ? 'white' : colors.primary }
+                    ]}>{duration}s</Text></TouchableOpacity>
+                ))}
+              </ScrollView>
+              {videoLength && (
+                <Text style={[styles.optionHint, { color: colors.textSecondary }]}>
+                  {durationOptions.length > 0
+                    ? `Video length ${videoLength}; longer durations aren't available`
+                    : `Video length ${videoLength} is too short for a view campaign`}
+                </Text>
+              )}
+            </View>
+          )}
+
+          <View style={styles.inputSection}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>{t('promote.startLabel')}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
+              {startOptions.map((option) => (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[
+                    styles.optionButton,
+                    { backgroundColor: colors.surface, borderColor: colors.border },
+                    startOption === option.id && { backgroundColor: colors.primary, borderColor: colors.primary }
+                  ]}
+                  onPress={() => setStartOption(option.id)}><Calendar size={16} color={startOption === option.id ? 'white' : colors.primary} /><Text style={[
+                    styles.optionText,
+                    { color: startOption === option.id ? 'white' : colors.primary }
+                  ]}>{option.label}</Text></TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+
           <View style={styles.inputSection}>
-            <Text style={[styles.inputLabel, { color: colors.text }]}>Video Duration (seconds)</Text>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>{t('promote.runForLabel')}</Text>
             <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
-              {durationOptions.map((duration) => (
+              {campaignDayOptions.map((days) => (
                 <TouchableOpacity
-                  key={duration}
+                  key={days ?? 'none'}
                   style={[
                     styles.optionButton,
                     { backgroundColor: colors.surface, borderColor: colors.border },
-                    videoDuration === duration && { backgroundColor: colors.primary, borderColor: colors.primary }
+                    campaignDays === days && { backgroundColor: colors.primary, borderColor: colors.primary }
                   ]}
-                  onPress={() => setVideoDuration(duration)}><Clock size={16} color={videoDuration === duration ? 'white' : colors.primary} /><Text style={[
+                  onPress={() => setCampaignDays(days)}><Calendar size={16} color={campaignDays === days ? 'white' : colors.primary} /><Text style={[
                     styles.optionText,
-                    { color: videoDuration === duration ? 'white' : colors.primary }
-                  ]}>{duration}s</Text></TouchableOpacity>
+                    { color: campaignDays === days ? 'white' : colors.primary }
+                  ]}>{days === null ? 'Until done' : `${days} days`}</Text></TouchableOpacity>
               ))}
             </ScrollView>
           </View>
 
+          <View style={styles.inputSection}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>Daily {campaignInfo.label} Cap</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
+              {dailyViewCapOptions.map((cap) => (
+                <TouchableOpacity
+                  key={cap ?? 'none'}
+                  style={[
+                    styles.optionButton,
+                    { backgroundColor: colors.surface, borderColor: colors.border },
+                    dailyViewCap === cap && { backgroundColor: colors.primary, borderColor: colors.primary }
+                  ]}
+                  onPress={() => setDailyViewCap(cap)}><Gauge size={16} color={dailyViewCap === cap ? 'white' : colors.primary} /><Text style={[
+                    styles.optionText,
+                    { color: dailyViewCap === cap ? 'white' : colors.primary }
+                  ]}>{cap === null ? 'No cap' : `${cap}/day`}</Text></TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+
+          <View style={styles.inputSection}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>{t('promote.audienceLanguageLabel')}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
+              <TouchableOpacity
+                style={[
+                  styles.optionButton,
+                  { backgroundColor: colors.surface, borderColor: colors.border },
+                  targeting.languages.length === 0 && { backgroundColor: colors.primary, borderColor: colors.primary }
+                ]}
+                onPress={() => setTargeting(prev => ({ ...prev, languages: [] }))}><Globe size={16} color={targeting.languages.length === 0 ? 'white' : colors.primary} /><Text style={[
+                  styles.optionText,
+                  { color: targeting.languages.length === 0 ? 'white' : colors.primary }
+                ]}>{t('common.all')}</Text></TouchableOpacity>
+              {LANGUAGES.map((language) => {
+                const selected = targeting.languages.includes(language.code);
+                return (
+                  <TouchableOpacity
+                    key={language.code}
+                    style={[
+                      styles.optionButton,
+                      { backgroundColor: colors.surface, borderColor: colors.border },
+                      selected && { backgroundColor: colors.primary, borderColor: colors.primary }
+                    ]}
+                    onPress={() => toggleTargetLanguage(language.code)}><Text style={[
+                      styles.optionText,
+                      { color: selected ? 'white' : colors.primary }
+                    ]}>{language.flag} {language.name}</Text></TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </View>
+
+          <View style={styles.inputSection}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>{t('promote.audienceCountryLabel')}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
+              <TouchableOpacity
+                style={[
+                  styles.optionButton,
+                  { backgroundColor: colors.surface, borderColor: colors.border },
+                  targeting.countries.length === 0 && { backgroundColor: colors.primary, borderColor: colors.primary }
+                ]}
+                onPress={() => setTargeting(prev => ({ ...prev, countries: [] }))}><MapPin size={16} color={targeting.countries.length === 0 ? 'white' : colors.primary} /><Text style={[
+                  styles.optionText,
+                  { color: targeting.countries.length === 0 ? 'white' : colors.primary }
+                ]}>{t('common.all')}</Text></TouchableOpacity>
+              {TARGET_COUNTRIES.map((country) => {
+                const selected = targeting.countries.includes(country.code);
+                return (
+                  <TouchableOpacity
+                    key={country.code}
+                    style={[
+                      styles.optionButton,
+                      { backgroundColor: colors.surface, borderColor: colors.border },
+                      selected && { backgroundColor: colors.primary, borderColor: colors.primary }
+                    ]}
+                    onPress={() => toggleTargetCountry(country.code)}><Text style={[
+                      styles.optionText,
+                      { color: selected ? 'white' : colors.primary }
+                    ]}>{country.flag} {country.name}</Text></TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </View>
+
           <View style={[styles.costSection, { backgroundColor: colors.surface }]}>
-            <Text style={[styles.costTitle, { color: colors.text }]}>Promotion Summary</Text>
+            <Text style={[styles.costTitle, { color: colors.text }]}>{t('promote.summaryTitle')}</Text>
             <View style={styles.costRow}>
-              <Text style={[styles.costLabel, { color: colors.textSecondary }]}>Target Views:</Text>
+              <Text style={[styles.costLabel, { color: colors.textSecondary }]}>Target {campaignInfo.label}:</Text>
               <Text style={[styles.costValue, { color: colors.text }]}>{targetViews}</Text>
             </View>
-            <View style={styles.costRow}>
-              <Text style={[styles.costLabel, { color: colors.textSecondary }]}>Duration:</Text>
-              <Text style={[styles.costValue, { color: colors.text }]}>{videoDuration}s</Text>
-            </View>
-            {vipDiscount > 0 && (
-              <View style={styles.costRow}>
-                <Text style={[styles.costLabel, { color: colors.textSecondary }]}>Base Cost:</Text>
-                <Text style={[styles.costValue, { color: colors.text }]}>🪙{Math.ceil((targetViews * videoDuration) / 50 * 8)}</Text>
-              </View>
-            )}
-            {vipDiscount > 0 && (
+            {campaignType === 'view' && (
               <View style={styles.costRow}>
-                <Text style={[styles.costLabel, { color: colors.textSecondary }]}>👑 VIP Discount (10%):</Text>
-                <Text style={[styles.vipDiscountValue, { color: colors.success }]}>-🪙{vipDiscount}</Text>
+                <Text style={[styles.costLabel, { color: colors.textSecondary }]}>{t('promote.summaryDuration')}</Text>
+                <Text style={[styles.costValue, { color: colors.text }]}>{videoDuration}s</Text>
               </View>
             )}
             <View style={styles.costRow}>
-              <Text style={[styles.costLabel, { color: colors.textSecondary }]}>Final Cost:</Text>
-              <Text style={[styles.costValue, { color: colors.text }]}>🪙{cost}</Text>
+              <Text style={[styles.costLabel, { color: colors.textSecondary }]}>{t('promote.summaryAudience')}</Text>
+              <Text style={[styles.costValue, { color: colors.text }]}>{describeTargeting(targeting)}</Text>
             </View>
-            {profile?.is_vip && (
-              <View style={[styles.vipDiscount, { backgroundColor: isDark ? 'rgba(245, 158, 11, 0.2)' : '#FFF8E1' }]}>
-                <Text style={[styles.vipDiscountText, { color: isDark ? colors.warning : '#F57C00' }]}>👑 VIP 10% Discount Applied</Text>
+            {(startOption !== 'after_hold' || campaignDays !== null || dailyViewCap !== null) && (
+              <View style={styles.costRow}>
+                <Text style={[styles.costLabel, { color: colors.textSecondary }]}>{t('promote.summarySchedule')}</Text>
+                <Text style={[styles.costValue, { color: colors.text }]}>
+                  {[
+                    selectedStartLabel,
+                    campaignDays !== null ? `${campaignDays} days` : null,
+                    dailyViewCap !== null ? `${dailyViewCap}/day` : null,
+                  ].filter(Boolean).join(' · ')}
+                </Text>
               </View>
             )}
-            {!profile?.is_vip && (
-              <TouchableOpacity
-                style={[styles.vipUpgrade, { backgroundColor: isDark ? 'rgba(245, 158, 11, 0.2)' : '#FFF8E1' }]}
-                onPress={() => router.push('/become-vip')}><Crown size={16} color="#FFD700" /><Text style={[styles.vipUpgradeText, { color: isDark ? colors.warning : '#F57C00' }]}>Upgrade to VIP and save 🪙{Math.ceil((targetViews * videoDuration) / 50 * 8 * 0.1)} on this promotion</Text></TouchableOpacity>
+            {displayedQuote ? (
+              <>
+                {(displayedQuote.discounts.length > 0 || displayedQuote.targeting_multiplier !== 1) && (
+                  <View style={styles.costRow}>
+                    <Text style={[styles.costLabel, { color: colors.textSecondary }]}>{t('promote.summaryBaseCost')}</Text>
+                    <Text style={[styles.costValue, { color: colors.text }]}>🪙{displayedQuote.base_cost}</Text>
+                  </View>
+                )}
+                {displayedQuote.targeting_multiplier !== 1 && (
+                  <View style={styles.costRow}>
+                    <Text style={[styles.costLabel, { color: colors.textSecondary }]}>{t('promote.summaryTargeting')}</Text>
+                    <Text style={[styles.costValue, { color: colors.text }]}>×{displayedQuote.targeting_multiplier}</Text>
+                  </View>
+                )}
+                {displayedQuote.discounts.map(discount => (
+                  <View key={discount.kind} style={styles.costRow}>
+                    <Text style={[styles.costLabel, { color: colors.textSecondary }]}>{discount.label} ({discount.percentage}%):</Text>
+                    <Text style={[styles.vipDiscountValue, { color: colors.success }]}>-🪙{discount.amount}</Text>
+                  </View>
+                ))}
+                <View style={styles.costRow}>
+                  <Text style={[styles.costLabel, { color: colors.textSecondary }]}>{t('promote.summaryViewerReward')}</Text>
+                  <Text style={[styles.costValue, { color: colors.text }]}>🪙{displayedQuote.reward_per_view} / {campaignInfo.unit}</Text>
+                </View>
+                <View style={styles.costRow}>
+                  <Text style={[styles.costLabel, { color: colors.textSecondary }]}>{t('promote.summaryFinalCost')}</Text>
+                  <Text style={[styles.costValue, { color: colors.text }]}>🪙{displayedQuote.final_cost}</Text>
+                </View>
+                {displayedQuote.discounts.filter(discount => discount.kind === 'vip').map(discount => (
+                  <View key={discount.kind} style={[styles.vipDiscount, { backgroundColor: isDark ? 'rgba(245, 158, 11, 0.2)' : '#FFF8E1' }]}>
+                    <Text style={[styles.vipDiscountText, { color: isDark ? colors.warning : '#F57C00' }]}>👑 VIP {discount.percentage}% Discount Applied</Text>
+                  </View>
+                ))}
+                {displayedQuote.upgrade_savings > 0 && (
+                  <TouchableOpacity
+                    style={[styles.vipUpgrade, { backgroundColor: isDark ? 'rgba(245, 158, 11, 0.2)' : '#FFF8E1' }]}
+                    onPress={() => router.push('/become-vip')}><Crown size={16} color="#FFD700" /><Text style={[styles.vipUpgradeText, { color: isDark ? colors.warning : '#F57C00' }]}>Upgrade to VIP and save 🪙{displayedQuote.upgrade_savings} on this promotion</Text></TouchableOpacity>
+                )}
+              </>
+            ) : quoteError && !quoteLoading ? (
+              <TouchableOpacity style={styles.costRow} onPress={fetchQuote}>
+                <Text style={[styles.costLabel, { color: colors.error }]}>{quoteError}</Text>
+                <Text style={[styles.costValue, { color: colors.primary }]}>{t('common.retry')}</Text>
+              </TouchableOpacity>
+            ) : (
+              <ActivityIndicator size="small" color={colors.primary} />
             )}
           </View>
 
@@ -343,10 +699,10 @@ export default function PromoteTab() {
             )}<Text style={styles.promoteButtonText}>{loading ? 'Promoting...' : 'Promote Video'}</Text></TouchableOpacity>
 
           <View style={[styles.infoSection, { backgroundColor: colors.surface }]}>
-            <Text style={[styles.infoTitle, { color: colors.text }]}>How it works</Text>
+            <Text style={[styles.infoTitle, { color: colors.text }]}>{t('promote.howItWorks')}</Text>
             <Text style={[styles.infoText, { color: colors.textSecondary }]}>
               1. Enter your YouTube video URL{'\n'}
-              2. Set your target views and duration{'\n'}
+              2. Pick views, subscribers or likes and set your target{'\n'}
               3. Pay with coins to promote your video (reward varies by duration){'\n'}
               4. Your video enters a 10-minute hold period{'\n'}
               5. After hold, your video goes live in the queue{'\n'}
@@ -400,7 +756,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 12,
     borderRadius: 8,
-    marginRight: 12,
+    marginEnd: 12,
     borderWidth: 2,
     gap: 6,
   },
@@ -408,6 +764,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  optionHint: {
+    fontSize: 13,
+    marginTop: 8,
+  },
   costSection: {
     borderRadius: 16,
     padding: 20,
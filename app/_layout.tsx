@@ -6,6 +6,7 @@ import { AuthProvider } from '../contexts/AuthContext';
 import { ThemeProvider, useTheme } from '../contexts/ThemeContext';
 import { ConfigProvider } from '../contexts/ConfigContext';
 import { AlertProvider } from '../contexts/AlertContext';
+import { LanguageProvider } from '../contexts/LanguageContext';
 import ConfigLoader from '../components/ConfigLoader';
 
 function RootStack() {
@@ -39,6 +40,7 @@ function RootStack() {
         <Stack.Screen name="edit-video" />
         <Stack.Screen name="ticket-detail" />
         <Stack.Screen name="faq" />
+        <Stack.Screen name="engage" />
       </Stack>
       <StatusBar style={isDark ? "light" : "dark"} />
     </View>
@@ -51,13 +53,15 @@ export default function RootLayout() {
   return (
     <ConfigProvider>
       <ThemeProvider>
-        <AlertProvider>
-          <AuthProvider>
-            <ConfigLoader>
-              <RootStack />
-            </ConfigLoader>
-          </AuthProvider>
-        </AlertProvider>
+        <LanguageProvider>
+          <AlertProvider>
+            <AuthProvider>
+              <ConfigLoader>
+                <RootStack />
+              </ConfigLoader>
+            </AuthProvider>
+          </AlertProvider>
+        </LanguageProvider>
       </ThemeProvider>
     </ConfigProvider>
   );
@@ -14,10 +14,11 @@ import {
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useConfig } from '../contexts/ConfigContext';
+import { useFormatting } from '../hooks/useFormatting';
 import { useFeatureFlag } from '../hooks/useFeatureFlags';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
-import { ArrowLeft, Crown, Check, Zap, Shield, Headphones, Star, Clock, Sparkles, Gift, Timer } from 'lucide-react-native';
+import { ArrowLeft, Crown, Check, Zap, Shield, Headphones, Star, Clock, Sparkles, Gift, Timer, Megaphone } from 'lucide-react-native';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -30,6 +31,13 @@ import Animated, {
   Easing as ReanimatedEasing,
 } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
+import PurchaseService, { VIP_SUBSCRIPTIONS } from '@/services/PurchaseService';
+import type { PurchaseOutcome } from '@/services/PurchaseService';
+import { formatVipTimeRemaining } from '@/utils/vipStatus';
+import { getStorePrice } from '@/utils/formatting';
+import type { StorePrice } from '@/utils/formatting';
+import { getTierPerks } from '@/utils/entitlements';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 const isSmallScreen = screenWidth < 380;
@@ -39,16 +47,21 @@ const isTablet = screenWidth >= 768;
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 const AnimatedLinearGradient = Animated.createAnimatedComponent(LinearGradient);
 
+const vipProductId = (planId: string) =>
+  VIP_SUBSCRIPTIONS.find(subscription => subscription.id === planId)?.productId ?? '';
+
 export default function BecomeVIPScreen() {
-  const { profile, refreshProfile } = useAuth();
+  const { user, vipStatus, refreshProfile } = useAuth();
   const { colors, isDark } = useTheme();
   const { config } = useConfig();
+  const { formatPrice, formatDate } = useFormatting();
   const vipEnabled = useFeatureFlag('vipEnabled');
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState('monthly');
-  const [vipExpiry, setVipExpiry] = useState<Date | null>(null);
   const [timeRemaining, setTimeRemaining] = useState<string>('');
+  const [iapAvailable, setIapAvailable] = useState(false);
+  const [storePrices, setStorePrices] = useState<Record<string, StorePrice>>({});
 
   // Animation values
   const crownRotation = useSharedValue(0);
@@ -61,6 +74,17 @@ export default function BecomeVIPScreen() {
   const monthlyCardAnimation = useRef(new RNAnimated.Value(0)).current;
   const weeklyCardAnimation = useRef(new RNAnimated.Value(0)).current;
 
+  // Benefits come from the VIP tier's perks, so the list always matches what VIP unlocks
+  const vipPerks = getTierPerks('vip', config?.entitlements);
+  const freePerks = getTierPerks('free', config?.entitlements);
+  const vipBenefits = [
+    vipPerks.adFree && { icon: Shield, title: 'Ad-Free Experience', color: '#2ECC71' },
+    vipPerks.promotionDiscountPct > 0 && { icon: Zap, title: `${vipPerks.promotionDiscountPct}% Promotion Discount`, color: '#FFD700' },
+    vipPerks.badge && { icon: Crown, title: 'VIP Badge', color: '#9D4EDD' },
+    vipPerks.maxActiveCampaigns > freePerks.maxActiveCampaigns && { icon: Megaphone, title: `Up to ${vipPerks.maxActiveCampaigns} Active Promotions`, color: '#E74C3C' },
+    vipPerks.prioritySupport && { icon: Headphones, title: 'Priority Support', color: '#3498DB' },
+  ].filter(Boolean) as { icon: typeof Shield; title: string; color: string }[];
+
   const vipPlans = [
     {
       id: 'weekly',
@@ -72,12 +96,8 @@ export default function BecomeVIPScreen() {
       bestValue: false,
       limitedOffer: true,
       offerText: '33% OFF',
-      productId: 'com.vidgro.vip.weekly',
-      benefits: [
-        { icon: Shield, title: 'Ad-Free Experience', color: '#2ECC71' },
-        { icon: Zap, title: '10% Promotion Discount', color: '#FFD700' },
-        { icon: Crown, title: 'VIP Badge', color: '#9D4EDD' },
-      ]
+      productId: vipProductId('weekly'),
+      benefits: vipBenefits,
     },
     {
       id: 'monthly',
@@ -89,34 +109,68 @@ export default function BecomeVIPScreen() {
       bestValue: true,
       limitedOffer: false,
       offerText: '25% OFF',
-      productId: 'com.vidgro.vip.monthly',
-      benefits: [
-        { icon: Shield, title: 'Ad-Free Experience', color: '#2ECC71' },
-        { icon: Zap, title: '10% Promotion Discount', color: '#FFD700' },
-        { icon: Crown, title: 'VIP Badge', color: '#9D4EDD' },
-        { icon: Headphones, title: 'Priority Support', color: '#3498DB' },
-      ]
+      productId: vipProductId('monthly'),
+      benefits: vipBenefits,
     },
   ];
 
+  // Store prices are in the buyer's own currency; list prices are the fallback
+  const planPrice = (plan: typeof vipPlans[number], amount: number) =>
+    formatPrice(amount, plan.price, storePrices[plan.productId]);
+
   useEffect(() => {
     // Initialize animations
     startAnimations();
-    
-    // Check VIP status and expiry
-    if (profile?.is_vip && profile?.vip_expires_at) {
-      const expiryDate = new Date(profile.vip_expires_at);
-      setVipExpiry(expiryDate);
-      updateTimeRemaining(expiryDate);
-      
-      // Update timer every second
-      const interval = setInterval(() => {
-        updateTimeRemaining(expiryDate);
-      }, 1000);
-      
-      return () => clearInterval(interval);
+
+    initializeIAP();
+
+    const unsubscribe = PurchaseService.getInstance().onOutcome(handlePurchaseOutcome);
+
+    // The store connection stays open for the app-wide listener in AuthContext
+    return unsubscribe;
+  }, []);
+
+  // Count down to expiry, or to the end of the grace period once expired
+  const vipDeadline = vipStatus.state === 'grace' ? vipStatus.graceEndsAt : vipStatus.expiresAt;
+  const vipDeadlineTime = vipDeadline?.getTime();
+  const isVip = vipStatus.isVip;
+
+  useEffect(() => {
+    if (!isVip || !vipDeadlineTime) return;
+    const deadline = new Date(vipDeadlineTime);
+
+    setTimeRemaining(formatVipTimeRemaining(deadline));
+
+    // Update timer every second
+    const interval = setInterval(() => {
+      setTimeRemaining(formatVipTimeRemaining(deadline));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isVip, vipDeadlineTime]);
+
+  const initializeIAP = async () => {
+    if (!user) return;
+
+    const availableProducts = await PurchaseService.getInstance().initialize(user.id, {
+      subscriptions: vipPlans.map(plan => ({ id: plan.id, productId: plan.productId })),
+    });
+    if (!availableProducts) {
+      setIapAvailable(false);
+      return;
     }
-  }, [profile]);
+
+    setIapAvailable(true);
+    console.log('Available VIP plans:', availableProducts);
+
+    const prices: Record<string, StorePrice> = {};
+    availableProducts.forEach(product => {
+      const storePrice = getStorePrice(product);
+      if (storePrice) prices[product.productId] = storePrice;
+    });
+    setStorePrices(prices);
+    // Renewals delivered while the app was closed are applied app-wide by AuthContext
+  };
 
   const startAnimations = () => {
     // Crown rotation
@@ -171,29 +225,6 @@ export default function BecomeVIPScreen() {
     }).start();
   };
 
-  const updateTimeRemaining = (expiryDate: Date) => {
-    const now = new Date();
-    const diff = expiryDate.getTime() - now.getTime();
-    
-    if (diff <= 0) {
-      setTimeRemaining('Expired');
-      return;
-    }
-    
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-    const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-    const seconds = Math.floor((diff % (1000 * 60)) / 1000);
-    
-    if (days > 0) {
-      setTimeRemaining(`${days}d ${hours}h ${minutes}m`);
-    } else if (hours > 0) {
-      setTimeRemaining(`${hours}h ${minutes}m ${seconds}s`);
-    } else {
-      setTimeRemaining(`${minutes}m ${seconds}s`);
-    }
-  };
-
   const handleSubscribe = async (plan: any) => {
     // Check if VIP feature is enabled
     if (!vipEnabled) {
@@ -212,59 +243,36 @@ export default function BecomeVIPScreen() {
       withSpring(1, { damping: 15, stiffness: 400 })
     );
 
-    setLoading(true);
-    
     Alert.alert(
       '👑 Upgrade to VIP Premium',
-      `🎯 Plan: ${plan.duration}\n💰 Price: ₹${plan.price}\n💎 Save: ₹${plan.savings}\n\n✨ Unlock all premium benefits instantly!`,
+      `🎯 Plan: ${plan.duration}\n💰 Price: ${planPrice(plan, plan.price)}\n💎 Save: ${planPrice(plan, plan.savings)}\n\n✨ Unlock all premium benefits instantly!`,
       [
         { text: 'Cancel', style: 'cancel' },
         { 
           text: '🚀 Subscribe Now', 
           onPress: async () => {
+            // VIP can only be bought through the App Store or Google Play
+            if (!iapAvailable) {
+              Alert.alert(
+                'Purchases Unavailable',
+                'VIP subscriptions can be bought in the VidGro app for iOS and Android.'
+              );
+              return;
+            }
+
+            setSelectedPlan(plan.id);
+            setLoading(true);
             try {
-              // Check if running on native platform for IAP
-              if (Platform.OS === 'ios' || Platform.OS === 'android') {
-                // Try to use in-app purchases
-                try {
-                  const InAppPurchases = await import('react-native-iap');
-                  
-                  // Initialize connection
-                  await InAppPurchases.initConnection();
-                  
-                  // Request purchase
-                  const purchase = await InAppPurchases.requestPurchase({
-                    sku: plan.productId,
-                    andDangerouslyFinishTransactionAutomaticallyIOS: false,
-                  });
-
-                  if (purchase) {
-                    // Finish transaction
-                    await InAppPurchases.finishTransaction({ purchase, isConsumable: false });
-                    
-                    // Update VIP status in database
-                    await activateVIP(plan);
-                    
-                    if (Platform.OS !== 'web') {
-                      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-                    }
-                  }
-                } catch (iapError: any) {
-                  console.log('IAP not available, using web fallback:', iapError);
-                  if (iapError.code !== 'E_USER_CANCELLED') {
-                    // Fallback to web payment simulation
-                    await simulateWebPayment(plan);
-                  }
-                }
+              // The result arrives in handlePurchaseOutcome once the server has verified the receipt
+              await PurchaseService.getInstance().purchase(plan.productId);
+            } catch (error: any) {
+              console.error('Purchase error:', error);
+              // Store errors also reach purchaseErrorListener, which reports them
+              if (!error?.code) {
+                handlePurchaseOutcome({ status: 'failed', message: error?.message });
               } else {
-                // Web platform - simulate payment
-                await simulateWebPayment(plan);
+                setLoading(false);
               }
-            } catch (error) {
-              console.error('Purchase error:', error);
-              Alert.alert('Purchase Failed', 'Unable to complete purchase. Please try again.');
-            } finally {
-              setLoading(false);
             }
           }
         }
@@ -272,64 +280,47 @@ export default function BecomeVIPScreen() {
     );
   };
 
-  const simulateWebPayment = async (plan: any) => {
-    // Simulate payment processing
-    setTimeout(async () => {
-      await activateVIP(plan);
-      
-      if (Platform.OS !== 'web') {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      }
-    }, 2000);
-  };
+  const handlePurchaseOutcome = (outcome: PurchaseOutcome) => {
+    setLoading(false);
 
-  const activateVIP = async (plan: any) => {
-    // Calculate expiry date
-    const expiryDate = new Date();
-    if (plan.id === 'weekly') {
-      expiryDate.setDate(expiryDate.getDate() + 7);
-    } else {
-      expiryDate.setMonth(expiryDate.getMonth() + 1);
-    }
+    const expiryText = outcome.vipExpiresAt
+      ? `\n\n🎯 Your VIP status is active until ${formatDate(outcome.vipExpiresAt)}`
+      : '';
 
-    // Record VIP purchase transaction
-    try {
-      const { getSupabase } = await import('@/lib/supabase');
-      const supabase = getSupabase();
-      
-      if (user?.id) {
-        const { error: transactionError } = await supabase
-          .from('transactions')
-          .insert({
-            user_id: user.id,
-            transaction_type: 'coin_purchase',
-            amount: -plan.price, // Negative because it's a purchase cost
-            description: `VIP ${plan.duration} subscription purchase`,
-            created_at: new Date().toISOString()
-          });
-        
-        if (transactionError) {
-          console.error('Failed to record VIP transaction:', transactionError);
+    switch (outcome.status) {
+      case 'activated':
+      case 'renewed':
+      case 'already_applied':
+        if (Platform.OS !== 'web') {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         }
-      }
-    } catch (error) {
-      console.error('Error recording VIP transaction:', error);
+        Alert.alert(
+          outcome.status === 'renewed' ? '🔄 VIP Extended!' : '🎉 Welcome to VIP Premium!',
+          `👑 You are now a VIP member!\n\n✨ All premium benefits are now active:\n${vipBenefits.map(benefit => `• ${benefit.title}`).join('\n')}${expiryText}`,
+          [{ 
+            text: '🚀 Start Enjoying VIP', 
+            onPress: () => {
+              refreshProfile();
+              router.back();
+            }
+          }]
+        );
+        break;
+      case 'pending':
+        Alert.alert('Payment Pending', 'Your payment is being processed. VIP will be activated as soon as it clears.');
+        break;
+      case 'refunded':
+        Alert.alert('Subscription Refunded', 'This subscription was refunded by the store, so VIP was not activated.');
+        break;
+      case 'invalid':
+        Alert.alert('Purchase Not Verified', outcome.message || 'We could not verify this subscription with the store. VIP was not activated.');
+        break;
+      case 'failed':
+        Alert.alert('Purchase Failed', 'Unable to complete purchase. Please try again.');
+        break;
+      case 'cancelled':
+        break;
     }
-
-    // In a real app, you would update the database here
-    // For now, we'll simulate the VIP activation
-    
-    Alert.alert(
-      '🎉 Welcome to VIP Premium!',
-      `👑 You are now a VIP member for ${plan.duration}!\n\n✨ All premium benefits are now active:\n• Ad-free experience\n• 10% discount on promotions\n• VIP badge\n• Priority support\n\n🎯 Your VIP status expires on ${expiryDate.toLocaleDateString()}`,
-      [{ 
-        text: '🚀 Start Enjoying VIP', 
-        onPress: () => {
-          refreshProfile();
-          router.back();
-        }
-      }]
-    );
   };
 
   // Animated styles
@@ -361,13 +352,13 @@ export default function BecomeVIPScreen() {
   }));
 
   // If user is already VIP, show VIP status screen with timer
-  if (profile?.is_vip) {
+  if (vipStatus.isVip) {
     return (
       <View style={[styles.container, { backgroundColor: colors.background }]}>
         <View style={[styles.header, { backgroundColor: isDark ? colors.headerBackground : '#800080' }]}>
           <View style={styles.headerContent}>
             <TouchableOpacity onPress={() => router.back()}>
-              <ArrowLeft size={24} color="white" />
+              <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
             </TouchableOpacity>
             <Text style={[styles.headerTitle, { color: 'white' }]}>VIP Status</Text>
             <Animated.View style={crownAnimatedStyle}>
@@ -391,12 +382,24 @@ export default function BecomeVIPScreen() {
               Enjoying all premium benefits
             </Text>
 
+            {/* Grace period: renewal failed but perks stay on until it ends */}
+            {vipStatus.state === 'grace' && (
+              <View style={[styles.graceBanner, { backgroundColor: colors.error + '20' }]}>
+                <Text style={[styles.graceTitle, { color: colors.error }]}>⚠️ Renewal Failed</Text>
+                <Text style={[styles.graceText, { color: colors.textSecondary }]}>
+                  We couldn&apos;t renew your subscription. Update your payment method or choose a plan below before the grace period ends to keep VIP.
+                </Text>
+              </View>
+            )}
+
             {/* Expiry Timer */}
-            {vipExpiry && (
+            {vipDeadline && (
               <View style={[styles.expiryContainer, { backgroundColor: isDark ? 'rgba(245, 158, 11, 0.2)' : 'rgba(245, 158, 11, 0.2)' }]}>
                 <Timer size={isSmallScreen ? 18 : 20} color={colors.warning} />
                 <View style={styles.expiryInfo}>
-                  <Text style={[styles.expiryLabel, { color: colors.warning }]}>VIP Expires In</Text>
+                  <Text style={[styles.expiryLabel, { color: colors.warning }]}>
+                    {vipStatus.state === 'grace' ? 'Grace Period Ends In' : vipStatus.autoRenew ? 'VIP Renews In' : 'VIP Expires In'}
+                  </Text>
                   <Text style={[styles.expiryTime, { color: colors.warning }]}>{timeRemaining}</Text>
                 </View>
               </View>
@@ -418,7 +421,7 @@ export default function BecomeVIPScreen() {
                   onPress={() => handleSubscribe(plan)}
                 >
                   <Text style={[styles.renewalPlanDuration, { color: colors.text }]}>+{plan.duration}</Text>
-                  <Text style={[styles.renewalPlanPrice, { color: colors.primary }]}>₹{plan.price}</Text>
+                  <Text style={[styles.renewalPlanPrice, { color: colors.primary }]}>{planPrice(plan, plan.price)}</Text>
                 </TouchableOpacity>
               ))}
             </View>
@@ -433,7 +436,7 @@ export default function BecomeVIPScreen() {
       <View style={[styles.header, { backgroundColor: isDark ? colors.headerBackground : '#800080' }]}>
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()}>
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
           <Text style={[styles.headerTitle, { color: 'white' }]}>Become VIP</Text>
           <Animated.View style={crownAnimatedStyle}>
@@ -515,17 +518,16 @@ export default function BecomeVIPScreen() {
                     
                     <View style={styles.planPricing}>
                       <View style={styles.priceRow}>
-                        <Text style={[styles.currency, { color: colors.textSecondary }]}>₹</Text>
-                        <Text style={[styles.planPrice, { color: colors.text }]}>{plan.price}</Text>
+                        <Text style={[styles.planPrice, { color: colors.text }]}>{planPrice(plan, plan.price)}</Text>
                       </View>
                       
                       {plan.originalPrice && (
                         <View style={styles.savingsRow}>
                           <Text style={[styles.originalPrice, { color: colors.textSecondary }]}>
-                            ₹{plan.originalPrice}
+                            {planPrice(plan, plan.originalPrice)}
                           </Text>
                           <Text style={[styles.savings, { color: colors.success }]}>
-                            Save ₹{plan.savings}
+                            Save {planPrice(plan, plan.savings)}
                           </Text>
                         </View>
                       )}
@@ -779,10 +781,6 @@ const styles = StyleSheet.create({
     alignItems: 'baseline',
     marginBottom: 4,
   },
-  currency: {
-    fontSize: isSmallScreen ? 12 : 14,
-    marginRight: 2,
-  },
   planPrice: {
     fontSize: isVerySmallScreen ? 22 : isSmallScreen ? 24 : 28,
     fontWeight: 'bold',
@@ -992,6 +990,25 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
   },
 
+  // Grace Period
+  graceBanner: {
+    borderRadius: 16,
+    padding: isSmallScreen ? 12 : 16,
+    marginBottom: 8,
+    width: '100%',
+  },
+  graceTitle: {
+    fontSize: isSmallScreen ? 14 : 16,
+    fontWeight: 'bold',
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  graceText: {
+    fontSize: isSmallScreen ? 12 : 13,
+    lineHeight: 18,
+    textAlign: 'center',
+  },
+
   // Renewal Section
   renewalSection: {
     borderRadius: isSmallScreen ? 16 : 20,
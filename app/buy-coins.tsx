@@ -14,11 +14,15 @@ import {
 } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useFormatting } from '@/hooks/useFormatting';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { ArrowLeft, Coins, Crown, Star, CheckCircle, Zap, Users, Shield, Clock, Sparkles } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
-import { getSupabase } from '../lib/supabase';
+import PurchaseService, { COIN_PACKAGES } from '@/services/PurchaseService';
+import type { PurchasablePackage, PurchaseOutcome } from '@/services/PurchaseService';
+import { getStorePrice } from '@/utils/formatting';
+import type { StorePrice } from '@/utils/formatting';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -29,6 +33,7 @@ import Animated, {
   interpolate,
   Easing as ReanimatedEasing
 } from 'react-native-reanimated';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 const isSmallScreen = screenWidth < 380;
@@ -38,15 +43,12 @@ const isTablet = screenWidth >= 768;
 
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
-interface CoinPackage {
-  id: string;
-  coins: number;
+// Store product, coins and bonus come from COIN_PACKAGES; the rest is presentation
+interface CoinPackage extends PurchasablePackage {
   price: number;
   originalPrice?: number;
-  bonus: number;
   popular: boolean;
   badge?: string;
-  productId: string;
   savings: number;
   valueProps: string[];
   socialProof: string;
@@ -54,15 +56,18 @@ interface CoinPackage {
   limitedTime: boolean;
 }
 
+const coinPackage = (id: string): PurchasablePackage => COIN_PACKAGES.find(pkg => pkg.id === id)!;
 
 export default function BuyCoinsScreen() {
   const { user, profile, refreshProfile } = useAuth();
   const { colors, isDark } = useTheme();
+  const { formatCoins, formatPrice } = useFormatting();
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [selectedPackage, setSelectedPackage] = useState<string | null>(null);
   const [iapAvailable, setIapAvailable] = useState(false);
   const [products, setProducts] = useState<any[]>([]);
+  const [restoring, setRestoring] = useState(false);
   
   // Animation values
   const shimmerAnimation = useSharedValue(0);
@@ -78,13 +83,10 @@ export default function BuyCoinsScreen() {
 
   const coinPackages: CoinPackage[] = [
     {
-      id: 'starter',
-      coins: 1000,
+      ...coinPackage('starter'),
       price: 29,
       originalPrice: 39,
-      bonus: 100,
       popular: false,
-      productId: 'com.vidgro.coins.starter',
       badge: undefined,
       savings: 10,
       valueProps: ['Instant delivery', 'No ads'],
@@ -93,14 +95,11 @@ export default function BuyCoinsScreen() {
       limitedTime: false
     },
     {
-      id: 'creator',
-      coins: 2500,
+      ...coinPackage('creator'),
       price: 69,
       originalPrice: 89,
-      bonus: 500,
       popular: true,
       badge: 'POPULAR',
-      productId: 'com.vidgro.coins.creator',
       savings: 20,
       valueProps: ['Priority support', 'Bonus features'],
       socialProof: '5K+ creators love this',
@@ -108,14 +107,11 @@ export default function BuyCoinsScreen() {
       limitedTime: false
     },
     {
-      id: 'pro',
-      coins: 5000,
+      ...coinPackage('pro'),
       price: 129,
       originalPrice: 179,
-      bonus: 1500,
       popular: false,
       badge: 'BEST VALUE',
-      productId: 'com.vidgro.coins.pro',
       savings: 50,
       valueProps: ['VIP status', 'Exclusive content'],
       socialProof: 'Best value for pros',
@@ -123,14 +119,11 @@ export default function BuyCoinsScreen() {
       limitedTime: false
     },
     {
-      id: 'premium',
-      coins: 10000,
+      ...coinPackage('premium'),
       price: 249,
       originalPrice: 349,
-      bonus: 5000,
       popular: true,
       badge: 'PREMIUM',
-      productId: 'com.vidgro.coins.premium',
       savings: 100,
       valueProps: ['Lifetime perks', 'Premium badge'],
       socialProof: 'Top creators choice',
@@ -183,88 +176,120 @@ export default function BuyCoinsScreen() {
       false
     );
 
-    return () => {
-      // Only end connection if IAP was available
-      if (iapAvailable && (Platform.OS === 'ios' || Platform.OS === 'android')) {
-        import('react-native-iap').then(InAppPurchases => {
-          InAppPurchases.endConnection();
-        }).catch(() => {
-          // Ignore cleanup errors
-        });
-      }
-    };
+    const unsubscribe = PurchaseService.getInstance().onOutcome(handlePurchaseOutcome);
+
+    // The store connection stays open for the app-wide listener in AuthContext
+    return unsubscribe;
   }, []);
 
   const initializeIAP = async () => {
-    try {
-      // Only initialize IAP on iOS and Android platforms
-      if (Platform.OS !== 'ios' && Platform.OS !== 'android') {
-        console.log('IAP not available on web platform - using web fallback');
-        setIapAvailable(false);
-        return;
-      }
+    if (!user) return;
 
-      // Dynamically import IAP only on supported platforms
-      const InAppPurchases = await import('react-native-iap');
-      
-      const result = await InAppPurchases.initConnection();
-      console.log('IAP connection result:', result);
-      setIapAvailable(true);
+    const availableProducts = await PurchaseService.getInstance().initialize(user.id, { packages: coinPackages });
+    if (!availableProducts) {
+      setIapAvailable(false);
+      return;
+    }
 
-      if (Platform.OS === 'android') {
-        await InAppPurchases.flushFailedPurchasesCachedAsPendingAndroid();
-      }
+    setIapAvailable(true);
+    setProducts(availableProducts);
+    console.log('Available products:', availableProducts);
 
-      // Get available products
-      const productIds = coinPackages.map(pkg => pkg.productId);
-      const availableProducts = await InAppPurchases.getProducts({ skus: productIds });
-      setProducts(availableProducts);
-      console.log('Available products:', availableProducts);
-    } catch (error) {
-      console.log('IAP not available - using web fallback:', error);
-      setIapAvailable(false);
+    // Pick up purchases that were paid for but never verified (app killed, offline)
+    const outcomes = await PurchaseService.getInstance().restore();
+    if (outcomes.some(outcome => outcome.status === 'credited')) {
+      refreshProfile();
     }
   };
 
-  const recordPurchaseTransaction = async (packageItem: CoinPackage, transactionId: string) => {
-    if (!user) return;
+  const handlePurchaseOutcome = (outcome: PurchaseOutcome) => {
+    setLoading(false);
+    setSelectedPackage(null);
 
+    switch (outcome.status) {
+      case 'credited':
+      case 'already_credited':
+        if (Platform.OS !== 'web') {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        }
+        Alert.alert(
+          '🎉 Purchase Successful!',
+          `🪙 ${formatCoins(outcome.coins)} coins added to your account!\n\n🎯 You're now ready to promote your videos and reach viral status!\n\n💎 Thank you for choosing VidGro Premium!`,
+          [{ text: '🚀 Start Promoting', onPress: () => {
+            refreshProfile();
+            router.replace('/(tabs)/promote');
+          }}]
+        );
+        break;
+      case 'pending':
+        Alert.alert('Payment Pending', 'Your payment is being processed. Coins will be added as soon as it clears.');
+        break;
+      case 'queued':
+        Alert.alert('Purchase Received', `We couldn't reach our servers to confirm your purchase. ${formatCoins(outcome.coins)} coins will be added automatically once you're back online.`);
+        break;
+      case 'refunded':
+        Alert.alert('Purchase Refunded', 'This purchase was refunded by the store, so no coins were added.');
+        break;
+      case 'invalid':
+        Alert.alert('Purchase Not Verified', outcome.message || 'We could not verify this purchase with the store. No coins were added.');
+        break;
+      case 'failed':
+        Alert.alert('Purchase Failed', 'Unable to complete purchase. Please try again.');
+        break;
+      case 'cancelled':
+        break;
+    }
+  };
+
+  const handleRestorePurchases = async () => {
+    if (!iapAvailable || restoring) return;
+
+    setRestoring(true);
     try {
-      const supabase = getSupabase();
-      const { error } = await supabase
-        .from('transactions')
-        .insert({
-          user_id: user.id,
-          amount: packageItem.coins + packageItem.bonus,
-          transaction_type: 'coin_purchase',
-          description: `Purchased ${packageItem.coins.toLocaleString()} + ${packageItem.bonus.toLocaleString()} bonus coins`,
-          metadata: {
-            package_id: packageItem.id,
-            original_coins: packageItem.coins,
-            bonus_coins: packageItem.bonus,
-            price_paid: packageItem.price,
-            platform: Platform.OS,
-            reference_id: transactionId
-          }
-        });
+      const outcomes = await PurchaseService.getInstance().restore();
+      const withStatus = (...statuses: PurchaseOutcome['status'][]) =>
+        outcomes.filter(outcome => statuses.includes(outcome.status));
+      const purchasesLabel = (count: number) => `${count} ${count === 1 ? 'purchase' : 'purchases'}`;
 
-      if (error) {
-        console.error('Error recording transaction:', error);
+      const credited = withStatus('credited');
+      const alreadyCredited = withStatus('already_credited');
+      const pending = withStatus('pending');
+      const queued = withStatus('queued');
+      const rejected = withStatus('refunded', 'invalid', 'failed');
+
+      // One line per outcome, since a restore can turn up several at once
+      const lines: string[] = [];
+      if (credited.length > 0) {
+        const coins = credited.reduce((sum, outcome) => sum + (outcome.coins || 0), 0);
+        lines.push(`🪙 ${formatCoins(coins)} coins added to your account.`);
+      }
+      if (alreadyCredited.length > 0) {
+        lines.push(`${purchasesLabel(alreadyCredited.length)} had already been credited.`);
+      }
+      if (pending.length > 0) {
+        lines.push(`${purchasesLabel(pending.length)} still waiting for payment. Coins will be added as soon as it clears.`);
+      }
+      if (queued.length > 0) {
+        lines.push(`${purchasesLabel(queued.length)} couldn't be confirmed right now and will be added automatically once you're back online.`);
+      }
+      if (rejected.length > 0) {
+        lines.push(`${purchasesLabel(rejected.length)} could not be verified with the store. No coins were added for them.`);
       }
 
-      // Update user's coin balance
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ 
-          coins: (profile?.coins || 0) + packageItem.coins + packageItem.bonus 
-        })
-        .eq('id', user.id);
+      if (credited.length > 0) {
+        await refreshProfile();
+      }
 
-      if (updateError) {
-        console.error('Error updating coin balance:', updateError);
+      if (lines.length === 0) {
+        Alert.alert('Nothing to Restore', 'No unfinished purchases were found.');
+      } else {
+        Alert.alert(credited.length > 0 ? 'Purchases Restored' : 'Restore Results', lines.join('\n\n'));
       }
     } catch (error) {
-      console.error('Error in recordPurchaseTransaction:', error);
+      console.error('Restore purchases error:', error);
+      Alert.alert('Restore Failed', 'Unable to restore purchases. Please try again.');
+    } finally {
+      setRestoring(false);
     }
   };
 
@@ -283,89 +308,29 @@ export default function BuyCoinsScreen() {
     setSelectedPackage(packageItem.id);
     setLoading(true);
 
+    // Coins can only be bought through the App Store or Google Play
+    if (!iapAvailable) {
+      Alert.alert(
+        'Purchases Unavailable',
+        'Coin packages can be bought in the VidGro app for iOS and Android.'
+      );
+      setLoading(false);
+      setSelectedPackage(null);
+      return;
+    }
+
     try {
-      if (!iapAvailable) {
-        // Web fallback - simulate purchase
-        Alert.alert(
-          '💎 Confirm Premium Purchase',
-          `🪙 ${packageItem.coins.toLocaleString()} + ${packageItem.bonus.toLocaleString()} bonus coins\n💰 Total: ${(packageItem.coins + packageItem.bonus).toLocaleString()} coins\n💳 Price: ₹${packageItem.price}\n\n✨ ${packageItem.socialProof}`,
-          [
-            { text: 'Cancel', style: 'cancel', onPress: () => {
-              setSelectedPackage(null);
-              setLoading(false);
-            }},
-            { 
-              text: '🚀 Purchase Now', 
-              onPress: async () => {
-                // Simulate purchase process
-                setTimeout(async () => {
-                  await recordPurchaseTransaction(packageItem, `web_${Date.now()}`);
-                  
-                  if (Platform.OS !== 'web') {
-                    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-                  }
-                  
-                  Alert.alert(
-                    '🎉 Purchase Successful!',
-                    `🪙 ${(packageItem.coins + packageItem.bonus).toLocaleString()} coins added to your account!\n\n🎯 You're now ready to promote your videos and reach viral status!\n\n💎 Thank you for choosing VidGro Premium!`,
-                    [{ text: '🚀 Start Promoting', onPress: () => {
-                      refreshProfile();
-                      router.replace('/(tabs)/promote');
-                    }}]
-                  );
-                  setLoading(false);
-                  setSelectedPackage(null);
-                }, 2000);
-              }
-            }
-          ]
-        );
+      // The result (including pending and failed payments) arrives in handlePurchaseOutcome
+      await PurchaseService.getInstance().purchase(packageItem.productId);
+    } catch (error: any) {
+      console.error('Purchase error:', error);
+      // Store errors also reach purchaseErrorListener, which reports them
+      if (!error?.code) {
+        handlePurchaseOutcome({ status: 'failed', message: error?.message });
       } else {
-        // Native in-app purchase
-        try {
-          // Dynamically import IAP for native platforms
-          const InAppPurchases = await import('react-native-iap');
-          
-          const purchase = await InAppPurchases.requestPurchase({
-            sku: packageItem.productId,
-            andDangerouslyFinishTransactionAutomaticallyIOS: false,
-          });
-
-          console.log('Purchase result:', purchase);
-
-          if (purchase) {
-            // Record the transaction
-            await recordPurchaseTransaction(packageItem, purchase.transactionId || `iap_${Date.now()}`);
-
-            // Finish the transaction
-            await InAppPurchases.finishTransaction({ purchase, isConsumable: true });
-
-            if (Platform.OS !== 'web') {
-              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-            }
-
-            Alert.alert(
-              '🎉 Purchase Successful!',
-              `🪙 ${(packageItem.coins + packageItem.bonus).toLocaleString()} coins added to your account!\n\n🎯 You're now ready to promote your videos and reach viral status!\n\n💎 Thank you for choosing VidGro Premium!`,
-              [{ text: '🚀 Start Promoting', onPress: () => {
-                refreshProfile();
-                router.replace('/(tabs)/promote');
-              }}]
-            );
-          }
-        } catch (error: any) {
-          console.error('Purchase error:', error);
-          if (error.code !== 'E_USER_CANCELLED') {
-            Alert.alert('Purchase Failed', 'Unable to complete purchase. Please try again.');
-          }
-        }
+        setLoading(false);
+        setSelectedPackage(null);
       }
-    } catch (error) {
-      console.error('Purchase error:', error);
-      Alert.alert('Error', 'Something went wrong. Please try again.');
-    } finally {
-      setLoading(false);
-      setSelectedPackage(null);
     }
   };
 
@@ -418,7 +383,10 @@ export default function BuyCoinsScreen() {
     }));
 
     const isSelected = selectedPackage === packageItem.id;
-    const costPerThousand = (packageItem.price / (packageItem.coins + packageItem.bonus) * 1000).toFixed(1);
+    // Store prices are in the buyer's own currency; list prices are the fallback
+    const storePrice: StorePrice | null = getStorePrice(products.find(product => product.productId === packageItem.productId));
+    const price = (amount: number) => formatPrice(amount, packageItem.price, storePrice);
+    const costPerThousand = price(packageItem.price / (packageItem.coins + packageItem.bonus) * 1000);
 
     return (
       <RNAnimated.View key={packageItem.id} style={[animatedStyle]}>
@@ -477,7 +445,7 @@ export default function BuyCoinsScreen() {
             {/* Left side - Coin info */}
             <View style={styles.leftSection}>
               <Text style={[styles.coinAmount, { color: colors.text }, isTablet && styles.coinAmountTablet]}>
-                {packageItem.coins.toLocaleString()}
+                {formatCoins(packageItem.coins)}
               </Text>
               <Text style={[styles.coinLabel, { color: colors.textSecondary }]}>
                 COINS
@@ -488,7 +456,7 @@ export default function BuyCoinsScreen() {
                 <View style={[styles.bonusContainer, { backgroundColor: colors.success + '20' }]}>
                   <Sparkles size={10} color={colors.success} />
                   <Text style={[styles.bonusText, { color: colors.success }]}>
-                    +{packageItem.bonus.toLocaleString()} BONUS
+                    +{formatCoins(packageItem.bonus)} BONUS
                   </Text>
                 </View>
               )}
@@ -499,7 +467,7 @@ export default function BuyCoinsScreen() {
                   Total
                 </Text>
                 <Text style={[styles.totalValue, { color: colors.accent }, isTablet && styles.totalValueTablet]}>
-                  {(packageItem.coins + packageItem.bonus).toLocaleString()}
+                  {formatCoins(packageItem.coins + packageItem.bonus)}
                 </Text>
               </View>
             </View>
@@ -509,9 +477,8 @@ export default function BuyCoinsScreen() {
               {/* Price section */}
               <View style={styles.priceSection}>
                 <View style={styles.priceRow}>
-                  <Text style={[styles.currency, { color: colors.textSecondary }]}>₹</Text>
                   <Text style={[styles.price, { color: colors.text }, isTablet && styles.priceTablet]}>
-                    {packageItem.price}
+                    {price(packageItem.price)}
                   </Text>
                 </View>
                 <Text style={[styles.priceLabel, { color: colors.textSecondary }]}>
@@ -522,15 +489,15 @@ export default function BuyCoinsScreen() {
               {/* Value info */}
               <View style={styles.valueInfo}>
                 <Text style={[styles.costPerThousand, { color: colors.textSecondary }]}>
-                  ₹{costPerThousand}/1K coins
+                  {costPerThousand}/1K coins
                 </Text>
                 {packageItem.originalPrice && (
                   <View style={styles.savingsRow}>
                     <Text style={[styles.originalPrice, { color: colors.textSecondary }]}>
-                      ₹{packageItem.originalPrice}
+                      {price(packageItem.originalPrice)}
                     </Text>
                     <Text style={[styles.savings, { color: colors.success }]}>
-                      Save ₹{packageItem.savings}
+                      Save {price(packageItem.savings)}
                     </Text>
                   </View>
                 )}
@@ -616,7 +583,7 @@ export default function BuyCoinsScreen() {
       <View style={[styles.header, { backgroundColor: isDark ? colors.headerBackground : '#800080' }]}>
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()}>
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>Buy Coins</Text>
           
@@ -627,7 +594,7 @@ export default function BuyCoinsScreen() {
               borderColor: isDark ? 'rgba(74, 144, 226, 0.3)' : 'rgba(255, 255, 255, 0.2)'
             }]}>
               <Text style={styles.headerCoinIcon}>🪙</Text>
-              <Text style={styles.headerCoinText}>{profile?.coins?.toLocaleString() || '0'}</Text>
+              <Text style={styles.headerCoinText}>{formatCoins(profile?.coins)}</Text>
             </View>
           </View>
         </View>
@@ -647,6 +614,18 @@ export default function BuyCoinsScreen() {
           <View style={[styles.packagesGrid, isTablet && styles.packagesGridTablet]}>
             {coinPackages.map((packageItem, index) => renderPackageCard(packageItem, index))}
           </View>
+
+          {iapAvailable && (
+            <TouchableOpacity
+              style={[styles.restoreButton, { borderColor: colors.border }]}
+              onPress={handleRestorePurchases}
+              disabled={restoring}
+            >
+              <Text style={[styles.restoreButtonText, { color: colors.primary }]}>
+                {restoring ? 'Restoring...' : 'Restore Purchases'}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Trust signals - Responsive */}
@@ -710,6 +689,18 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  restoreButton: {
+    alignSelf: 'center',
+    marginTop: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  restoreButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   header: {
     paddingTop: 50,
     paddingBottom: 12,
@@ -975,10 +966,6 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'baseline',
   },
-  currency: {
-    fontSize: 12,
-    marginRight: 2,
-  },
   price: {
     fontSize: isVerySmallScreen ? 20 : 24,
     fontWeight: 'bold',
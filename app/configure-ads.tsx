@@ -1,13 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
-import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useRouter } from 'expo-router';
+import { useEntitlements } from '../hooks/useEntitlements';
 import { LinearGradient } from 'expo-linear-gradient';
 import { ArrowLeft, ShieldOff, Clock, Play } from 'lucide-react-native';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 export default function ConfigureAdsScreen() {
-  const { profile } = useAuth();
+  const { adFree } = useEntitlements();
   const { colors, isDark } = useTheme();
   const router = useRouter();
   const [isAdFreeActive, setIsAdFreeActive] = useState(false);
@@ -58,7 +59,7 @@ export default function ConfigureAdsScreen() {
       <View style={[styles.header, { backgroundColor: isDark ? colors.headerBackground : '#800080' }]}>
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()}>
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
           <Text style={[styles.headerTitle, { color: 'white' }]}>Configure Ads</Text>
           <ShieldOff size={24} color="white" />
@@ -66,14 +67,16 @@ export default function ConfigureAdsScreen() {
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        {isAdFreeActive ? (
+        {isAdFreeActive || adFree ? (
           <View style={[styles.activeContainer, { backgroundColor: colors.surface }]}>
             <View style={[styles.activeIcon, { backgroundColor: isDark ? 'rgba(16, 185, 129, 0.2)' : 'rgba(16, 185, 129, 0.2)' }]}>
               <ShieldOff size={48} color="#2ECC71" />
             </View>
             <Text style={[styles.activeTitle, { color: colors.text }]}>Ad-Free Active</Text>
             <Text style={[styles.activeSubtitle, { color: colors.textSecondary }]}>
-              You're currently enjoying an ad-free experience
+              {adFree
+                ? 'Your membership includes an ad-free experience'
+                : "You're currently enjoying an ad-free experience"}
             </Text>
           </View>
         ) : (
@@ -128,7 +131,7 @@ export default function ConfigureAdsScreen() {
           </Text>
         </View>
 
-        {!profile?.is_vip && (
+        {!adFree && (
           <TouchableOpacity
             style={[styles.vipButton, { backgroundColor: colors.accent }]}
             onPress={() => router.push('/become-vip')}
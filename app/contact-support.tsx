@@ -18,6 +18,7 @@ import {
 } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useFormatting } from '@/hooks/useFormatting';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { ArrowLeft, MessageCircle, Send, Phone, Mail, CircleHelp as HelpCircle, CircleAlert as AlertCircle, CreditCard, User, Video, Coins, MoveHorizontal as MoreHorizontal, ChevronDown, ChevronUp, Clock, CircleCheck as CheckCircle, Circle as XCircle, TriangleAlert as AlertTriangle, Star, Copy, Paperclip, X, FileText, Image, RefreshCw, MessageSquare, Check, History, ChevronRight, ArrowRight } from 'lucide-react-native';
@@ -36,6 +37,7 @@ import ReanimatedAnimated, {
   withTiming,
   interpolate,
 } from 'react-native-reanimated';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 const isTinyScreen = screenWidth < 340;
@@ -48,6 +50,7 @@ const AnimatedTouchableOpacity = ReanimatedAnimated.createAnimatedComponent(Touc
 function ContactSupportScreen() {
   const { profile, user } = useAuth();
   const { colors, isDark } = useTheme();
+  const { formatDate } = useFormatting();
   const router = useRouter();
   const supabase = getSupabase();
   const { showError, showInfo, alertProps, showAlert } = useCustomAlert();
@@ -470,7 +473,7 @@ function ContactSupportScreen() {
     if (diffInHours < 1) return 'Just now';
     if (diffInHours < 24) return `${diffInHours}h ago`;
     if (diffInHours < 48) return 'Yesterday';
-    return date.toLocaleDateString();
+    return formatDate(date);
   };
 
   const copyTicketId = (ticketId) => {
@@ -570,7 +573,7 @@ function ContactSupportScreen() {
             style={styles.backButton}
             onPress={() => router.back()}
           >
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>
             Contact Support
@@ -1019,7 +1022,7 @@ function ContactSupportScreen() {
                         onPress={() => navigateToTicketDetail(ticket)}
                       >
                         <Text style={[styles.viewButtonText, { color: colors.primary, fontSize: 10 }]}>View</Text>
-                        <ChevronRight size={12} color={colors.primary} />
+                        <DirectionalIcon icon={ChevronRight} size={12} color={colors.primary} />
                       </TouchableOpacity>
                     </View>
                   </TouchableOpacity>
@@ -1034,7 +1037,7 @@ function ContactSupportScreen() {
                     <Text style={[styles.viewAllText, { color: colors.primary, fontSize: 13 }]}>
                       View All {recentTickets.length} Tickets
                     </Text>
-                    <ArrowRight size={14} color={colors.primary} />
+                    <DirectionalIcon icon={ArrowRight} size={14} color={colors.primary} />
                   </TouchableOpacity>
                 )}
               </View>
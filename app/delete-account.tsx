@@ -5,6 +5,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { ArrowLeft, Trash2, TriangleAlert as AlertTriangle, Shield } from 'lucide-react-native';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 export default function DeleteAccountScreen() {
   const { user, profile, signOut } = useAuth();
@@ -67,7 +68,7 @@ export default function DeleteAccountScreen() {
         <View style={[styles.header, { backgroundColor: isDark ? colors.headerBackground : '#800080' }]}>
           <View style={styles.headerContent}>
             <TouchableOpacity onPress={() => router.back()}>
-              <ArrowLeft size={24} color="white" />
+              <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
             </TouchableOpacity>
             <Text style={styles.headerTitle}>Delete Account</Text>
             <Trash2 size={24} color="white" />
@@ -108,7 +109,7 @@ export default function DeleteAccountScreen() {
       <View style={[styles.header, { backgroundColor: isDark ? colors.headerBackground : '#800080' }]}>
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => setStep(1)}>
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>Confirm Deletion</Text>
           <Trash2 size={24} color="white" />
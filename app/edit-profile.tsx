@@ -14,6 +14,7 @@ import {
 } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useFormatting } from '@/hooks/useFormatting';
 import { useAlert } from '@/contexts/AlertContext';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -28,6 +29,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
 import { supabase } from '../lib/supabase';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 const { width: screenWidth } = Dimensions.get('window');
 const isSmallScreen = screenWidth < 380;
@@ -38,8 +40,9 @@ const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpaci
 const AnimatedLinearGradient = Animated.createAnimatedComponent(LinearGradient);
 
 export default function EditProfileScreen() {
-  const { user, profile, refreshProfile } = useAuth();
+  const { user, profile, vipStatus, refreshProfile } = useAuth();
   const { colors, isDark } = useTheme();
+  const { formatCoins, formatDate } = useFormatting();
   const { showError, showSuccess, showConfirm } = useAlert();
   const router = useRouter();
   
@@ -226,7 +229,7 @@ export default function EditProfileScreen() {
       >
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()}>
-            <ArrowLeft size={isTinyScreen ? 18 : isVerySmallScreen ? 20 : 24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={isTinyScreen ? 18 : isVerySmallScreen ? 20 : 24} color="white" />
           </TouchableOpacity>
           <Text style={[styles.headerTitle, { fontSize: isVerySmallScreen ? 18 : 22 }]}>
             Edit Profile
@@ -530,7 +533,7 @@ export default function EditProfileScreen() {
                   <Text style={[styles.infoLabel, { color: colors.textSecondary }]}>Coins</Text>
                 </View>
                 <Text style={[styles.infoValue, { color: '#FFD700' }]}>
-                  🪙{profile?.coins?.toLocaleString() || '0'}
+                  🪙{formatCoins(profile?.coins)}
                 </Text>
               </View>
 
@@ -541,9 +544,9 @@ export default function EditProfileScreen() {
                 </View>
                 <Text style={[
                   styles.infoValue, 
-                  { color: profile?.is_vip ? '#9D4EDD' : colors.textSecondary }
+                  { color: vipStatus.isVip ? '#9D4EDD' : colors.textSecondary }
                 ]}>
-                  {profile?.is_vip ? '👑 VIP' : 'Regular'}
+                  {vipStatus.isVip ? '👑 VIP' : 'Regular'}
                 </Text>
               </View>
 
@@ -554,10 +557,7 @@ export default function EditProfileScreen() {
                 </View>
                 <Text style={[styles.infoValue, { color: colors.text }]}>
                   {profile?.created_at 
-                    ? new Date(profile.created_at).toLocaleDateString('en-US', {
-                        month: 'short',
-                        year: 'numeric'
-                      })
+                    ? formatDate(profile.created_at, { month: 'short', year: 'numeric' })
                     : 'Unknown'
                   }
                 </Text>
@@ -12,10 +12,21 @@ import {
 import { router, useLocalSearchParams } from 'expo-router';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useFormatting } from '@/hooks/useFormatting';
 import { useAlert } from '@/contexts/AlertContext';
+import { useEntitlements } from '@/hooks/useEntitlements';
 import { useVideoStore } from '../store/videoStore';
-import { getSupabase, deleteVideo } from '@/lib/supabase';
-import { ArrowLeft, Eye, Clock, Trash2, Play, Timer, ChevronDown, Edit3, Copy, Check } from 'lucide-react-native';
+import { getSupabase, callRpc, deleteVideo, getRefundPolicy, setVideoPaused, countActiveCampaigns, quoteCampaignChange, applyCampaignChange, getVideoReportSummary } from '@/lib/supabase';
+import type { CampaignChangeQuote, VideoReportSummary } from '@/lib/supabase';
+import { calculateRefund } from '@/utils/refundPolicy';
+import type { RefundPolicy } from '@/utils/refundPolicy';
+import { getCampaignPhase } from '@/utils/campaignPacing';
+import { CAMPAIGN_TYPES, getCampaignType } from '@/utils/campaignTypes';
+import type { CampaignType } from '@/utils/campaignTypes';
+import { PROMOTION_DURATIONS } from '@/utils/promotionQuote';
+import { describeReportCounts } from '@/utils/videoReports';
+import { ArrowLeft, Eye, Clock, Trash2, Play, Timer, ChevronDown, Edit3, Copy, Check, Pause, Calendar, PlusCircle, Flag } from 'lucide-react-native';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 const { width: screenWidth } = Dimensions.get('window');
 const isSmallScreen = screenWidth < 480;
@@ -38,13 +49,21 @@ interface VideoData {
   total_watch_time?: number;
   completion_rate?: number;
   completed?: boolean;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  daily_view_cap?: number | null;
+  views_today?: number | null;
+  campaign_type?: CampaignType | null;
+  hold_reason?: string | null; // 'reports' when viewer reports put the campaign on hold
 }
 
 export default function EditVideoScreen() {
   const { user, profile, refreshProfile } = useAuth();
   const { colors, isDark } = useTheme();
+  const { formatDuration, formatTimer, formatDateTime } = useFormatting();
   const { showError, showSuccess, showConfirm } = useAlert();
   const { clearQueue } = useVideoStore();
+  const entitlements = useEntitlements();
   const params = useLocalSearchParams();
   const videoId = params.id as string;
   const [videoData, setVideoData] = useState<VideoData | null>(null);
@@ -52,28 +71,21 @@ export default function EditVideoScreen() {
   const [holdTimer, setHoldTimer] = useState(0);
   const [showRepromoteOptions, setShowRepromoteOptions] = useState(false);
   const [repromoting, setRepromoting] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [refundPolicy, setRefundPolicy] = useState<RefundPolicy | null>(null);
+  const [togglingPause, setTogglingPause] = useState(false);
+  const [showEditOptions, setShowEditOptions] = useState(params.edit === '1');
+  const [additionalViews, setAdditionalViews] = useState(0);
+  const [newDuration, setNewDuration] = useState<number | null>(null);
+  const [changeQuote, setChangeQuote] = useState<CampaignChangeQuote | null>(null);
+  const [quotingChange, setQuotingChange] = useState(false);
+  const [applyingChange, setApplyingChange] = useState(false);
+  const [reportSummary, setReportSummary] = useState<VideoReportSummary | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
   // Simple copy state without reanimated to avoid hook order issues
   const [videoIdCopied, setVideoIdCopied] = useState(false);
 
-  const formatEngagementTime = useCallback((seconds: number): string => {
-    const safeSeconds = Number(seconds) || 0;
-    if (safeSeconds === 0) return '0s';
-    
-    const hours = Math.floor(safeSeconds / 3600);
-    const minutes = Math.floor((safeSeconds % 3600) / 60);
-    const remainingSeconds = Math.floor(safeSeconds % 60);
-    
-    if (hours > 0) {
-      return `${hours}h ${minutes}m ${remainingSeconds}s`;
-    } else if (minutes > 0) {
-      return `${minutes}m ${remainingSeconds}s`;
-    } else {
-      return `${remainingSeconds}s`;
-    }
-  }, []);
-
   const extractYouTubeVideoId = useCallback((video: VideoData): string => {
     if (!video.youtube_url) return 'No YouTube URL';
     
@@ -116,7 +128,8 @@ export default function EditVideoScreen() {
   }, [showError]);
 
   const calculateHoldTimer = useCallback((video: VideoData) => {
-    if (video.status !== 'on_hold') return 0;
+    // A report hold has no end time; it lasts until the server's review releases it
+    if (video.status !== 'on_hold' || video.hold_reason === 'reports') return 0;
     
     let holdUntilTime: Date;
     if (video.hold_until) {
@@ -141,7 +154,7 @@ export default function EditVideoScreen() {
         const supabase = getSupabase();
         const { data: freshData, error } = await supabase
           .from('videos')
-          .select('views_count, status, hold_until, updated_at, total_watch_time, completed, target_views, youtube_url, coin_cost, coin_reward, duration_seconds')
+          .select('views_count, status, hold_until, hold_reason, updated_at, total_watch_time, completed, target_views, youtube_url, coin_cost, coin_reward, duration_seconds, starts_at, ends_at, daily_view_cap, views_today')
           .eq('id', id)
           .single();
 
@@ -155,7 +168,8 @@ export default function EditVideoScreen() {
           
           setVideoData(prev => prev ? { ...prev, ...updatedVideo } : null);
           
-          if (updatedVideo.status === 'on_hold' && updatedVideo.hold_until) {
+          // Report holds are released by the server's review, never by the client
+          if (updatedVideo.status === 'on_hold' && updatedVideo.hold_until && updatedVideo.hold_reason !== 'reports') {
             const holdUntilTime = new Date(updatedVideo.hold_until);
             if (holdUntilTime.getTime() <= new Date().getTime()) {
               await supabase
@@ -186,7 +200,7 @@ export default function EditVideoScreen() {
           setHoldTimer(calculateHoldTimer(video));
           setLoading(false);
           setupRealTimeUpdates(video);
-        } catch (error) {
+        } catch {
           router.back();
         }
       }
@@ -227,7 +241,7 @@ export default function EditVideoScreen() {
       setVideoData(videoWithCompletion);
       setHoldTimer(calculateHoldTimer(videoWithCompletion));
       setupRealTimeUpdates(videoWithCompletion);
-    } catch (error) {
+    } catch {
       showError('Error', 'Something went wrong');
     } finally {
       setLoading(false);
@@ -251,23 +265,22 @@ export default function EditVideoScreen() {
     }
   }, [holdTimer]);
 
-  const getMinutesSinceCreation = useCallback(() => {
-    if (!videoData) return 0;
-    const createdTime = new Date(videoData.created_at);
-    const now = new Date();
-    return Math.floor((now.getTime() - createdTime.getTime()) / (1000 * 60));
-  }, [videoData]);
+  useEffect(() => {
+    getRefundPolicy().then(({ data, error }) => {
+      if (error) {
+        console.error('Error loading refund policy:', error);
+      }
+      setRefundPolicy(data);
+    });
+  }, []);
 
+  // Preview only; the delete RPC applies the same policy and decides the actual refund.
+  // Null when the policy couldn't be loaded, in which case no amount is promised.
   const refundInfo = useMemo(() => {
-    if (!videoData) return { refundPercentage: 0, refundAmount: 0, isWithin10Minutes: false };
-    
-    const minutesSinceCreation = getMinutesSinceCreation();
-    const isWithin10Minutes = minutesSinceCreation <= 10;
-    const refundPercentage = isWithin10Minutes ? 100 : 50;
-    const refundAmount = Math.floor((videoData.coin_cost || 0) * refundPercentage / 100);
+    if (!videoData || !refundPolicy) return null;
     
-    return { refundPercentage, refundAmount, isWithin10Minutes };
-  }, [videoData, getMinutesSinceCreation]);
+    return calculateRefund(videoData.coin_cost || 0, videoData.created_at, refundPolicy);
+  }, [videoData, refundPolicy]);
 
   const canRepromote = useMemo(() => {
     if (!videoData) return false;
@@ -306,34 +319,40 @@ export default function EditVideoScreen() {
   }, [videoData]);
 
   const handleDeleteVideo = async () => {
-    if (!videoData || !user?.id) return;
+    if (!videoData || !user?.id || deleting) return;
 
-    const message = `Deleting now refunds ${refundInfo.refundPercentage}% coins (🪙${refundInfo.refundAmount}). This action cannot be undone. Confirm?`;
+    const message = refundInfo
+      ? `Deleting now refunds ${refundInfo.refundPercentage}% coins (🪙${refundInfo.refundAmount}). This action cannot be undone. Confirm?`
+      : 'Your refund will be calculated when the video is deleted. This action cannot be undone. Confirm?';
 
     showConfirm(
       'Delete Video',
       message,
       async () => {
+        setDeleting(true);
         try {
           const { data: deleteResult, error } = await deleteVideo(
             videoData.id || videoData.video_id!,
             user.id
           );
 
-          if (error) {
-            showError('Error', 'Failed to delete video. Please try again.');
+          if (error || !deleteResult) {
+            showError('Error', error?.message || 'Failed to delete video. Please try again.');
             return;
           }
 
           await refreshProfile();
           clearQueue();
 
+          // Show what the server actually refunded, which may differ from the preview
           showSuccess(
             'Success', 
-            deleteResult.message || `Video deleted and 🪙${deleteResult.refund_amount} coins refunded!`
+            deleteResult.message || `Video deleted and 🪙${deleteResult.refund_amount} coins refunded (${deleteResult.refund_percentage}%)!`
           );
-        } catch (error) {
+        } catch {
           showError('Error', 'Failed to delete video. Please try again.');
+        } finally {
+          setDeleting(false);
         }
       },
       undefined,
@@ -342,9 +361,166 @@ export default function EditVideoScreen() {
     );
   };
 
+  const canTogglePause = useMemo(() => {
+    if (!videoData || videoData.completed) return false;
+    if (videoData.views_count >= videoData.target_views) return false;
+    return ['active', 'repromoted', 'paused'].includes(videoData.status);
+  }, [videoData]);
+
+  const handleTogglePause = async () => {
+    if (!videoData || !user?.id || togglingPause) return;
+
+    const pausing = videoData.status !== 'paused';
+    setTogglingPause(true);
+    try {
+      // This campaign is already in the count; resuming is blocked only if the limit dropped below it
+      if (!pausing) {
+        const { data: activeCampaigns, error: countError } = await countActiveCampaigns(user.id);
+        if (countError || activeCampaigns === null) {
+          console.error('Error counting active campaigns:', countError);
+          showError('Error', 'Could not check your active campaigns. Please try again.');
+          return;
+        }
+        if (activeCampaigns > entitlements.maxActiveCampaigns) {
+          showError(
+            'Campaign Limit Reached',
+            `You can run up to ${entitlements.maxActiveCampaigns} promotions at once. Delete or finish one before resuming this campaign.`
+          );
+          return;
+        }
+      }
+
+      const { data, error } = await setVideoPaused(videoData.id || videoData.video_id!, user.id, pausing);
+
+      if (error) {
+        showError('Error', error.message || `Failed to ${pausing ? 'pause' : 'resume'} campaign`);
+        return;
+      }
+
+      setVideoData(prev => prev ? { ...prev, status: data?.status || (pausing ? 'paused' : 'active') } : null);
+      clearQueue();
+      showSuccess('Success', pausing ? 'Campaign paused. Remaining views are kept.' : 'Campaign resumed.');
+    } catch {
+      showError('Error', `Failed to ${pausing ? 'pause' : 'resume'} campaign. Please try again.`);
+    } finally {
+      setTogglingPause(false);
+    }
+  };
+
+  const isHeldForReports = videoData?.status === 'on_hold' && (videoData.hold_reason === 'reports' || !!reportSummary?.held_for_reports);
+
+  // Views and duration can be raised while a campaign is still running, but not while it's under review
+  const canEditCampaign = useMemo(() => {
+    if (!videoData || videoData.completed || isHeldForReports) return false;
+    return ['active', 'repromoted', 'paused', 'on_hold'].includes(videoData.status);
+  }, [videoData, isHeldForReports]);
+
+  const campaignInfo = CAMPAIGN_TYPES[getCampaignType(videoData)];
+  // Subscribe and like campaigns have no watch duration to raise
+  const currentDuration = campaignInfo.type === 'view' ? videoData?.duration_seconds || 30 : 0;
+  const selectedDuration = Math.max(newDuration ?? currentDuration, currentDuration);
+  const hasCampaignChange = additionalViews > 0 || selectedDuration > currentDuration;
+
+  // Price the change on the server whenever the selection changes
+  const changeVideoId = videoData?.id || videoData?.video_id;
+  useEffect(() => {
+    setChangeQuote(null);
+    if (!changeVideoId || !user?.id || !hasCampaignChange) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setQuotingChange(true);
+      const { data, error } = await quoteCampaignChange(changeVideoId, user.id, {
+        additionalViews,
+        durationSeconds: selectedDuration,
+      });
+      if (cancelled) return;
+      setQuotingChange(false);
+      if (error) {
+        console.error('Error quoting campaign change:', error);
+        return;
+      }
+      setChangeQuote(data);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [additionalViews, selectedDuration, hasCampaignChange, changeVideoId, user?.id]);
+
+  const resetCampaignChange = () => {
+    setAdditionalViews(0);
+    setNewDuration(null);
+    setChangeQuote(null);
+  };
+
+  const handleApplyCampaignChange = () => {
+    if (!videoData || !user?.id || !changeQuote || applyingChange) return;
+
+    if ((profile?.coins || 0) < changeQuote.cost) {
+      showError('Insufficient Coins', `This change costs 🪙${changeQuote.cost}. You currently have 🪙${profile?.coins || 0}.`);
+      return;
+    }
+
+    const parts = [
+      changeQuote.additional_views > 0 ? `add ${changeQuote.additional_views} views` : null,
+      changeQuote.duration_seconds > currentDuration ? `raise duration to ${changeQuote.duration_seconds}s` : null,
+    ].filter(Boolean);
+
+    showConfirm(
+      'Update Campaign',
+      `This will ${parts.join(' and ')} for 🪙${changeQuote.cost}. Confirm?`,
+      async () => {
+        setApplyingChange(true);
+        try {
+          const { data: result, error } = await applyCampaignChange(
+            changeQuote.quote_id,
+            videoData.id || videoData.video_id!,
+            user.id
+          );
+
+          if (error || !result) {
+            showError('Error', error?.message || 'Failed to update campaign. Please try again.');
+            return;
+          }
+
+          const updatedVideo: VideoData = {
+            ...videoData,
+            status: result.status as VideoData['status'],
+            hold_until: result.hold_until || undefined,
+            target_views: result.target_views,
+            duration_seconds: result.duration_seconds,
+            coin_reward: result.coin_reward,
+            coin_cost: result.coin_cost,
+            completion_rate: result.target_views > 0
+              ? Math.round((videoData.views_count / result.target_views) * 100)
+              : 0,
+          };
+          setVideoData(updatedVideo);
+          setHoldTimer(calculateHoldTimer(updatedVideo));
+          resetCampaignChange();
+          setShowEditOptions(false);
+
+          await refreshProfile();
+          clearQueue();
+
+          showSuccess('Success', result.message || `Campaign updated. 🪙${result.coins_charged} coins charged.`);
+        } catch {
+          showError('Error', 'Failed to update campaign. Please try again.');
+        } finally {
+          setApplyingChange(false);
+        }
+      },
+      undefined,
+      'Update',
+      'Cancel'
+    );
+  };
+
   const handleNavigateBack = useCallback(() => {
     router.back();
-  }, [router]);
+  }, []);
 
   const handleRepromoteVideo = async () => {
     if (!videoData || !user?.id || repromoting || !canRepromote) return;
@@ -360,8 +536,7 @@ export default function EditVideoScreen() {
     setRepromoting(true);
     
     try {
-      const supabase = getSupabase();
-      const { data: result, error } = await supabase.rpc('repromote_video', {
+      const { data: result, error } = await callRpc('repromote_video', {
         p_video_id: videoData.id || videoData.video_id,
         p_user_id: user.id
       });
@@ -377,21 +552,49 @@ export default function EditVideoScreen() {
       clearQueue();
 
       showSuccess('Success', result.message || 'Video repromoted successfully!');
-    } catch (error) {
+    } catch {
       showError('Error', 'Failed to repromote video. Please try again.');
     } finally {
       setRepromoting(false);
     }
   };
 
-  const formatHoldTimer = useCallback((seconds: number): string => {
-    const safeSeconds = Number(seconds) || 0;
-    const minutes = Math.floor(safeSeconds / 60);
-    const secs = safeSeconds % 60;
-    return `${minutes}:${secs.toString().padStart(2, '0')}`;
-  }, []);
+  // Tell the owner when viewers report the video, and why it was put on hold
+  const reportVideoId = videoData?.id || videoData?.video_id;
+  useEffect(() => {
+    if (!reportVideoId || !user?.id) return;
+
+    let cancelled = false;
+    getVideoReportSummary(reportVideoId, user.id).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading video reports:', error);
+        return;
+      }
+      setReportSummary(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [reportVideoId, user?.id, videoData?.status]);
+
+  const campaignPhase = useMemo(() => videoData ? getCampaignPhase(videoData) : 'live', [videoData]);
 
   const statusConfig = useMemo(() => {
+    if (isHeldForReports) return { color: '#E74C3C', text: 'UNDER REVIEW' };
+
+    // Schedule and pacing only change how a running campaign is shown
+    if (videoData && ['active', 'repromoted'].includes(videoData.status)) {
+      if (campaignPhase === 'scheduled') return { color: '#8E44AD', text: 'SCHEDULED' };
+      if (campaignPhase === 'ended') return { color: '#95A5A6', text: 'ENDED' };
+      if (videoData.daily_view_cap) {
+        return {
+          color: campaignPhase === 'capped' ? '#F39C12' : '#16A085',
+          text: `PACED (${videoData.daily_view_cap}/DAY)`,
+        };
+      }
+    }
+
     const configs = {
       active: { color: '#2ECC71', text: 'ACTIVE' },
       completed: { color: '#3498DB', text: 'COMPLETED' },
@@ -400,14 +603,14 @@ export default function EditVideoScreen() {
       repromoted: { color: '#800080', text: 'REPROMOTED' }
     };
     return configs[videoData?.status as keyof typeof configs] || { color: '#95A5A6', text: videoData?.status?.toUpperCase() || 'UNKNOWN' };
-  }, [videoData?.status]);
+  }, [videoData, campaignPhase, isHeldForReports]);
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <View style={[styles.header, { backgroundColor: isDark ? colors.headerBackground : '#800080' }]}>
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={handleNavigateBack}>
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
           <Text style={[styles.headerTitle, { color: 'white' }]}>Edit Video</Text>
           <Edit3 size={24} color="white" />
@@ -458,19 +661,65 @@ export default function EditVideoScreen() {
           </Text>
         </View>
 
-        {videoData.status === 'on_hold' && holdTimer > 0 && (
+        {(isHeldForReports || (reportSummary?.total ?? 0) > 0) && (
+          <View style={[styles.reportCard, { backgroundColor: isDark ? 'rgba(239, 68, 68, 0.2)' : 'rgba(239, 68, 68, 0.1)' }]}>
+            <View style={styles.pendingHeader}>
+              <Flag color="#E74C3C" size={22} />
+              <Text style={[styles.pendingTitle, { color: colors.error }]}>
+                {isHeldForReports ? 'On Hold: Viewer Reports' : 'Viewer Reports'}
+              </Text>
+            </View>
+            <Text style={[styles.reportText, { color: colors.text }]}>
+              {isHeldForReports
+                ? 'Your campaign was paused after several viewers reported this video. It stays out of the queue while we review it; remaining views are kept.'
+                : `${reportSummary?.total} viewer${reportSummary?.total === 1 ? '' : 's'} reported this video. Campaigns with too many reports are put on hold for review.`}
+            </Text>
+            {reportSummary && reportSummary.total > 0 && (
+              <Text style={[styles.reportReasons, { color: colors.textSecondary }]}>
+                {describeReportCounts(reportSummary.counts)}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {videoData.status === 'on_hold' && holdTimer > 0 && !isHeldForReports && (
           <View style={[styles.pendingCard, { backgroundColor: isDark ? 'rgba(245, 158, 11, 0.2)' : 'rgba(245, 158, 11, 0.2)' }]}>
             <View style={styles.pendingHeader}>
               <Timer color="#F39C12" size={24} />
               <Text style={[styles.pendingTitle, { color: colors.warning }]}>Pending Status</Text>
             </View>
             <View style={styles.timerContainer}>
-              <Text style={[styles.timerText, { color: colors.warning }]}>{formatHoldTimer(holdTimer)} remaining</Text>
+              <Text style={[styles.timerText, { color: colors.warning }]}>{formatTimer(holdTimer)} remaining</Text>
               <Text style={[styles.timerSubtext, { color: colors.warning }]}>Video will enter queue after hold period</Text>
             </View>
           </View>
         )}
 
+        {(videoData.starts_at || videoData.ends_at || videoData.daily_view_cap) && (
+          <View style={[styles.titleCard, { backgroundColor: colors.surface }]}>
+            <View style={styles.scheduleHeader}>
+              <Calendar color={colors.primary} size={20} />
+              <Text style={[styles.titleLabel, { color: colors.textSecondary }]}>Schedule</Text>
+            </View>
+            {videoData.starts_at && (
+              <Text style={[styles.scheduleText, { color: colors.text }]}>
+                {campaignPhase === 'scheduled' ? 'Starts' : 'Started'}: {formatDateTime(videoData.starts_at)}
+              </Text>
+            )}
+            {videoData.ends_at && (
+              <Text style={[styles.scheduleText, { color: colors.text }]}>
+                {campaignPhase === 'ended' ? 'Ended' : 'Ends'}: {formatDateTime(videoData.ends_at)}
+              </Text>
+            )}
+            {videoData.daily_view_cap ? (
+              <Text style={[styles.scheduleText, { color: colors.text }]}>
+                Today: {videoData.views_today || 0}/{videoData.daily_view_cap} views
+                {campaignPhase === 'capped' ? ' (daily cap reached, resumes tomorrow)' : ''}
+              </Text>
+            ) : null}
+          </View>
+        )}
+
         <View style={styles.metricsSection}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Video Metrics</Text>
           
@@ -478,7 +727,7 @@ export default function EditVideoScreen() {
             <View style={[styles.metricCard, { backgroundColor: colors.surface }]}>
               <View style={styles.metricHeaderCentered}>
                 <Eye color="#3498DB" size={isSmallScreen ? 22 : 28} />
-                <Text style={[styles.metricLabelResponsive, { color: colors.text }]}>Total Views</Text>
+                <Text style={[styles.metricLabelResponsive, { color: colors.text }]}>Total {campaignInfo.label}</Text>
               </View>
               <Text style={[styles.metricValueResponsive, { color: colors.text }]}>
                 {`${videoData.views_count || 0}/${videoData.target_views || 0}`}
@@ -491,7 +740,7 @@ export default function EditVideoScreen() {
                 <Text style={[styles.metricLabelResponsive, { color: colors.text }]}>Received Watch Time</Text>
               </View>
               <Text style={[styles.metricValueResponsive, { color: colors.text }]}>
-                {formatEngagementTime(videoData.total_watch_time || 0)}
+                {formatDuration(videoData.total_watch_time || 0)}
               </Text>
             </View>
           </View>
@@ -501,18 +750,139 @@ export default function EditVideoScreen() {
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Actions</Text>
 
           <TouchableOpacity 
-            style={[styles.actionButton, styles.deleteButton, { backgroundColor: colors.error }]} 
+            style={[styles.actionButton, styles.deleteButton, { backgroundColor: colors.error }, deleting && styles.buttonDisabled]} 
             onPress={handleDeleteVideo}
+            disabled={deleting}
           >
             <Trash2 color="white" size={20} />
             <View style={styles.actionContent}>
               <Text style={[styles.actionButtonText, { color: 'white' }]}>Delete Video</Text>
               <Text style={[styles.actionSubtext, { color: 'rgba(255, 255, 255, 0.8)' }]}>
-                {`Refund: ${refundInfo.refundAmount || 0} (${refundInfo.refundPercentage || 0}%)`}
+                {refundInfo ? `Refund: ${refundInfo.refundAmount} (${refundInfo.refundPercentage}%)` : 'Refund calculated on delete'}
               </Text>
             </View>
           </TouchableOpacity>
 
+          {canTogglePause && (
+            <TouchableOpacity 
+              style={[styles.actionButton, { backgroundColor: videoData.status === 'paused' ? colors.success : colors.warning }, togglingPause && styles.buttonDisabled]} 
+              onPress={handleTogglePause}
+              disabled={togglingPause}
+            >
+              {videoData.status === 'paused' ? <Play color="white" size={20} /> : <Pause color="white" size={20} />}
+              <View style={styles.actionContent}>
+                <Text style={[styles.actionButtonText, { color: 'white' }]}>
+                  {videoData.status === 'paused'
+                    ? (togglingPause ? 'Resuming...' : 'Resume Campaign')
+                    : (togglingPause ? 'Pausing...' : 'Pause Campaign')}
+                </Text>
+                <Text style={[styles.actionSubtext, { color: 'rgba(255, 255, 255, 0.8)' }]}>
+                  {videoData.status === 'paused' ? 'Return to the queue' : 'Stop receiving views for now'}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          {canEditCampaign && (
+            <View style={[styles.repromoteSection, styles.editSection, { backgroundColor: colors.surface }]}>
+              <Pressable 
+                style={styles.repromoteToggle}
+                onPress={() => setShowEditOptions(!showEditOptions)}
+                android_ripple={{ color: '#F5F5F5' }}
+              >
+                <Text style={[styles.repromoteLabel, { color: colors.text }]}>Edit Campaign</Text>
+                <ChevronDown 
+                  color={colors.text} 
+                  size={20} 
+                  style={[
+                    styles.chevron,
+                    showEditOptions && styles.chevronRotated
+                  ]}
+                />
+              </Pressable>
+
+              {showEditOptions && (
+                <View style={styles.repromoteOptions}>
+                  <View style={styles.optionGroup}>
+                    <Text style={[styles.optionLabel, { color: colors.text }]}>Add {campaignInfo.label}</Text>
+                    <View style={styles.changeChips}>
+                      {[0, 25, 50, 100, 250, 500].map((views) => (
+                        <TouchableOpacity
+                          key={views}
+                          style={[
+                            styles.changeChip,
+                            { borderColor: colors.border },
+                            additionalViews === views && { backgroundColor: colors.primary, borderColor: colors.primary }
+                          ]}
+                          onPress={() => setAdditionalViews(views)}
+                        >
+                          <Text style={[styles.changeChipText, { color: additionalViews === views ? 'white' : colors.text }]}>
+                            {views === 0 ? 'None' : `+${views}`}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+
+                  {campaignInfo.type === 'view' && (
+                    <View style={styles.optionGroup}>
+                      <Text style={[styles.optionLabel, { color: colors.text }]}>Duration</Text>
+                      <View style={styles.changeChips}>
+                        {PROMOTION_DURATIONS.filter(duration => duration >= currentDuration).map((duration) => (
+                          <TouchableOpacity
+                            key={duration}
+                            style={[
+                              styles.changeChip,
+                              { borderColor: colors.border },
+                              selectedDuration === duration && { backgroundColor: colors.primary, borderColor: colors.primary }
+                            ]}
+                            onPress={() => setNewDuration(duration)}
+                          >
+                            <Text style={[styles.changeChipText, { color: selectedDuration === duration ? 'white' : colors.text }]}>
+                              {duration}s
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </View>
+                  )}
+
+                  {hasCampaignChange && (
+                    <View style={[styles.costDisplay, { backgroundColor: colors.primary + '15' }]}>
+                      <Text style={[styles.costText, { color: colors.text }]}>
+                        {changeQuote
+                          ? `Cost: 🪙${changeQuote.cost} · Reward ${changeQuote.reward_per_view}/${campaignInfo.unit}`
+                          : quotingChange ? 'Calculating cost...' : 'Could not price this change'}
+                      </Text>
+                    </View>
+                  )}
+
+                  <Pressable 
+                    style={[
+                      styles.actionButton, 
+                      styles.repromoteButton,
+                      { backgroundColor: colors.primary },
+                      (!changeQuote || applyingChange) && styles.buttonDisabled
+                    ]} 
+                    onPress={handleApplyCampaignChange}
+                    disabled={!changeQuote || applyingChange}
+                    android_ripple={{ color: 'rgba(255,255,255,0.3)' }}
+                  >
+                    <PlusCircle color="white" size={20} />
+                    <View style={styles.actionContent}>
+                      <Text style={[styles.actionButtonText, { color: 'white' }]}>
+                        {applyingChange ? 'Updating...' : 'Apply Changes'}
+                      </Text>
+                      <Text style={[styles.actionSubtext, { color: 'rgba(255, 255, 255, 0.8)' }]}>
+                        Only the difference is charged
+                      </Text>
+                    </View>
+                  </Pressable>
+                </View>
+              )}
+            </View>
+          )}
+
           <View style={[styles.repromoteSection, { backgroundColor: colors.surface }]}>
             <Pressable 
               style={styles.repromoteToggle}
@@ -689,6 +1059,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  reportCard: {
+    margin: 16,
+    marginTop: 0,
+    borderRadius: 16,
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#E74C3C',
+  },
+  reportText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  reportReasons: {
+    fontSize: 13,
+    marginTop: 8,
+  },
   timerContainer: {
     alignItems: 'center',
   },
@@ -852,6 +1238,24 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  editSection: {
+    marginBottom: 12,
+  },
+  changeChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  changeChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  changeChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   repromoteDisabledNotice: {
     borderRadius: 8,
     padding: 12,
@@ -908,6 +1312,15 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
+  scheduleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  scheduleText: {
+    fontSize: isSmallScreen ? 13 : 15,
+    lineHeight: 22,
+  },
   titleText: {
     fontSize: isSmallScreen ? 16 : 18,
     fontWeight: '500',
@@ -0,0 +1,318 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAlert } from '@/contexts/AlertContext';
+import { getEngagementCampaigns } from '@/lib/supabase';
+import type { EngagementCampaign } from '@/lib/supabase';
+import EngagementService from '@/services/EngagementService';
+import { CAMPAIGN_TYPES, ENGAGEMENT_CAMPAIGN_TYPES } from '@/utils/campaignTypes';
+import type { EngagementCampaignType } from '@/utils/campaignTypes';
+import { isCampaignServable } from '@/utils/campaignPacing';
+import { ArrowLeft, ThumbsUp, UserPlus, CheckCircle } from 'lucide-react-native';
+import DirectionalIcon from '@/components/DirectionalIcon';
+
+// Earn coins by subscribing to channels and liking videos on YouTube. View
+// campaigns stay in the Watch tab; this screen serves the other campaign types.
+export default function EngageScreen() {
+  const { user, refreshProfile } = useAuth();
+  const { colors, isDark } = useTheme();
+  const { showSuccess, showError, showInfo } = useAlert();
+  const router = useRouter();
+
+  const [type, setType] = useState<EngagementCampaignType>('subscribe');
+  const [campaigns, setCampaigns] = useState<EngagementCampaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeVideoId, setActiveVideoId] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const typeRef = useRef(type);
+
+  const loadCampaigns = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    const requestedType = typeRef.current;
+    const data = await getEngagementCampaigns(user.id, requestedType);
+    if (typeRef.current !== requestedType) return;
+
+    // Daily caps compare two columns, so they're applied here like in the watch queue
+    setCampaigns(data.filter(campaign => isCampaignServable(campaign)));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    typeRef.current = type;
+    loadCampaigns();
+  }, [type, loadCampaigns]);
+
+  // Leaving the screen abandons any action that wasn't verified
+  useEffect(() => {
+    const service = EngagementService.getInstance();
+    return () => service.cancel();
+  }, []);
+
+  const handleStart = async (campaign: EngagementCampaign) => {
+    if (!user || verifying) return;
+
+    const { error } = await EngagementService.getInstance().start(user.id, campaign);
+    if (error) {
+      setActiveVideoId(null);
+      showError('Unavailable', error.message || 'This campaign is no longer available');
+      loadCampaigns();
+      return;
+    }
+    setActiveVideoId(campaign.video_id);
+  };
+
+  const handleVerify = async (campaign: EngagementCampaign) => {
+    if (verifying) return;
+    setVerifying(true);
+
+    try {
+      const result = await EngagementService.getInstance().verify();
+
+      if (result.queued) {
+        setCampaigns(prev => prev.filter(item => item.video_id !== campaign.video_id));
+        setActiveVideoId(null);
+        showInfo('Reward Pending', `${campaign.coin_reward} coins will be added once you're back online.`);
+        return;
+      }
+
+      if (result.error) {
+        showError('Not Verified', result.error.message);
+        return;
+      }
+
+      setActiveVideoId(null);
+      if (!result.data?.success) {
+        showError('Not Verified', result.data?.message || 'We could not confirm this action');
+        loadCampaigns();
+        return;
+      }
+
+      setCampaigns(prev => prev.filter(item => item.video_id !== campaign.video_id));
+      await refreshProfile();
+      showSuccess('Coins Earned!', `You earned ${result.data.coins_earned ?? campaign.coin_reward} coins.`);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const renderCampaign = ({ item }: { item: EngagementCampaign }) => {
+    const isActive = activeVideoId === item.video_id;
+    const info = CAMPAIGN_TYPES[item.campaign_type];
+
+    return (
+      <View style={[styles.campaignCard, { backgroundColor: colors.surface }]}>
+        <View style={styles.campaignInfo}>
+          <Text style={[styles.campaignTitle, { color: colors.text }]} numberOfLines={2}>
+            {item.title}
+          </Text>
+          <Text style={[styles.campaignReward, { color: colors.success }]}>
+            🪙 {item.coin_reward} coins
+          </Text>
+        </View>
+
+        {isActive ? (
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: colors.success }]}
+            onPress={() => handleVerify(item)}
+            disabled={verifying}
+          >
+            {verifying ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <>
+                <CheckCircle size={16} color="white" />
+                <Text style={styles.actionButtonText}>Claim</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: '#FF0000' }]}
+            onPress={() => handleStart(item)}
+            disabled={verifying}
+          >
+            {item.campaign_type === 'subscribe' ? (
+              <UserPlus size={16} color="white" />
+            ) : (
+              <ThumbsUp size={16} color="white" />
+            )}
+            <Text style={styles.actionButtonText}>{info.actionLabel}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { backgroundColor: isDark ? colors.headerBackground : '#800080' }]}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: 'white' }]}>Subscribe & Like</Text>
+          <ThumbsUp size={24} color="white" />
+        </View>
+      </View>
+
+      <View style={[styles.typeTabs, { backgroundColor: colors.surface }]}>
+        {ENGAGEMENT_CAMPAIGN_TYPES.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.typeTab, type === option && { backgroundColor: colors.primary }]}
+            onPress={() => {
+              EngagementService.getInstance().cancel();
+              setActiveVideoId(null);
+              setType(option);
+            }}
+          >
+            <Text style={[styles.typeTabText, { color: type === option ? 'white' : colors.text }]}>
+              {CAMPAIGN_TYPES[option].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.hint, { color: colors.textSecondary }]}>
+        {type === 'subscribe'
+          ? 'Subscribe to the channel on YouTube, then come back and tap Claim.'
+          : 'Like the video on YouTube, then come back and tap Claim.'}
+      </Text>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={campaigns}
+          keyExtractor={item => item.video_id}
+          renderItem={renderCampaign}
+          contentContainerStyle={styles.list}
+          onRefresh={loadCampaigns}
+          refreshing={false}
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                No {CAMPAIGN_TYPES[type].label.toLowerCase()} campaigns right now. Check back later!
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 50,
+    paddingBottom: 12,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    height: 40,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    letterSpacing: 0.5,
+  },
+  typeTabs: {
+    flexDirection: 'row',
+    margin: 16,
+    padding: 4,
+    borderRadius: 12,
+  },
+  typeTab: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  typeTabText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    marginHorizontal: 20,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  list: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  campaignCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  campaignInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  campaignTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  campaignReward: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+    minWidth: 100,
+    justifyContent: 'center',
+    gap: 6,
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -13,6 +13,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { useRouter } from 'expo-router';
 import { ChevronDown, ChevronUp, ArrowLeft, HelpCircle } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 // Responsive helpers
 const { width: screenWidth } = Dimensions.get('window');
@@ -288,7 +289,7 @@ export default function FAQScreen() {
       >
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()}>
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>FAQ</Text>
           <HelpCircle size={24} color="white" />
@@ -1,46 +1,44 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
-import { ArrowLeft, Globe, Check } from 'lucide-react-native';
+import { ArrowLeft, Globe, Check, RotateCcw } from 'lucide-react-native';
+import { updateViewerLocale } from '../lib/supabase';
+import { LANGUAGES } from '../utils/audienceTargeting';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 export default function LanguagesScreen() {
-  const { profile } = useAuth();
+  const { profile, refreshProfile } = useAuth();
   const { colors, isDark } = useTheme();
   const router = useRouter();
-  const [selectedLanguage, setSelectedLanguage] = useState('en');
+  const { t, language: selectedLanguage, setLanguage } = useTranslation();
+  const { restartRequired, restartForLayoutDirection } = useLanguage();
   const [loading, setLoading] = useState(false);
 
-  const languages = [
-    { code: 'en', name: 'English', nativeName: 'English', flag: '🇺🇸' },
-    { code: 'es', name: 'Spanish', nativeName: 'Español', flag: '🇪🇸' },
-    { code: 'fr', name: 'French', nativeName: 'Français', flag: '🇫🇷' },
-    { code: 'de', name: 'German', nativeName: 'Deutsch', flag: '🇩🇪' },
-    { code: 'it', name: 'Italian', nativeName: 'Italiano', flag: '🇮🇹' },
-    { code: 'pt', name: 'Portuguese', nativeName: 'Português', flag: '🇵🇹' },
-    { code: 'ru', name: 'Russian', nativeName: 'Русский', flag: '🇷🇺' },
-    { code: 'zh', name: 'Chinese', nativeName: '中文', flag: '🇨🇳' },
-    { code: 'ja', name: 'Japanese', nativeName: '日本語', flag: '🇯🇵' },
-    { code: 'ko', name: 'Korean', nativeName: '한국어', flag: '🇰🇷' },
-    { code: 'ar', name: 'Arabic', nativeName: 'العربية', flag: '🇸🇦' },
-    { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', flag: '🇮🇳' },
-  ];
+  const languages = LANGUAGES;
 
   const handleLanguageChange = async (languageCode: string) => {
-    setSelectedLanguage(languageCode);
+    if (languageCode === selectedLanguage) return;
     setLoading(true);
 
-    // Simulate language change
-    setTimeout(() => {
-      Alert.alert(
-        'Language Changed',
-        `Language has been changed to ${languages.find(l => l.code === languageCode)?.name}. The app will restart to apply changes.`,
-        [{ text: 'OK', onPress: () => router.back() }]
-      );
-      setLoading(false);
-    }, 1000);
+    // Takes effect immediately; screens re-render with the new catalog
+    await setLanguage(languageCode);
+
+    // Saved on the profile so promotions targeting this language reach the viewer
+    if (profile) {
+      const { error } = await updateViewerLocale(profile.id, { language: languageCode });
+      if (error) {
+        console.error('Error saving language:', error);
+      } else {
+        await refreshProfile();
+      }
+    }
+
+    setLoading(false);
   };
 
   return (
@@ -48,18 +46,35 @@ export default function LanguagesScreen() {
       <View style={[styles.header, { backgroundColor: isDark ? colors.headerBackground : '#800080' }]}>
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()}>
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Languages</Text>
+          <Text style={styles.headerTitle}>{t('languages.title')}</Text>
           <Globe size={24} color="white" />
         </View>
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
-          Choose your preferred language for the app interface
+          {t('languages.subtitle')}
         </Text>
 
+        {/* Switching between left-to-right and right-to-left languages needs a reload */}
+        {restartRequired && (
+          <View style={[styles.restartContainer, { backgroundColor: colors.primary + '15', borderColor: colors.primary }]}>
+            <View style={styles.restartText}>
+              <Text style={[styles.restartTitle, { color: colors.text }]}>{t('languages.restartTitle')}</Text>
+              <Text style={[styles.restartMessage, { color: colors.textSecondary }]}>{t('languages.restartMessage')}</Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.restartButton, { backgroundColor: colors.primary }]}
+              onPress={restartForLayoutDirection}
+            >
+              <RotateCcw size={16} color="white" />
+              <Text style={styles.restartButtonText}>{t('languages.restartNow')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         <View style={styles.languagesContainer}>
           {languages.map((language) => (
             <TouchableOpacity
@@ -99,19 +114,16 @@ export default function LanguagesScreen() {
         </View>
 
         <View style={[styles.infoContainer, { backgroundColor: colors.surface }]}>
-          <Text style={[styles.infoTitle, { color: colors.text }]}>Language Support</Text>
+          <Text style={[styles.infoTitle, { color: colors.text }]}>{t('languages.supportTitle')}</Text>
           <Text style={[styles.infoText, { color: colors.textSecondary }]}>
-            • All interface elements will be translated{'\n'}
-            • Video titles and descriptions remain in original language{'\n'}
-            • Support messages will be in your selected language{'\n'}
-            • App restart may be required for full language change
+            {t('languages.supportText')}
           </Text>
         </View>
 
-        <View style={[styles.noteContainer, { backgroundColor: colors.warning + '20', borderLeftColor: colors.warning }]}>
-          <Text style={[styles.noteTitle, { color: colors.warning }]}>📝 Note</Text>
+        <View style={[styles.noteContainer, { backgroundColor: colors.warning + '20', borderStartColor: colors.warning }]}>
+          <Text style={[styles.noteTitle, { color: colors.warning }]}>{t('languages.noteTitle')}</Text>
           <Text style={[styles.noteText, { color: colors.warning }]}>
-            Some languages are still being translated. If you notice any missing translations, please contact our support team.
+            {t('languages.noteText')}
           </Text>
         </View>
       </ScrollView>
@@ -155,6 +167,40 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     lineHeight: 22,
   },
+  restartContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 24,
+  },
+  restartText: {
+    flex: 1,
+  },
+  restartTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  restartMessage: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  restartButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  restartButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   languagesContainer: {
     gap: 12,
     marginBottom: 32,
@@ -223,7 +269,7 @@ const styles = StyleSheet.create({
   noteContainer: {
     borderRadius: 12,
     padding: 16,
-    borderLeftWidth: 4,
+    borderStartWidth: 4,
   },
   noteTitle: {
     fontSize: 16,
@@ -4,6 +4,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { ArrowLeft, Shield, Eye, Lock, Database } from 'lucide-react-native';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 export default function PrivacyPolicyScreen() {
   const { colors, isDark } = useTheme();
@@ -66,7 +67,7 @@ However, no method of transmission over the internet is 100% secure.`
       <View style={[styles.header, { backgroundColor: isDark ? colors.headerBackground : '#800080' }]}>
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()}>
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>Privacy Policy</Text>
           <Shield size={24} color="white" />
@@ -22,6 +22,7 @@ import Animated, {
   withSpring,
   withSequence,
 } from 'react-native-reanimated';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 const isVerySmallScreen = screenWidth < 350;
@@ -140,7 +141,7 @@ export default function RateUsScreen() {
       >
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <ChevronLeft size={24} color="white" />
+            <DirectionalIcon icon={ChevronLeft} size={24} color="white" />
           </TouchableOpacity>
           <Text style={[styles.headerTitle, isVerySmallScreen && styles.headerTitleSmall]}>Rate VidGro</Text>
           <View style={styles.headerIcon}>
@@ -14,6 +14,7 @@ import Animated, {
 import * as Haptics from 'expo-haptics';
 import { useCopyToClipboard } from '@/hooks/useCopyToClipboard';
 import { supabase } from '@/lib/supabase';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 const { width: screenWidth } = Dimensions.get('window');
 const isSmallScreen = screenWidth < 380;
@@ -174,7 +175,7 @@ function ReferFriendScreen() {
       >
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()}>
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>Refer Friends</Text>
           <Share2 size={24} color="white" />
@@ -4,6 +4,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { ArrowLeft, FileText, Scale, Shield, TriangleAlert as AlertTriangle } from 'lucide-react-native';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 export default function TermsScreen() {
   const { colors, isDark } = useTheme();
@@ -66,7 +67,7 @@ Violation of these terms may result in account suspension or termination.`
       <View style={[styles.header, { backgroundColor: isDark ? colors.headerBackground : '#800080' }]}>
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()}>
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>Terms of Service</Text>
           <FileText size={24} color="white" />
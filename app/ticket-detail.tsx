@@ -18,10 +18,11 @@ import {
 } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useFormatting } from '@/hooks/useFormatting';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Send, Paperclip, X, ArrowLeft, Shield, User as UserIcon, FileText, Image as ImageIcon, Download, Check, RefreshCw, CircleAlert as AlertCircle, Clock, MessageSquare, CircleCheck as CheckCircle, Circle as XCircle } from 'lucide-react-native';
-import { getSupabase } from '@/lib/supabase';
+import { getSupabase, callRpc } from '@/lib/supabase';
 import { useCustomAlert } from '@/hooks/useCustomAlert';
 import CustomAlert from '@/components/CustomAlert';
 import * as DocumentPicker from 'expo-document-picker';
@@ -33,6 +34,7 @@ import ReAnimated, {
   withSpring,
   withSequence,
 } from 'react-native-reanimated';
+import DirectionalIcon from '@/components/DirectionalIcon';
 
 const { width: screenWidth } = Dimensions.get('window');
 const isTinyScreen = screenWidth < 350;
@@ -44,6 +46,7 @@ const AnimatedTouchableOpacity = ReAnimated.createAnimatedComponent(TouchableOpa
 function TicketDetailScreen() {
   const { profile, user } = useAuth();
   const { colors, isDark } = useTheme();
+  const { formatTime } = useFormatting();
   const router = useRouter();
   const params = useLocalSearchParams();
   const supabase = getSupabase();
@@ -133,8 +136,7 @@ function TicketDetailScreen() {
       setTicket(ticketData);
 
       // Load conversation
-      const { data: conversationData, error: conversationError } = await supabase
-        .rpc('get_ticket_conversation', { p_ticket_id: params.id });
+      const { data: conversationData, error: conversationError } = await callRpc('get_ticket_conversation', { p_ticket_id: params.id });
 
       if (conversationError) throw conversationError;
       
@@ -230,7 +232,7 @@ function TicketDetailScreen() {
       }
 
       // Add message
-      const { data, error } = await supabase.rpc('add_ticket_message', {
+      const { data, error } = await callRpc('add_ticket_message', {
         p_ticket_id: params.id,
         p_user_id: user.id,
         p_message: newMessage.trim(),
@@ -337,11 +339,7 @@ function TicketDetailScreen() {
     const isAdmin = item.is_admin;
     const isCurrentUser = !isAdmin;
     const messageTime = new Date(item.created_at);
-    const timeString = messageTime.toLocaleTimeString('en-US', { 
-      hour: 'numeric', 
-      minute: '2-digit',
-      hour12: true 
-    });
+    const timeString = formatTime(messageTime);
     const userName = user?.user_metadata?.full_name || user?.email?.split('@')[0] || 'You';
 
     return (
@@ -514,7 +512,7 @@ function TicketDetailScreen() {
               style={styles.backButton}
               onPress={() => router.back()}
             >
-              <ArrowLeft size={24} color="white" />
+              <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
             </TouchableOpacity>
             <Text style={styles.headerTitle}>Loading...</Text>
             <View style={styles.headerSpacer} />
@@ -570,7 +568,7 @@ function TicketDetailScreen() {
             onPress={() => router.back()}
             activeOpacity={0.7}
           >
-            <ArrowLeft size={24} color="white" />
+            <DirectionalIcon icon={ArrowLeft} size={24} color="white" />
           </TouchableOpacity>
           
           <View style={styles.headerTitleContainer}>
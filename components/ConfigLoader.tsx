@@ -3,6 +3,9 @@ import { View, Text, StyleSheet, Alert, TouchableOpacity } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useConfig } from '../contexts/ConfigContext';
 import { Shield, AlertTriangle, RefreshCw } from 'lucide-react-native';
+import MaintenanceScreen from './MaintenanceScreen';
+import UpdateRequiredScreen from './UpdateRequiredScreen';
+import { getAppGate, getInstalledVersion, getUpdateUrl } from '../utils/appVersion';
 
 interface ConfigLoaderProps {
   children: React.ReactNode;
@@ -11,6 +14,8 @@ interface ConfigLoaderProps {
 export default function ConfigLoader({ children }: ConfigLoaderProps) {
   const { config, loading, error, isConfigValid, refreshConfig } = useConfig();
   const [forceRender, setForceRender] = useState(false);
+  // Minimum version whose optional update prompt was dismissed this session
+  const [dismissedUpdate, setDismissedUpdate] = useState<string | null>(null);
 
   // Fast timeout to prevent blocking
   useEffect(() => {
@@ -21,6 +26,25 @@ export default function ConfigLoader({ children }: ConfigLoaderProps) {
     return () => clearTimeout(timeout);
   }, []);
 
+  // Maintenance and update gates apply whenever there is a config, cached or fresh
+  const installedVersion = getInstalledVersion();
+  const gate = getAppGate(config?.app, installedVersion);
+  if (gate?.type === 'maintenance') {
+    return <MaintenanceScreen endsAt={gate.endsAt} message={gate.message} onRetry={refreshConfig} />;
+  }
+  if (gate?.type === 'update' && (gate.required || dismissedUpdate !== gate.minVersion)) {
+    return (
+      <UpdateRequiredScreen
+        required={gate.required}
+        reason={gate.reason}
+        minVersion={gate.minVersion}
+        installedVersion={installedVersion}
+        updateUrl={getUpdateUrl(config?.app)}
+        onDismiss={() => setDismissedUpdate(gate.minVersion)}
+      />
+    );
+  }
+
   // Immediately render if config is ready or timeout reached
   if (forceRender || (config && isConfigValid) || !loading) {
     return <>{children}</>;
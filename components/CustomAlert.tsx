@@ -10,6 +10,7 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
 import { 
   CheckCircle, 
   AlertCircle, 
@@ -56,12 +57,14 @@ export default function CustomAlert({
   type,
   title,
   message,
-  buttons = [{ text: 'OK', style: 'default' }],
+  buttons,
   onClose,
   autoClose = false,
   autoCloseDelay = 3000,
 }: CustomAlertProps) {
   const { colors, isDark } = useTheme();
+  const { t } = useTranslation();
+  const alertButtons: AlertButton[] = buttons ?? [{ text: t('common.ok'), style: 'default' }];
   const scale = useSharedValue(0);
   const opacity = useSharedValue(0);
   const [isAnimating, setIsAnimating] = React.useState(false);
@@ -214,7 +217,7 @@ export default function CustomAlert({
 
               {/* Buttons */}
               <View style={styles.buttonContainer}>
-                {buttons.map((button, index) => (
+                {alertButtons.map((button, index) => (
                   <TouchableOpacity
                     key={index}
                     style={[
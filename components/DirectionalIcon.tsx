@@ -0,0 +1,14 @@
+import React from 'react';
+import type { LucideIcon, LucideProps } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface DirectionalIconProps extends LucideProps {
+  icon: LucideIcon;
+}
+
+// Icons that point along the reading direction (back arrows, chevrons);
+// mirrored when the layout is right-to-left
+export default function DirectionalIcon({ icon: Icon, style, ...props }: DirectionalIconProps) {
+  const { isRTL } = useTranslation();
+  return <Icon {...props} style={[style, isRTL && { transform: [{ scaleX: -1 }] }]} />;
+}
@@ -2,7 +2,10 @@ import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Dimensions, Platform, StatusBar } from 'react-native';
 import { Menu, X, User, Share2, Shield, FileText, Globe, Settings, MessageCircle, HelpCircle, LogOut, Trash2, CreditCard as Edit3 } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePendingCoins } from '@/hooks/usePendingCoins';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useFormatting } from '@/hooks/useFormatting';
 import ThemeToggle from './ThemeToggle';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -37,23 +40,26 @@ export default function GlobalHeader({
   menuVisible, 
   setMenuVisible 
 }: GlobalHeaderProps) {
-  const { profile, signOut } = useAuth();
+  const { user, profile, signOut, refreshProfile } = useAuth();
   const { colors, isDark } = useTheme();
+  const { t, isRTL } = useTranslation();
+  const { formatCoins } = useFormatting();
   const router = useRouter();
+  const pendingCoins = usePendingCoins(user?.id, refreshProfile);
 
   // Animation values
   const menuScale = useSharedValue(1);
   const coinScale = useSharedValue(1);
 
   const sideMenuItems = [
-    { icon: Share2, title: 'Refer a Friend', route: '/refer-friend' },
-    { icon: Shield, title: 'Privacy Policy', route: '/privacy-policy' },
-    { icon: FileText, title: 'Terms of Service', route: '/terms' },
-    { icon: Globe, title: 'Languages', route: '/languages' },
-    { icon: MessageCircle, title: 'Contact Support', route: '/contact-support' },
-    { icon: HelpCircle, title: 'FAQ', route: '/faq' },
-    { icon: LogOut, title: 'Log Out', action: 'logout', color: '#E74C3C' },
-    { icon: Trash2, title: 'Delete Account', route: '/delete-account', color: '#E74C3C' },
+    { icon: Share2, title: t('menu.referFriend'), route: '/refer-friend' },
+    { icon: Shield, title: t('menu.privacyPolicy'), route: '/privacy-policy' },
+    { icon: FileText, title: t('menu.terms'), route: '/terms' },
+    { icon: Globe, title: t('menu.languages'), route: '/languages' },
+    { icon: MessageCircle, title: t('menu.contactSupport'), route: '/contact-support' },
+    { icon: HelpCircle, title: t('menu.faq'), route: '/faq' },
+    { icon: LogOut, title: t('menu.logOut'), action: 'logout', color: '#E74C3C' },
+    { icon: Trash2, title: t('menu.deleteAccount'), route: '/delete-account', color: '#E74C3C' },
   ];
 
   const handleItemPress = async (item: any) => {
@@ -109,7 +115,9 @@ export default function GlobalHeader({
     <View style={[
       styles.sideMenu, 
       { 
-        left: menuVisible ? 0 : -Math.min(300, screenWidth * 0.8), 
+        // Slides in from the reading-start edge
+        start: menuVisible ? 0 : -Math.min(300, screenWidth * 0.8),
+        ...(isRTL && Platform.OS === 'ios' ? { shadowOffset: { width: -4, height: 0 } } : {}),
         backgroundColor: colors.surface,
         width: Math.min(280, screenWidth * 0.85)
       }
@@ -136,7 +144,7 @@ export default function GlobalHeader({
                     fontSize: isTinyScreen ? 14 : isVerySmallScreen ? 16 : isTablet ? 20 : 18
                   }
                 ]} numberOfLines={1}>
-                  {profile?.username || 'User'}
+                  {profile?.username || t('menu.userFallback')}
                 </Text>
                 <Text style={[
                   styles.profileEmail, 
@@ -168,7 +176,7 @@ export default function GlobalHeader({
             <Text style={[styles.themeLabel, { 
               color: colors.text,
               fontSize: isTinyScreen ? 13 : isVerySmallScreen ? 15 : isTablet ? 18 : 16
-            }]}>🌙 Dark Mode</Text>
+            }]}>{t('menu.darkMode')}</Text>
             <ThemeToggle />
           </View>
         </View>
@@ -217,7 +225,7 @@ export default function GlobalHeader({
               fontSize: isTinyScreen ? 11 : isVerySmallScreen ? 13 : isTablet ? 16 : 14
             }
           ]}>
-            Version 1.0.0
+            {t('menu.version', { version: '1.0.0' })}
           </Text>
         </View>
       </View>
@@ -267,8 +275,18 @@ export default function GlobalHeader({
                     styles.coinText,
                     { fontSize: isTinyScreen ? 12 : isVerySmallScreen ? 14 : isTablet ? 18 : 16 }
                   ]}>
-                    {profile.coins.toLocaleString()}
+                    {formatCoins(profile.coins)}
                   </Text>
+                  {pendingCoins > 0 && (
+                    <View style={styles.pendingBadge}>
+                      <Text style={[
+                        styles.pendingText,
+                        { fontSize: isTinyScreen ? 9 : isVerySmallScreen ? 10 : isTablet ? 13 : 11 }
+                      ]}>
+                        +{formatCoins(pendingCoins)} ⏳
+                      </Text>
+                    </View>
+                  )}
                 </LinearGradient>
               </AnimatedTouchableOpacity>
             )}
@@ -377,6 +395,17 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     letterSpacing: 0.3,
   },
+  pendingBadge: {
+    marginLeft: isTinyScreen ? 4 : isVerySmallScreen ? 5 : isTablet ? 8 : 6,
+    paddingHorizontal: isTinyScreen ? 4 : isTablet ? 8 : 6,
+    paddingVertical: isTinyScreen ? 1 : 2,
+    borderRadius: isTablet ? 10 : 8,
+    backgroundColor: 'rgba(243, 156, 18, 0.85)',
+  },
+  pendingText: {
+    color: 'white',
+    fontWeight: '600',
+  },
   sideMenu: {
     position: 'absolute',
     top: 0,
@@ -0,0 +1,127 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Wrench, RefreshCw } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useFormatting } from '@/hooks/useFormatting';
+
+// How often the config is re-fetched while maintenance is on
+const RECHECK_INTERVAL_SECONDS = 30;
+
+interface MaintenanceScreenProps {
+  endsAt: Date | null;
+  message: string | null;
+  onRetry: () => Promise<void>;
+}
+
+const secondsUntil = (date: Date | null) =>
+  date ? Math.ceil((date.getTime() - Date.now()) / 1000) : Infinity;
+
+export default function MaintenanceScreen({ endsAt, message, onRetry }: MaintenanceScreenProps) {
+  const { t } = useTranslation();
+  const { formatTime, formatTimer } = useFormatting();
+  const [checking, setChecking] = useState(false);
+  // Recheck on the interval, or sooner if maintenance is due to end first
+  const nextCheckIn = useCallback(
+    () => Math.max(1, Math.min(RECHECK_INTERVAL_SECONDS, secondsUntil(endsAt))),
+    [endsAt]
+  );
+  const [secondsLeft, setSecondsLeft] = useState(nextCheckIn);
+
+  const retry = useCallback(async () => {
+    setChecking(true);
+    try {
+      await onRetry();
+    } finally {
+      setChecking(false);
+      setSecondsLeft(nextCheckIn());
+    }
+  }, [onRetry, nextCheckIn]);
+
+  useEffect(() => {
+    if (checking) return;
+    if (secondsLeft <= 0) {
+      retry();
+      return;
+    }
+    const timeout = setTimeout(() => setSecondsLeft(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [secondsLeft, checking, retry]);
+
+  return (
+    <LinearGradient colors={['#0F172A', '#1E293B', '#334155']} style={styles.container}>
+      <View style={styles.content}>
+        <Wrench size={48} color="#F59E0B" />
+        <Text style={styles.title}>{t('gate.maintenanceTitle')}</Text>
+        <Text style={styles.message}>{message || t('gate.maintenanceMessage')}</Text>
+        {endsAt && secondsUntil(endsAt) > 0 && (
+          <Text style={styles.detail}>{t('gate.maintenanceEndsAt', { time: formatTime(endsAt) })}</Text>
+        )}
+
+        <TouchableOpacity style={styles.retryButton} onPress={retry} disabled={checking}>
+          {checking ? (
+            <ActivityIndicator size="small" color="#4A90E2" />
+          ) : (
+            <RefreshCw size={16} color="#4A90E2" />
+          )}
+          <Text style={styles.retryText}>{checking ? t('gate.checking') : t('gate.retryNow')}</Text>
+        </TouchableOpacity>
+        {!checking && (
+          <Text style={styles.countdown}>{t('gate.checkingIn', { time: formatTimer(secondsLeft) })}</Text>
+        )}
+      </View>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#F59E0B',
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  message: {
+    fontSize: 16,
+    color: '#B8C5D6',
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 12,
+  },
+  detail: {
+    fontSize: 14,
+    color: '#94A3B8',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(74, 144, 226, 0.2)',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+    gap: 8,
+    marginTop: 20,
+  },
+  retryText: {
+    color: '#4A90E2',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  countdown: {
+    fontSize: 13,
+    color: '#64748B',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ActivityIndicator } from 'react-native';
+import { Flag, X } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { VIEWER_REPORT_REASONS } from '@/utils/videoReports';
+import type { ReportReason } from '@/utils/videoReports';
+
+interface ReportVideoModalProps {
+  visible: boolean;
+  videoTitle?: string;
+  onSubmit: (reason: ReportReason) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function ReportVideoModal({ visible, videoTitle, onSubmit, onClose }: ReportVideoModalProps) {
+  const { colors } = useTheme();
+  const [selectedReason, setSelectedReason] = useState<ReportReason | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setSelectedReason(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (!selectedReason || submitting) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(selectedReason);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.overlay, { backgroundColor: colors.overlay }]}>
+        <View style={[styles.sheet, { backgroundColor: colors.surface }]}>
+          <View style={styles.header}>
+            <Flag size={20} color={colors.error} />
+            <Text style={[styles.title, { color: colors.text }]}>Report Video</Text>
+            <TouchableOpacity onPress={onClose} disabled={submitting}>
+              <X size={22} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {videoTitle ? (
+            <Text style={[styles.videoTitle, { color: colors.textSecondary }]} numberOfLines={2}>
+              {videoTitle}
+            </Text>
+          ) : null}
+
+          {VIEWER_REPORT_REASONS.map(option => {
+            const selected = selectedReason === option.reason;
+            return (
+              <TouchableOpacity
+                key={option.reason}
+                style={[
+                  styles.reason,
+                  { borderColor: selected ? colors.primary : colors.border },
+                  selected && { backgroundColor: colors.primary + '15' },
+                ]}
+                onPress={() => setSelectedReason(option.reason)}
+                disabled={submitting}
+              >
+                <Text style={[styles.reasonLabel, { color: colors.text }]}>{option.label}</Text>
+                <Text style={[styles.reasonDescription, { color: colors.textSecondary }]}>{option.description}</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              { backgroundColor: colors.error },
+              (!selectedReason || submitting) && styles.submitButtonDisabled,
+            ]}
+            onPress={handleSubmit}
+            disabled={!selectedReason || submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.submitButtonText}>Report and Skip</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  sheet: {
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  videoTitle: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  reason: {
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 8,
+  },
+  reasonLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  reasonDescription: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  submitButton: {
+    marginTop: 8,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,117 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Linking } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Download } from 'lucide-react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface UpdateRequiredScreenProps {
+  required: boolean;
+  reason: 'min_version' | 'api_version';
+  minVersion: string | null;
+  installedVersion: string | null;
+  updateUrl: string | null;
+  onDismiss: () => void; // only offered when the update is optional
+}
+
+export default function UpdateRequiredScreen({
+  required,
+  reason,
+  minVersion,
+  installedVersion,
+  updateUrl,
+  onDismiss,
+}: UpdateRequiredScreenProps) {
+  const { t } = useTranslation();
+
+  const message =
+    reason === 'api_version'
+      ? t('gate.apiUpdateMessage')
+      : t(required ? 'gate.updateRequiredMessage' : 'gate.updateMessage', { version: minVersion ?? '' });
+
+  const openStore = () => {
+    if (!updateUrl) return;
+    Linking.openURL(updateUrl).catch(error => {
+      console.error('Error opening store listing:', error);
+    });
+  };
+
+  return (
+    <LinearGradient colors={['#0F172A', '#1E293B', '#334155']} style={styles.container}>
+      <View style={styles.content}>
+        <Download size={48} color="#4A90E2" />
+        <Text style={styles.title}>{t(required ? 'gate.updateRequiredTitle' : 'gate.updateTitle')}</Text>
+        <Text style={styles.message}>{message}</Text>
+        {installedVersion && (
+          <Text style={styles.detail}>{t('gate.installedVersion', { version: installedVersion })}</Text>
+        )}
+
+        {updateUrl ? (
+          <TouchableOpacity style={styles.updateButton} onPress={openStore}>
+            <Text style={styles.updateText}>{t('gate.updateNow')}</Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.detail}>{t('gate.updateFromStore')}</Text>
+        )}
+        {!required && (
+          <TouchableOpacity style={styles.laterButton} onPress={onDismiss}>
+            <Text style={styles.laterText}>{t('gate.later')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  message: {
+    fontSize: 16,
+    color: '#B8C5D6',
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 12,
+  },
+  detail: {
+    fontSize: 14,
+    color: '#94A3B8',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  updateButton: {
+    backgroundColor: '#4A90E2',
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 20,
+  },
+  updateText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  laterButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  laterText: {
+    color: '#94A3B8',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
@@ -3,6 +3,10 @@ import { View, Text, StyleSheet, Alert, Image, TouchableOpacity, Platform } from
 import { WebView } from 'react-native-webview';
 import { Play, CircleAlert as AlertCircle, CircleCheck as CheckCircle, Clock, RefreshCw } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
+import { createBridgeScript, parseBridgeMessage, reportBridgeError, PREVIEW_EVENT_SCHEMAS } from '@/utils/playerBridge';
+import VideoMetadataService from '@/services/VideoMetadataService';
+import { formatVideoLength, getPromotionBlocker } from '@/utils/videoMetadata';
+import type { VideoMetadata } from '@/utils/videoMetadata';
 
 interface VideoData {
   id: string;
@@ -19,6 +23,7 @@ interface VideoPreviewProps {
   youtubeUrl: string;
   onValidation: (isValid: boolean, title?: string, videoId?: string) => void;
   onTitleDetected: (title: string) => void;
+  onMetadata?: (metadata: VideoMetadata | null) => void;
   collapsed?: boolean;
 }
 
@@ -77,6 +82,7 @@ const fetchVideoData = async (
   setEmbedabilityTested: (tested: boolean) => void,
   setRetryCount: (count: number) => void,
   setLoadingTimeout: (timeout: boolean) => void,
+  setMetadata: (metadata: VideoMetadata | null) => void,
   showToast: (message: string) => void,
   title: string
 ) => {
@@ -91,6 +97,7 @@ const fetchVideoData = async (
   setEmbedabilityTested(false);
   setRetryCount(0);
   setLoadingTimeout(false);
+  setMetadata(null);
 
   try {
     const videoId = extractVideoId(youtubeUrl);
@@ -98,19 +105,27 @@ const fetchVideoData = async (
       throw new Error('Invalid YouTube URL format');
     }
 
-    try {
-      const oEmbedResponse = await fetch(
-        `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`
-      );
-      if (oEmbedResponse.ok) {
-        const oEmbedData = await oEmbedResponse.json();
-        if (oEmbedData.title && !title) {
-          setTitle(oEmbedData.title);
-          showToast(`Title auto-filled: ${oEmbedData.title}`);
-        }
-      }
-    } catch (oEmbedError) {
-      // Removed console.log statement
+    const metadata = await VideoMetadataService.getInstance().resolve(videoId);
+    setMetadata(metadata);
+    if (metadata?.title && !title) {
+      setTitle(metadata.title);
+      showToast(`Title auto-filled: ${metadata.title}`);
+    }
+
+    // Known to be unplayable in the app, so don't bother testing the embed
+    const blocker = metadata ? getPromotionBlocker(metadata) : null;
+    if (metadata && blocker) {
+      setError(blocker);
+      setVideoData({
+        id: videoId,
+        embedUrl: `https://www.youtube.com/embed/${videoId}`,
+        thumbnail: metadata.thumbnailUrl,
+        embeddable: false,
+        originalUrl: youtubeUrl,
+        isLive: metadata.isLive,
+      });
+      setEmbedabilityTested(true);
+      return;
     }
 
     const processedVideoData: VideoData = {
@@ -179,6 +194,7 @@ const createIframeHTML = (embedUrl: string, videoData: VideoData | null, retryCo
       <div id="error" class="error" style="display: none;"></div>
       <div id="player"></div>
       
+      <script>${createBridgeScript()}</script>
       <script>
         // Removed console.log statements
         var player;
@@ -198,10 +214,9 @@ const createIframeHTML = (embedUrl: string, videoData: VideoData | null, retryCo
             document.getElementById('error').style.display = 'block';
             document.getElementById('error').textContent = 'Video loading timeout. May not be embeddable.';
             
-            window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-              type: 'LOADING_TIMEOUT',
+            window.VidGroBridge.send('LOADING_TIMEOUT', {
               message: 'Loading timeout after ${loadingTimeoutDuration}ms'
-            }));
+            });
           }
         }, ${loadingTimeoutDuration});
 
@@ -215,10 +230,9 @@ const createIframeHTML = (embedUrl: string, videoData: VideoData | null, retryCo
           document.getElementById('error').style.display = 'block';
           document.getElementById('error').textContent = 'Failed to load YouTube API';
           
-          window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-            type: 'API_LOAD_ERROR',
+          window.VidGroBridge.send('API_LOAD_ERROR', {
             message: 'Failed to load YouTube IFrame API'
-          }));
+          });
         };
         
         var firstScriptTag = document.getElementsByTagName('script')[0];
@@ -263,10 +277,9 @@ const createIframeHTML = (embedUrl: string, videoData: VideoData | null, retryCo
             document.getElementById('error').style.display = 'block';
             document.getElementById('error').textContent = 'Failed to initialize player';
             
-            window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-              type: 'PLAYER_INIT_ERROR',
+            window.VidGroBridge.send('PLAYER_INIT_ERROR', {
               message: 'Failed to initialize YouTube player'
-            }));
+            });
           }
         }
 
@@ -280,10 +293,9 @@ const createIframeHTML = (embedUrl: string, videoData: VideoData | null, retryCo
           isPlayerReady = true;
           document.getElementById('loading').style.display = 'none';
           
-          window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-            type: 'PLAYER_READY',
+          window.VidGroBridge.send('PLAYER_READY', {
             videoId: '${videoData?.id}'
-          }));
+          });
           
           setTimeout(function() {
             if (player && player.playVideo && isPlayerReady && !hasError) {
@@ -322,10 +334,9 @@ const createIframeHTML = (embedUrl: string, videoData: VideoData | null, retryCo
                   if (videoData && videoData.isLive) {
                     isLiveVideo = true;
                     // Removed console.log statement
-                    window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-                      type: 'LIVE_VIDEO_DETECTED',
+                    window.VidGroBridge.send('LIVE_VIDEO_DETECTED', {
                       message: 'Live videos are not supported'
-                    }));
+                    });
                     return;
                   }
                 } catch (error) {
@@ -342,18 +353,16 @@ const createIframeHTML = (embedUrl: string, videoData: VideoData | null, retryCo
               detectTitle();
             }, 2000);
             
-            window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-              type: 'PLAYBACK_SUCCESS',
+            window.VidGroBridge.send('PLAYBACK_SUCCESS', {
               embeddable: true,
               state: state,
               stateName: stateNames[state]
-            }));
+            });
           } else if (state === 2) {
-            window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-              type: 'STATE_CHANGE',
+            window.VidGroBridge.send('STATE_CHANGE', {
               state: state,
               stateName: stateNames[state]
-            }));
+            });
           }
         }
 
@@ -378,21 +387,19 @@ const createIframeHTML = (embedUrl: string, videoData: VideoData | null, retryCo
           if ((event.data === 5 || !event.data) && retryAttempt < maxRetries) {
             // Removed console.log statement
             setTimeout(function() {
-              window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-                type: 'RETRY_NEEDED',
+              window.VidGroBridge.send('RETRY_NEEDED', {
                 error: event.data,
                 message: errorMessage,
                 retryAttempt: retryAttempt + 1
-              }));
+              });
             }, 2000);
           } else {
-            window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-              type: 'PLAYBACK_FAILED',
+            window.VidGroBridge.send('PLAYBACK_FAILED', {
               embeddable: false,
               error: event.data,
               message: errorMessage,
               isEmbeddingError: event.data === 101 || event.data === 150
-            }));
+            });
           }
         }
         
@@ -421,32 +428,29 @@ const createIframeHTML = (embedUrl: string, videoData: VideoData | null, retryCo
             
             // Removed console.log statement
             
-            window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-              type: 'TITLE_DETECTED',
+            window.VidGroBridge.send('TITLE_DETECTED', {
               title: detectedTitle,
               success: true
-            }));
+            });
             
           } catch (error) {
             // Removed console.log statement
             var fallbackTitle = 'Video ${videoData?.id || 'Unknown'}';
             
-            window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-              type: 'TITLE_DETECTED',
+            window.VidGroBridge.send('TITLE_DETECTED', {
               title: fallbackTitle,
               success: false,
               message: 'Used fallback title'
-            }));
+            });
           }
         }
         
         window.onerror = function(msg, url, lineNo, columnNo, error) {
           // Removed console.log statement
           hasError = true;
-          window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({
-            type: 'PAGE_ERROR',
+          window.VidGroBridge.send('PAGE_ERROR', {
             message: 'Page error: ' + msg
-          }));
+          });
           return true;
         };
       </script>
@@ -471,10 +475,14 @@ const handleWebViewMessage = (
   title: string
 ) => {
   try {
-    const data = JSON.parse(event.nativeEvent.data);
-    // Removed console.log statement
+    const result = parseBridgeMessage(event.nativeEvent.data, PREVIEW_EVENT_SCHEMAS);
+    if (!result.ok) {
+      reportBridgeError(result.error);
+      return;
+    }
+    const { type, payload: data } = result.message;
     
-    switch (data.type) {
+    switch (type) {
       case 'PLAYER_READY':
         setIframeLoaded(true);
         setLoadingTimeout(false);
@@ -563,7 +571,7 @@ const handleWebViewMessage = (
   }
 };
 
-export default function VideoPreview({ youtubeUrl, onValidation, onTitleDetected, collapsed = false }: VideoPreviewProps) {
+export default function VideoPreview({ youtubeUrl, onValidation, onTitleDetected, onMetadata, collapsed = false }: VideoPreviewProps) {
   const { colors, isDark } = useTheme();
   const [videoData, setVideoData] = useState<VideoData | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -574,6 +582,7 @@ export default function VideoPreview({ youtubeUrl, onValidation, onTitleDetected
   const [loadingTimeout, setLoadingTimeout] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [title, setTitle] = useState('');
+  const [metadata, setMetadata] = useState<VideoMetadata | null>(null);
 
   const maxRetries = 3;
   const loadingTimeoutDuration = 8000;
@@ -593,12 +602,17 @@ export default function VideoPreview({ youtubeUrl, onValidation, onTitleDetected
         setEmbedabilityTested,
         setRetryCount,
         setLoadingTimeout,
+        setMetadata,
         showToast,
         title
       );
     }
   }, [youtubeUrl]);
 
+  useEffect(() => {
+    onMetadata?.(metadata);
+  }, [metadata, onMetadata]);
+
   useEffect(() => {
     if (videoData) {
       onValidation(videoData.embeddable, videoData.autoDetectedTitle, videoData.id);
@@ -707,6 +721,16 @@ export default function VideoPreview({ youtubeUrl, onValidation, onTitleDetected
             <Text style={[styles.videoTitle, { color: colors.text }]} numberOfLines={2}>
               {videoData.autoDetectedTitle || title || 'Loading title...'}
             </Text>
+
+            {metadata && (metadata.channelTitle || metadata.durationSeconds) ? (
+              <Text style={[styles.videoDetails, { color: colors.textSecondary }]} numberOfLines={1}>
+                {[
+                  metadata.channelTitle,
+                  formatVideoLength(metadata.durationSeconds),
+                  metadata.isShort ? 'Short' : null,
+                ].filter(Boolean).join(' · ')}
+              </Text>
+            ) : null}
             
             <View style={styles.statusRow}>
               {embedabilityTested ? (
@@ -814,6 +838,11 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     marginBottom: 12,
   },
+  videoDetails: {
+    fontSize: 13,
+    marginTop: -6,
+    marginBottom: 12,
+  },
   statusRow: {
     flexDirection: 'row',
     alignItems: 'center',
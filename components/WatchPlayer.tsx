@@ -0,0 +1,515 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { StyleProp, StyleSheet, ViewStyle } from 'react-native';
+import { WebView } from 'react-native-webview';
+import {
+  createPlayerBridge,
+  createBridgeScript,
+  PLAYER_COMMAND_SCHEMAS,
+  PlayerCommandAck,
+  PlayerCommandType,
+  PlayerEvent,
+} from '@/utils/playerBridge';
+
+export interface WatchPlayerProps {
+  youtubeVideoId: string;
+  onEvent: (event: PlayerEvent) => void;
+  onLoadError?: (reason: string) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+export interface WatchPlayerHandle {
+  send: (type: PlayerCommandType) => Promise<PlayerCommandAck>;
+}
+
+// Player HTML: the YouTube iframe behind a security overlay, talking to React Native via the bridge
+const createHtmlContent = (youtubeVideoId: string) => {
+  const bridgeScript = createBridgeScript(PLAYER_COMMAND_SCHEMAS);
+
+  // Simple validation - just check if we have a video ID
+  if (!youtubeVideoId) {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head><meta name="viewport" content="width=device-width, initial-scale=1.0"></head>
+      <body style="background: #000; margin: 0; padding: 0;">
+        <div style="color: white; text-align: center; padding: 50px;">Video unavailable</div>
+        <script>${bridgeScript}</script>
+        <script>
+          window.VidGroBridge.send('videoUnavailable');
+        </script>
+      </body>
+      </html>
+    `;
+  }
+  
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no">
+      <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { 
+          background: #000; 
+          overflow: hidden; 
+          position: fixed; 
+          width: 100%; 
+          height: 100%; 
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+        
+        #video-container {
+          position: relative;
+          width: 100%;
+          height: 100%;
+        }
+        
+        #youtube-player { 
+          width: 100%; 
+          height: 100%; 
+          border: none; 
+          pointer-events: none;
+        }
+        
+        #security-overlay {
+          position: absolute;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background: transparent;
+          z-index: 1000;
+          cursor: pointer;
+        }
+        
+        #play-pause-button {
+          position: absolute;
+          top: 50%;
+          left: 50%;
+          transform: translate(-50%, -50%);
+          width: 68px;
+          height: 48px;
+          background: rgba(0, 0, 0, 0.8);
+          border-radius: 6px;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          cursor: pointer;
+          z-index: 1001;
+          opacity: 0.9;
+          transition: opacity 0.3s ease;
+          pointer-events: auto;
+        }
+        
+        .play-icon {
+          width: 0;
+          height: 0;
+          border-left: 16px solid #fff;
+          border-top: 11px solid transparent;
+          border-bottom: 11px solid transparent;
+          margin-left: 3px;
+        }
+        
+        .pause-icon {
+          width: 14px;
+          height: 18px;
+          position: relative;
+        }
+        
+        .pause-icon::before,
+        .pause-icon::after {
+          content: '';
+          position: absolute;
+          width: 4px;
+          height: 18px;
+          background: #fff;
+          border-radius: 1px;
+        }
+        
+        .pause-icon::before { left: 2px; }
+        .pause-icon::after { right: 2px; }
+        
+        .playing #play-pause-button {
+          opacity: 0;
+          pointer-events: none;
+        }
+        
+        .paused #play-pause-button {
+          opacity: 0.9;
+          pointer-events: auto;
+        }
+        
+        .timer-complete #play-pause-button {
+          opacity: 0;
+          pointer-events: none;
+        }
+      </style>
+    </head>
+    <body>
+      <div id="video-container" class="paused">
+        <iframe
+          id="youtube-player"
+          src="https://www.youtube.com/embed/${youtubeVideoId}?autoplay=1&controls=0&rel=0&modestbranding=1&playsinline=1&disablekb=1&fs=0&iv_load_policy=3&cc_load_policy=0&showinfo=0&theme=dark&enablejsapi=1&mute=0&loop=0"
+          allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+          allowfullscreen
+          frameborder="0"
+          scrolling="no">
+        </iframe>
+        
+        <div id="security-overlay"></div>
+        <div id="play-pause-button"><div class="play-icon"></div></div>
+      </div>
+      
+      <script>${bridgeScript}</script>
+      <script>
+        (function() {
+          'use strict';
+          
+          const bridge = window.VidGroBridge;
+          let player = null;
+          let timerCompleted = false;
+          let playerReady = false;
+          let isPlaying = false;
+          
+          console.log('🌐 WebView JavaScript loaded and ready');
+          
+          bridge.send('webViewReady');
+          console.log('📡 Sent webViewReady message to React Native');
+          
+          let videoUnavailable = false;
+          
+          const securityOverlay = document.getElementById('security-overlay');
+          const playPauseButton = document.getElementById('play-pause-button');
+          const videoContainer = document.getElementById('video-container');
+          
+          function markVideoUnavailable(errorCode) {
+            if (videoUnavailable) return;
+            console.log('🚨 Marking video as unavailable');
+            videoUnavailable = true;
+            notifyReactNative('videoUnavailable', errorCode ? { errorCode } : {});
+          }
+          
+          function notifyReactNative(type, payload = {}) {
+            console.log('📤 Sending to React Native:', type, payload);
+            bridge.send(type, payload);
+          }
+          
+          function checkIframeAvailability() {
+            const iframe = document.getElementById('youtube-player');
+            console.log('🔍 Checking iframe availability:', {
+              hasIframe: !!iframe,
+              iframeSrc: iframe?.src || 'none',
+              iframeLoaded: iframe?.contentWindow ? 'yes' : 'no'
+            });
+            
+            if (!iframe) {
+              console.log('❌ No iframe found');
+              markVideoUnavailable();
+              return;
+            }
+            
+            if (!iframe.src) {
+              console.log('❌ Iframe has no src');
+              markVideoUnavailable();
+              return;
+            }
+            
+            console.log('✅ Iframe looks good, setting up error handler');
+            iframe.onerror = () => {
+              console.log('❌ Iframe onerror triggered');
+              markVideoUnavailable();
+            };
+            
+            // Give iframe time to load before checking
+            setTimeout(() => {
+              if (!videoUnavailable && !playerReady) {
+                console.log('⏰ Iframe load check after 5s - player not ready yet');
+                // Don't mark as unavailable immediately, let YouTube API try to load
+              }
+            }, 5000);
+          }
+          
+          checkIframeAvailability();
+          
+          bridge.onCommand(function(type) {
+            console.log('📨 WebView received command:', type);
+            
+            if (type === 'playVideo') {
+              console.log('📊 WebView state:', {
+                playerReady: playerReady,
+                hasPlayer: !!player,
+                timerCompleted: timerCompleted
+              });
+              
+              if (playerReady && player && !timerCompleted) {
+                console.log('✅ All conditions met, calling player.playVideo()');
+                player.playVideo();
+                // Immediately update overlay state
+                updatePlayerState(true);
+                // Notify React Native
+                notifyReactNative('videoPlaying');
+              } else {
+                console.log('❌ Cannot play video - player not ready yet');
+                // Store the play request to execute when player is ready
+                window.pendingPlayRequest = true;
+              }
+            }
+            
+            if (type === 'pauseVideo') {
+              if (playerReady && player) {
+                player.pauseVideo();
+                // Immediately update overlay state
+                updatePlayerState(false);
+              }
+            }
+            
+            if (type === 'timerComplete') {
+              timerCompleted = true;
+              forceVideoPause();
+            }
+          });
+          
+          if (!window.YT) {
+            console.log('📦 Loading YouTube API script');
+            const tag = document.createElement('script');
+            tag.src = 'https://www.youtube.com/iframe_api';
+            tag.onerror = () => {
+              console.log('❌ YouTube API script failed to load');
+              markVideoUnavailable();
+            };
+            tag.onload = () => {
+              console.log('✅ YouTube API script loaded');
+            };
+            
+            const firstScriptTag = document.getElementsByTagName('script')[0];
+            firstScriptTag.parentNode.insertBefore(tag, firstScriptTag);
+          } else {
+            console.log('✅ YouTube API already available');
+            window.onYouTubeIframeAPIReady();
+          }
+          
+          window.onYouTubeIframeAPIReady = function() {
+            if (videoUnavailable) return;
+            
+            console.log('🚀 YouTube API ready, initializing player');
+            
+            try {
+              player = new YT.Player('youtube-player', {
+                events: {
+                  'onReady': onPlayerReady,
+                  'onStateChange': onPlayerStateChange,
+                  'onError': onPlayerError
+                }
+              });
+              console.log('✅ YouTube player created successfully');
+            } catch (e) {
+              console.log('❌ Error creating YouTube player:', e);
+              markVideoUnavailable();
+            }
+          };
+          
+          function onPlayerReady(event) {
+            if (videoUnavailable) return;
+            
+            console.log('🎬 YouTube player ready event triggered');
+            playerReady = true;
+            
+            try {
+              const videoData = event.target.getVideoData();
+              console.log('📊 Video data:', videoData);
+              
+              // Be more lenient with video data validation
+              if (!videoData) {
+                console.log('❌ No video data available');
+                markVideoUnavailable();
+                return;
+              }
+              
+              // Check if there's a pending play request
+              if (window.pendingPlayRequest) {
+                console.log('🎯 Executing pending play request');
+                event.target.playVideo();
+                window.pendingPlayRequest = false;
+                // Update overlay state immediately
+                updatePlayerState(true);
+                notifyReactNative('videoPlaying');
+              }
+              
+              console.log('✅ Video loaded successfully');
+              notifyReactNative('videoLoaded');
+              
+            } catch (e) {
+              console.log('❌ Error in onPlayerReady:', e);
+              markVideoUnavailable();
+            }
+          }
+          
+          function onPlayerStateChange(event) {
+            if (event.data === YT.PlayerState.PLAYING) {
+              console.log('🎬 YouTube player state: PLAYING');
+              updatePlayerState(true);
+              notifyReactNative('videoPlaying');
+              
+              // Execute pending play request if any
+              if (window.pendingPlayRequest) {
+                window.pendingPlayRequest = false;
+              }
+            } else if (event.data === YT.PlayerState.PAUSED) {
+              console.log('⏸️ YouTube player state: PAUSED');
+              updatePlayerState(false);
+              notifyReactNative('videoPaused');
+            } else if (event.data === YT.PlayerState.ENDED) {
+              console.log('🏁 YouTube player state: ENDED');
+              updatePlayerState(false);
+              notifyReactNative('videoEnded');
+            }
+          }
+          
+          function onPlayerError(event) {
+            const errorCode = event.data;
+            const unavailableErrors = [2, 5, 100, 101, 150];
+            
+            if (unavailableErrors.includes(errorCode)) {
+              markVideoUnavailable(errorCode);
+            } else {
+              notifyReactNative('videoError', { errorCode });
+            }
+          }
+          
+          function updatePlayerState(playing) {
+            isPlaying = playing;
+            const icon = playPauseButton.querySelector('.play-icon, .pause-icon');
+            
+            if (playing) {
+              icon.className = 'pause-icon';
+              videoContainer.classList.add('playing');
+              videoContainer.classList.remove('paused');
+            } else {
+              icon.className = 'play-icon';
+              videoContainer.classList.add('paused');
+              videoContainer.classList.remove('playing');
+            }
+          }
+          
+          function togglePlayPause() {
+            if (!playerReady || !player || timerCompleted || videoUnavailable) return;
+            
+            try {
+              if (isPlaying) {
+                player.pauseVideo();
+              } else {
+                player.playVideo();
+              }
+            } catch (e) {
+              // Silent error handling
+            }
+          }
+          
+          function forceVideoPause() {
+            if (playerReady && player) {
+              try {
+                player.pauseVideo();
+                videoContainer.classList.add('timer-complete');
+              } catch (e) {
+                // Silent error handling
+              }
+            }
+          }
+          
+          playPauseButton.addEventListener('click', function(e) {
+            e.stopPropagation();
+            togglePlayPause();
+          });
+          
+          securityOverlay.addEventListener('click', function(e) {
+            e.preventDefault();
+            e.stopPropagation();
+            if (!timerCompleted) togglePlayPause();
+          });
+          
+          document.addEventListener('contextmenu', e => e.preventDefault());
+          document.addEventListener('selectstart', e => e.preventDefault());
+          
+          document.addEventListener('keydown', function(e) {
+            if (timerCompleted) {
+              e.preventDefault();
+              return false;
+            }
+            
+            if (e.code === 'Space') {
+              e.preventDefault();
+              togglePlayPause();
+              return false;
+            }
+            
+            if (e.ctrlKey || e.metaKey || e.altKey) {
+              e.preventDefault();
+              return false;
+            }
+          });
+        })();
+      </script>
+    </body>
+    </html>
+  `;
+};
+
+// Native watch player: renders the player HTML in a WebView and exchanges
+// typed bridge messages with it
+const WatchPlayer = forwardRef<WatchPlayerHandle, WatchPlayerProps>(function WatchPlayer(
+  { youtubeVideoId, onEvent, onLoadError, style },
+  ref
+) {
+  const webViewRef = useRef<WebView>(null);
+  const [bridge] = useState(() => createPlayerBridge({
+    inject: javascript => webViewRef.current?.injectJavaScript(javascript),
+  }));
+
+  useImperativeHandle(ref, () => ({
+    send: type => bridge.send(type),
+  }), [bridge]);
+
+  useEffect(() => () => bridge.dispose(), [bridge]);
+
+  // Memoize HTML content to prevent unnecessary regeneration
+  const htmlContent = useMemo(() => {
+    console.log('🎬 Creating HTML content for video ID:', youtubeVideoId);
+    return createHtmlContent(youtubeVideoId);
+  }, [youtubeVideoId]);
+
+  const handleMessage = (event: any) => {
+    const message = bridge.receive(event.nativeEvent.data);
+    if (message) {
+      onEvent(message);
+    }
+  };
+
+  return (
+    <WebView
+      ref={webViewRef}
+      source={{ html: htmlContent }}
+      style={[styles.webView, style]}
+      onMessage={handleMessage}
+      javaScriptEnabled={true}
+      domStorageEnabled={true}
+      allowsInlineMediaPlayback={true}
+      mediaPlaybackRequiresUserAction={false}
+      scrollEnabled={false}
+      bounces={false}
+      cacheEnabled={true}
+      cacheMode="LOAD_DEFAULT"
+      onError={() => onLoadError?.('webViewError')}
+      onHttpError={() => onLoadError?.('httpError')}
+      startInLoadingState={false}
+      renderLoading={() => <></>}
+    />
+  );
+});
+
+export default WatchPlayer;
+
+const styles = StyleSheet.create({
+  webView: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,206 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { StyleSheet, View } from 'react-native';
+import {
+  BRIDGE_PROTOCOL_VERSION,
+  createMessageId,
+  PlayerEvent,
+  PlayerEventMap,
+} from '@/utils/playerBridge';
+import type { WatchPlayerHandle, WatchPlayerProps } from './WatchPlayer';
+
+declare global {
+  interface Window {
+    YT?: any;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+// YouTube error codes that mean the video can never play in an embed
+const UNAVAILABLE_ERRORS = [2, 5, 100, 101, 150];
+
+let youTubeApiPromise: Promise<any> | null = null;
+
+const loadYouTubeApi = (): Promise<any> => {
+  if (window.YT?.Player) {
+    return Promise.resolve(window.YT);
+  }
+
+  if (!youTubeApiPromise) {
+    youTubeApiPromise = new Promise((resolve, reject) => {
+      const previousReady = window.onYouTubeIframeAPIReady;
+      window.onYouTubeIframeAPIReady = () => {
+        previousReady?.();
+        resolve(window.YT);
+      };
+
+      const tag = document.createElement('script');
+      tag.src = 'https://www.youtube.com/iframe_api';
+      tag.onerror = () => {
+        youTubeApiPromise = null;
+        reject(new Error('Failed to load YouTube IFrame API'));
+      };
+      document.head.appendChild(tag);
+    });
+  }
+
+  return youTubeApiPromise;
+};
+
+// Web watch player: embeds the YouTube IFrame API directly (react-native-webview does not
+// run in the browser) and emits the same bridge events as the native player
+const WatchPlayer = forwardRef<WatchPlayerHandle, WatchPlayerProps>(function WatchPlayer(
+  { youtubeVideoId, onEvent, style },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<any>(null);
+  const playerReadyRef = useRef(false);
+  const pendingPlayRef = useRef(false);
+  const timerCompletedRef = useRef(false);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const emit = <K extends keyof PlayerEventMap>(type: K, payload: PlayerEventMap[K]) => {
+    onEventRef.current({
+      v: BRIDGE_PROTOCOL_VERSION,
+      id: createMessageId('web'),
+      type,
+      payload,
+    } as PlayerEvent);
+  };
+
+  useImperativeHandle(ref, () => ({
+    send: async type => {
+      const player = playerRef.current;
+      try {
+        switch (type) {
+          case 'playVideo':
+            if (playerReadyRef.current && player && !timerCompletedRef.current) {
+              player.playVideo();
+            } else {
+              pendingPlayRef.current = true;
+            }
+            break;
+          case 'pauseVideo':
+            if (playerReadyRef.current && player) {
+              player.pauseVideo();
+            }
+            break;
+          case 'timerComplete':
+            timerCompletedRef.current = true;
+            if (playerReadyRef.current && player) {
+              player.pauseVideo();
+            }
+            break;
+        }
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    },
+  }), []);
+
+  useEffect(() => {
+    if (!youtubeVideoId) {
+      emit('videoUnavailable', {});
+      return;
+    }
+
+    let disposed = false;
+    const container = containerRef.current;
+    emit('webViewReady', {});
+
+    loadYouTubeApi()
+      .then(YT => {
+        if (disposed || !container) return;
+
+        // YT.Player replaces its target element, so give it a child of our container
+        const target = document.createElement('div');
+        container.appendChild(target);
+
+        playerRef.current = new YT.Player(target, {
+          width: '100%',
+          height: '100%',
+          videoId: youtubeVideoId,
+          playerVars: {
+            autoplay: 1,
+            controls: 0,
+            rel: 0,
+            modestbranding: 1,
+            playsinline: 1,
+            disablekb: 1,
+            fs: 0,
+            iv_load_policy: 3,
+            origin: window.location.origin,
+          },
+          events: {
+            onReady: () => {
+              if (disposed) return;
+              playerReadyRef.current = true;
+              emit('videoLoaded', {});
+
+              if (pendingPlayRef.current && !timerCompletedRef.current) {
+                pendingPlayRef.current = false;
+                playerRef.current?.playVideo();
+              }
+            },
+            onStateChange: (event: any) => {
+              if (disposed) return;
+              if (event.data === YT.PlayerState.PLAYING) {
+                emit('videoPlaying', {});
+              } else if (event.data === YT.PlayerState.PAUSED) {
+                emit('videoPaused', {});
+              } else if (event.data === YT.PlayerState.ENDED) {
+                emit('videoEnded', {});
+              }
+            },
+            onError: (event: any) => {
+              if (disposed) return;
+              if (UNAVAILABLE_ERRORS.includes(event.data)) {
+                emit('videoUnavailable', { errorCode: event.data });
+              } else {
+                emit('videoError', { errorCode: event.data });
+              }
+            },
+          },
+        });
+      })
+      .catch(error => {
+        console.log('❌ YouTube API script failed to load:', error);
+        if (!disposed) {
+          emit('videoUnavailable', {});
+        }
+      });
+
+    return () => {
+      disposed = true;
+      playerReadyRef.current = false;
+      pendingPlayRef.current = false;
+      timerCompletedRef.current = false;
+      try {
+        playerRef.current?.destroy();
+      } catch {
+        // Player may not have finished initializing
+      }
+      playerRef.current = null;
+      if (container) {
+        container.innerHTML = '';
+      }
+    };
+  }, [youtubeVideoId]);
+
+  return (
+    <View style={[styles.container, style]}>
+      <div ref={containerRef} style={{ width: '100%', height: '100%' }} />
+    </View>
+  );
+});
+
+export default WatchPlayer;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+});
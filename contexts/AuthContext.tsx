@@ -1,7 +1,16 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { getUserProfile, getSupabase } from '../lib/supabase';
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef } from 'react';
+import { getUserProfile, getSupabase, callRpc, reconcileCoinBalance, syncVipStatus, updateViewerLocale } from '../lib/supabase';
 import { User } from '@supabase/supabase-js';
 import { useConfig } from './ConfigContext';
+import { useLanguage } from './LanguageContext';
+import { deriveVipStatus, VipStatus } from '../utils/vipStatus';
+import { detectDeviceLocale } from '../utils/audienceTargeting';
+import PurchaseService from '../services/PurchaseService';
+
+// Longest wait between VIP status re-checks; setTimeout can't hold very long delays
+const MAX_VIP_CHECK_DELAY = 24 * 60 * 60 * 1000;
+// Balance/ledger reconciliation runs at sign-in and then at most this often
+const RECONCILE_INTERVAL = 30 * 60 * 1000;
 
 interface Profile {
   id: string;
@@ -10,6 +19,11 @@ interface Profile {
   coins: number;
   is_vip: boolean;
   vip_expires_at: string | null;
+  vip_grace_ends_at?: string | null;
+  vip_plan?: string | null;
+  vip_auto_renew?: boolean;
+  language?: string | null; // for audience targeting
+  country?: string | null;
   referral_code: string;
   referred_by: string | null;
   referral_coins_earned: number;
@@ -21,6 +35,7 @@ interface Profile {
 interface AuthContextType {
   user: User | null;
   profile: Profile | null;
+  vipStatus: VipStatus; // derived from the profile; read this rather than profile.is_vip
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signUp: (email: string, password: string, username: string, referralCode?: string | null) => Promise<{ error: any }>;
@@ -42,7 +57,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [vipClock, setVipClock] = useState(() => Date.now());
+  const lastReconciled = useRef<{ userId: string; at: number } | null>(null);
   const { config, loading: configLoading, isConfigValid } = useConfig();
+  const { adoptProfileLanguage } = useLanguage();
 
   useEffect(() => {
     let retryTimeout: NodeJS.Timeout | null = null;
@@ -105,11 +123,95 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, [configLoading, isConfigValid, config]); // Add dependencies to re-run when config is ready
 
+  const vipStatus = useMemo(() => deriveVipStatus(profile, new Date(vipClock)), [profile, vipClock]);
+
+  // Re-derive the status when the subscription expires or its grace period ends
+  useEffect(() => {
+    if (!vipStatus.nextChangeAt) return;
+
+    const delay = Math.min(Math.max(0, vipStatus.nextChangeAt.getTime() - Date.now()), MAX_VIP_CHECK_DELAY);
+    const timer = setTimeout(() => setVipClock(Date.now()), delay + 1000);
+    return () => clearTimeout(timer);
+  }, [vipStatus.nextChangeAt]);
+
+  // Lapsed subscription still flagged VIP: have the server downgrade it, then reload
+  const profileId = profile?.id;
+  const profileIsVip = profile?.is_vip;
+  useEffect(() => {
+    if (!profileId || !profileIsVip || vipStatus.state !== 'expired') return;
+
+    const downgrade = async () => {
+      console.log('👑 VIP expired, syncing status');
+      const { error } = await syncVipStatus(profileId);
+      if (error) {
+        console.error('Error syncing VIP status:', error);
+        return;
+      }
+      await loadProfile(profileId);
+    };
+    downgrade();
+  }, [profileId, profileIsVip, vipStatus.state]);
+
+  // Subscription renewals (and purchases finished while their screen was closed) are
+  // verified as soon as the store delivers them, not only while become-vip is open
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    const purchases = PurchaseService.getInstance();
+    const applied = (status: string) => ['activated', 'renewed', 'credited'].includes(status);
+    const unsubscribe = purchases.onOutcome(outcome => {
+      if (applied(outcome.status)) {
+        loadProfile(userId);
+      }
+    });
+
+    purchases.watchPurchases(userId).then(outcomes => {
+      if (outcomes.some(outcome => applied(outcome.status))) {
+        loadProfile(userId);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      purchases.end();
+    };
+  }, [userId]);
+
+  // A language chosen on another device follows the account here
+  useEffect(() => {
+    adoptProfileLanguage(profile?.language);
+  }, [profile?.language, adoptProfileLanguage]);
+
   const loadProfile = async (userId: string) => {
     try {
       const profileData = await getUserProfile(userId);
       if (profileData) {
         setProfile(profileData);
+
+        // Check the balance against the ledger in the background; drift is reported server-side.
+        // Profiles reload after every reward, so this is throttled rather than run on each load.
+        const last = lastReconciled.current;
+        if (!last || last.userId !== userId || Date.now() - last.at >= RECONCILE_INTERVAL) {
+          lastReconciled.current = { userId, at: Date.now() };
+          reconcileCoinBalance(userId);
+        }
+
+        // Fill in language and country from the device so targeted campaigns can reach this viewer
+        if (!profileData.language || !profileData.country) {
+          const deviceLocale = detectDeviceLocale();
+          const missing = {
+            ...(!profileData.language && deviceLocale.language ? { language: deviceLocale.language } : {}),
+            ...(!profileData.country && deviceLocale.country ? { country: deviceLocale.country } : {}),
+          };
+          if (Object.keys(missing).length > 0) {
+            updateViewerLocale(userId, missing).then(({ error }) => {
+              if (!error) {
+                setProfile(prev => (prev && prev.id === userId ? { ...prev, ...missing } : prev));
+              }
+            });
+          }
+        }
       }
     } catch (error) {
       console.error('Error loading profile:', error);
@@ -182,13 +284,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           console.log('Profile not found, creating manually...');
           console.log('Referral code being passed:', referralCode);
           
-          const { data: createResult, error: createError } = await supabaseClient
-            .rpc('create_missing_profile', {
-              p_user_id: data.user.id,
-              p_email: email,
-              p_username: username,
-              p_referral_code: referralCode
-            });
+          const { data: createResult, error: createError } = await callRpc('create_missing_profile', {
+            p_user_id: data.user.id,
+            p_email: email,
+            p_username: username,
+            p_referral_code: referralCode
+          });
           
           if (createError) {
             console.error('Failed to create profile manually:', createError);
@@ -279,6 +380,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const value = {
     user,
     profile,
+    vipStatus,
     loading,
     signIn,
     signUp,
@@ -2,11 +2,11 @@ import React, { createContext, useContext, useEffect, useState, ReactNode } from
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import axios from 'axios';
 import { Platform } from 'react-native';
-import * as Crypto from 'expo-crypto';
 import SecurityService from '../services/SecurityService';
 import AdService from '../services/AdService';
-import { validateRuntimeConfig, fetchRuntimeConfig as fetchSecureRuntimeConfig } from '../lib/supabase';
-import type { RuntimeConfig } from '../lib/supabase';
+import { acceptSignedRuntimeConfig, fetchRuntimeConfig as fetchSecureRuntimeConfig } from '../lib/supabase';
+import { getInstalledVersion } from '../utils/appVersion';
+import type { RuntimeConfig, SignedConfigEnvelope, VerifiedRuntimeConfig } from '../lib/supabase';
 
 // Use shared RuntimeConfig type from lib/supabase
 
@@ -32,7 +32,7 @@ export function useConfig() {
 }
 
 const CONFIG_CACHE_KEY = 'runtime_config_cache';
-const CONFIG_HASH_KEY = 'runtime_config_hash';
+const CONFIG_HASH_KEY = 'runtime_config_hash'; // written by older builds; only cleared now
 const DEFAULT_TTL = 3600; // 1 hour
 
 export function ConfigProvider({ children }: { children: ReactNode }) {
@@ -120,15 +120,15 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
       const cachedData = await AsyncStorage.getItem(CONFIG_CACHE_KEY);
       if (!cachedData) return null;
 
-      let parsedConfig;
+      let envelope;
       try {
         // Check if data looks like JSON (starts with {)
         if (cachedData.startsWith('{')) {
           // Direct JSON, parse it
-          parsedConfig = JSON.parse(cachedData);
+          envelope = JSON.parse(cachedData);
         } else {
           // Encrypted data, try to decrypt
-          parsedConfig = await decryptConfig(cachedData);
+          envelope = await decryptConfig(cachedData);
         }
       } catch (parseError) {
         if (process.env.NODE_ENV !== 'production') {
@@ -140,8 +140,10 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
         return null;
       }
       
-      // Validate config structure
-      if (!isValidConfigStructure(parsedConfig)) {
+      // The cache holds the signed envelope, so it is verified exactly like a fresh
+      // response; a rejected signature throws and clears the cache below
+      const verified = await acceptSignedRuntimeConfig(envelope, 'cache');
+      if (!verified || !isValidConfigStructure(verified.config)) {
         if (process.env.NODE_ENV !== 'production') {
           console.log('📱 Cached config has invalid structure, clearing cache');
         }
@@ -150,7 +152,7 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
         return null;
       }
 
-      return parsedConfig;
+      return verified.config;
     } catch (error) {
       if (process.env.NODE_ENV !== 'production') {
         console.error('Error loading cached config:', error);
@@ -185,12 +187,13 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
 
   const fetchFreshConfig = async () => {
     try {
-      // 1) Try secure endpoint first (returns anonKey if authorized)
-      let freshConfig: RuntimeConfig | null = await fetchSecureRuntimeConfig();
+      // 1) Try secure endpoint first (returns anonKey if authorized). A rejected
+      // signature throws and goes straight to the cache below.
+      let verified: VerifiedRuntimeConfig | null = await fetchSecureRuntimeConfig();
 
-      // 2) Fallback to public endpoint if secure failed
+      // 2) Fallback to public endpoint if secure failed for any other reason
       const allowPublicFallback = process.env.EXPO_PUBLIC_ALLOW_PUBLIC_CONFIG !== 'false';
-      if (!freshConfig && allowPublicFallback) {
+      if (!verified && allowPublicFallback) {
         const apiBaseUrl = process.env.EXPO_PUBLIC_API_BASE_URL || 'https://admin-vidgro.netlify.app';
         const configUrl = `${apiBaseUrl}/api/client-runtime-config`;
 
@@ -202,7 +205,7 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
           timeout: 10000,
           headers: {
             'User-Agent': `VidGro-Mobile/${Platform.OS}`,
-            'X-App-Version': '1.0.0',
+            'X-App-Version': getInstalledVersion() || '1.0.0',
             'X-Platform': Platform.OS,
             'X-Device-Fingerprint': await SecurityService.getInstance().generateDeviceFingerprint(),
             'X-App-Hash': await SecurityService.getInstance().generateAppHash(),
@@ -219,8 +222,8 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
           console.log('📱 Extracted config:', JSON.stringify(rawConfig, null, 2));
         }
 
-        // Normalize and validate using shared validator (allows missing anonKey for public endpoint)
-        const validated = validateRuntimeConfig(rawConfig);
+        // Verify the signature, then normalize and validate using shared validator (allows missing anonKey for public endpoint)
+        const validated = await acceptSignedRuntimeConfig({ data: rawConfig, signature: response.data?.signature }, 'public');
         if (!validated) {
           if (process.env.NODE_ENV !== 'production') {
             console.error('📱 Invalid config structure. Expected fields:', {
@@ -234,24 +237,15 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
           }
           throw new Error('Invalid config structure in response data');
         }
-        freshConfig = validated;
+        verified = validated;
       }
       
-      // Validate config integrity (optional HMAC check)
-      if (!freshConfig) throw new Error('No configuration available from secure or public endpoints');
+      // Signatures were checked on the way in; a rejected config throws and falls back to the cache below
+      if (!verified) throw new Error('No configuration available from secure or public endpoints');
+      const freshConfig = verified.config;
 
-      const configHash = await generateConfigHash(freshConfig);
-      // No response headers when using secure helper; skip header-based integrity check here
-      const integrityValid = true;
-      
-      if (!integrityValid) {
-        if (process.env.NODE_ENV !== 'production') {
-          console.warn('⚠️ Config integrity validation failed');
-        }
-      }
-      
-      // Cache the fresh config
-      await cacheConfig(freshConfig, configHash);
+      // Cache the signed envelope, which only ever holds verified configs
+      await cacheConfig(verified.envelope);
 
       setConfig(freshConfig);
       setIsConfigValid(true);
@@ -288,22 +282,16 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const cacheConfig = async (config: RuntimeConfig, hash: string) => {
+  const cacheConfig = async (envelope: SignedConfigEnvelope) => {
     try {
-      // In production, avoid persisting secrets (strip anonKey before caching)
-      const safeToCache: RuntimeConfig = process.env.NODE_ENV === 'production'
-        ? { 
-            ...config, 
-            supabase: { ...config.supabase, anonKey: undefined }
-          }
-        : config;
-
-      await AsyncStorage.setItem(CONFIG_CACHE_KEY, JSON.stringify(safeToCache));
-      await AsyncStorage.setItem(CONFIG_HASH_KEY, hash);
+      // Stored exactly as signed, so the signature can be checked again on load. That
+      // keeps the anon key from the secure endpoint, which is public by design.
+      await AsyncStorage.setItem(CONFIG_CACHE_KEY, JSON.stringify(envelope));
+      await AsyncStorage.removeItem(CONFIG_HASH_KEY);
       if (process.env.NODE_ENV !== 'production') {
         console.log('📱 Config cached successfully (unencrypted for development)');
       } else {
-        console.log('📱 Config cached (secrets not persisted)');
+        console.log('📱 Config cached');
       }
     } catch (error) {
       if (process.env.NODE_ENV !== 'production') {
@@ -472,22 +460,6 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const generateConfigHash = async (config: RuntimeConfig): Promise<string> => {
-    try {
-      const configString = JSON.stringify(config);
-      const hash = await Crypto.digestStringAsync(
-        Crypto.CryptoDigestAlgorithm.SHA256,
-        configString
-      );
-      return hash;
-    } catch (error) {
-      if (process.env.NODE_ENV !== 'production') {
-        console.error('Error generating config hash:', error);
-      }
-      return '';
-    }
-  };
-
   const isValidConfigStructure = (config: any): boolean => {
     return (
       config &&
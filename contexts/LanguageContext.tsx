@@ -0,0 +1,124 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CATALOGS } from '../locales';
+import type { TranslationKey } from '../locales';
+import { DEFAULT_LOCALE, isRTLLanguage, translate } from '../utils/i18n';
+import type { MessageValues } from '../utils/i18n';
+import { detectDeviceLocale, LANGUAGES } from '../utils/audienceTargeting';
+import { applyLayoutDirection, getLayoutIsRTL, reloadForLayoutDirection } from '../utils/layoutDirection';
+
+const LANGUAGE_STORAGE_KEY = 'language_preference';
+// Direction the app last reloaded into, so a direction that won't stick can't cause a reload loop
+const DIRECTION_RELOAD_KEY = 'layout_direction_reload';
+
+interface LanguageContextType {
+  language: string;
+  isRTL: boolean; // direction the layout is currently drawn in; mirror icons with this
+  restartRequired: boolean; // the language's direction only shows after a reload
+  t: (key: TranslationKey, values?: MessageValues) => string;
+  setLanguage: (code: string) => Promise<void>;
+  // Applies the profile's language unless the viewer picked one on this device
+  adoptProfileLanguage: (code: string | null | undefined) => void;
+  restartForLayoutDirection: () => Promise<void>;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export function useLanguage() {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useLanguage must be used within a LanguageProvider');
+  }
+  return context;
+}
+
+const isSupportedLanguage = (code: string | null | undefined): code is string =>
+  !!code && LANGUAGES.some(language => language.code === code);
+
+export function LanguageProvider({ children }: { children: React.ReactNode }) {
+  const [language, setLanguageState] = useState<string>(
+    () => detectDeviceLocale().language || DEFAULT_LOCALE
+  );
+  const [hasSavedPreference, setHasSavedPreference] = useState(false);
+  const [isRTL, setIsRTL] = useState(getLayoutIsRTL);
+  const [restartRequired, setRestartRequired] = useState(false);
+
+  useEffect(() => {
+    loadLanguagePreference();
+  }, []);
+
+  const loadLanguagePreference = async () => {
+    let startupLanguage = language;
+    try {
+      const savedLanguage = await AsyncStorage.getItem(LANGUAGE_STORAGE_KEY);
+      if (isSupportedLanguage(savedLanguage)) {
+        startupLanguage = savedLanguage;
+        setLanguageState(savedLanguage);
+        setHasSavedPreference(true);
+      }
+    } catch (error) {
+      console.error('Error loading language preference:', error);
+    }
+
+    // Nothing is on screen yet, so a wrong direction at launch is fixed by reloading straight away
+    if (applyLayoutDirection(isRTLLanguage(startupLanguage))) {
+      const direction = isRTLLanguage(startupLanguage) ? 'rtl' : 'ltr';
+      const lastReload = await AsyncStorage.getItem(DIRECTION_RELOAD_KEY).catch(() => null);
+      if (lastReload !== direction) {
+        console.log(`🌐 Reloading into ${direction} layout`);
+        await AsyncStorage.setItem(DIRECTION_RELOAD_KEY, direction).catch(() => {});
+        await reloadForLayoutDirection();
+        return;
+      }
+      setRestartRequired(true);
+    } else {
+      setIsRTL(getLayoutIsRTL());
+      AsyncStorage.removeItem(DIRECTION_RELOAD_KEY).catch(() => {});
+    }
+  };
+
+  // Switching direction mid-session is left to the viewer (see restartForLayoutDirection)
+  const updateDirection = useCallback((code: string) => {
+    const needsReload = applyLayoutDirection(isRTLLanguage(code));
+    setRestartRequired(needsReload);
+    if (!needsReload) {
+      setIsRTL(getLayoutIsRTL());
+    }
+  }, []);
+
+  const setLanguage = useCallback(async (code: string) => {
+    if (!isSupportedLanguage(code)) return;
+    try {
+      setLanguageState(code);
+      setHasSavedPreference(true);
+      updateDirection(code);
+      await AsyncStorage.setItem(LANGUAGE_STORAGE_KEY, code);
+    } catch (error) {
+      console.error('Error saving language preference:', error);
+    }
+  }, [updateDirection]);
+
+  const adoptProfileLanguage = useCallback((code: string | null | undefined) => {
+    if (!hasSavedPreference && isSupportedLanguage(code)) {
+      setLanguageState(code);
+      updateDirection(code);
+    }
+  }, [hasSavedPreference, updateDirection]);
+
+  const restartForLayoutDirection = useCallback(async () => {
+    await AsyncStorage.setItem(DIRECTION_RELOAD_KEY, isRTLLanguage(language) ? 'rtl' : 'ltr').catch(() => {});
+    await reloadForLayoutDirection();
+  }, [language]);
+
+  const t = useCallback(
+    (key: TranslationKey, values?: MessageValues) => translate(CATALOGS, language, key, values),
+    [language]
+  );
+
+  const value = useMemo(
+    () => ({ language, isRTL, restartRequired, t, setLanguage, adoptProfileLanguage, restartForLayoutDirection }),
+    [language, isRTL, restartRequired, t, setLanguage, adoptProfileLanguage, restartForLayoutDirection]
+  );
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+}
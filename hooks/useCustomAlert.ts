@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { AlertType, AlertButton } from '@/components/CustomAlert';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface AlertConfig {
   type: AlertType;
@@ -14,6 +15,7 @@ export function useCustomAlert() {
   const [alertConfig, setAlertConfig] = useState<AlertConfig | null>(null);
   const [visible, setVisible] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
+  const { t } = useTranslation();
 
   const showAlert = useCallback((config: AlertConfig) => {
     // If an alert is currently closing, wait for it to finish
@@ -52,27 +54,27 @@ export function useCustomAlert() {
       title,
       message,
       autoClose,
-      buttons: [{ text: 'OK', style: 'default' }],
+      buttons: [{ text: t('common.ok'), style: 'default' }],
     });
-  }, [showAlert]);
+  }, [showAlert, t]);
 
   const showError = useCallback((title: string, message: string) => {
     showAlert({
       type: 'error',
       title,
       message,
-      buttons: [{ text: 'OK', style: 'default' }],
+      buttons: [{ text: t('common.ok'), style: 'default' }],
     });
-  }, [showAlert]);
+  }, [showAlert, t]);
 
   const showWarning = useCallback((title: string, message: string) => {
     showAlert({
       type: 'warning',
       title,
       message,
-      buttons: [{ text: 'OK', style: 'default' }],
+      buttons: [{ text: t('common.ok'), style: 'default' }],
     });
-  }, [showAlert]);
+  }, [showAlert, t]);
 
   const showInfo = useCallback((title: string, message: string, autoClose = false) => {
     showAlert({
@@ -80,17 +82,17 @@ export function useCustomAlert() {
       title,
       message,
       autoClose,
-      buttons: [{ text: 'OK', style: 'default' }],
+      buttons: [{ text: t('common.ok'), style: 'default' }],
     });
-  }, [showAlert]);
+  }, [showAlert, t]);
 
   const showConfirm = useCallback((
     title: string, 
     message: string, 
     onConfirm: () => void,
     onCancel?: () => void,
-    confirmText = 'Confirm',
-    cancelText = 'Cancel'
+    confirmText = t('common.confirm'),
+    cancelText = t('common.cancel')
   ) => {
     showAlert({
       type: 'confirm',
@@ -109,15 +111,15 @@ export function useCustomAlert() {
         },
       ],
     });
-  }, [showAlert]);
+  }, [showAlert, t]);
 
   const showDestructiveConfirm = useCallback((
     title: string, 
     message: string, 
     onConfirm: () => void,
     onCancel?: () => void,
-    confirmText = 'Delete',
-    cancelText = 'Cancel'
+    confirmText = t('common.delete'),
+    cancelText = t('common.cancel')
   ) => {
     showAlert({
       type: 'warning',
@@ -136,7 +138,7 @@ export function useCustomAlert() {
         },
       ],
     });
-  }, [showAlert]);
+  }, [showAlert, t]);
 
   return {
     // Alert component props
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useConfig } from '../contexts/ConfigContext';
+import { Entitlements, resolveEntitlements } from '../utils/entitlements';
+
+export function useEntitlements(): Entitlements {
+  const { vipStatus } = useAuth();
+  const { config } = useConfig();
+
+  return useMemo(
+    () => resolveEntitlements(vipStatus, config?.entitlements),
+    [vipStatus, config?.entitlements]
+  );
+}
+
+export function usePerk<K extends keyof Entitlements>(perk: K): Entitlements[K] {
+  const entitlements = useEntitlements();
+  return entitlements[perk];
+}
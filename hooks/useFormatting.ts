@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { useConfig } from '../contexts/ConfigContext';
+import { useTranslation } from './useTranslation';
+import {
+  DEFAULT_CURRENCY,
+  formatCoins,
+  formatDate,
+  formatDateTime,
+  formatDuration,
+  formatNumber,
+  formatPrice,
+  formatTime,
+  formatTimer,
+  getFormattingLocale,
+} from '../utils/formatting';
+import type { StorePrice } from '../utils/formatting';
+
+// Formatters bound to the app language and the configured fallback currency
+export function useFormatting() {
+  const { language } = useTranslation();
+  const { config } = useConfig();
+  const currency = config?.pricing?.currency || DEFAULT_CURRENCY;
+
+  return useMemo(() => {
+    const locale = getFormattingLocale(language);
+    return {
+      locale,
+      currency,
+      formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(value, locale, options),
+      formatCoins: (value: number | null | undefined) => formatCoins(value, locale),
+      formatPrice: (amount: number, listPrice?: number, storePrice?: StorePrice | null) =>
+        formatPrice(amount, locale, { listPrice, storePrice, currency }),
+      formatDuration: (seconds: number) => formatDuration(seconds, locale),
+      formatTimer: (seconds: number) => formatTimer(seconds, locale),
+      formatDate: (date: Date | string | number, options?: Intl.DateTimeFormatOptions) => formatDate(date, locale, options),
+      formatDateTime: (date: Date | string | number) => formatDateTime(date, locale),
+      formatTime: (date: Date | string | number) => formatTime(date, locale),
+    };
+  }, [language, currency]);
+}
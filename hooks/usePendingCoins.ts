@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+import CoinOutboxService from '../services/CoinOutboxService';
+
+// Coins claimed while offline that the server hasn't confirmed yet. Calls
+// onConfirmed when queued claims go through, so the balance can be refreshed.
+export function usePendingCoins(userId?: string, onConfirmed?: () => void): number {
+  const outbox = CoinOutboxService.getInstance();
+  const [pendingCoins, setPendingCoins] = useState(() => outbox.getPendingCoins(userId));
+  const onConfirmedRef = useRef(onConfirmed);
+  onConfirmedRef.current = onConfirmed;
+
+  useEffect(() => {
+    if (!userId) {
+      setPendingCoins(0);
+      return;
+    }
+
+    let previousCount = outbox.getPendingEntries(userId).length;
+    const unsubscribe = outbox.subscribe(() => {
+      const entries = outbox.getPendingEntries(userId);
+      setPendingCoins(outbox.getPendingCoins(userId));
+
+      if (entries.length < previousCount) {
+        onConfirmedRef.current?.();
+      }
+      previousCount = entries.length;
+    });
+
+    outbox.initialize();
+    setPendingCoins(outbox.getPendingCoins(userId));
+
+    return unsubscribe;
+  }, [outbox, userId]);
+
+  return pendingCoins;
+}
@@ -0,0 +1,7 @@
+import { useLanguage } from '@/contexts/LanguageContext';
+
+// Translation function, active language and layout direction for components
+export function useTranslation() {
+  const { t, language, setLanguage, isRTL } = useLanguage();
+  return { t, language, setLanguage, isRTL };
+}
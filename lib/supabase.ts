@@ -2,6 +2,19 @@ import { createClient } from '@supabase/supabase-js';
 import 'react-native-url-polyfill/auto';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useConfig } from '../contexts/ConfigContext';
+import type { TierPerkOverrides } from '../utils/entitlements';
+import type { PromotionSchedule } from '../utils/campaignPacing';
+import type { PromotionTargeting } from '../utils/audienceTargeting';
+import type { CampaignType, EngagementCampaignType } from '../utils/campaignTypes';
+import { getCampaignType } from '../utils/campaignTypes';
+import { runPromotionChecks, toPromotionRejection } from '../utils/promotionValidation';
+import type { PromotionRateLimit, PromotionRejection, PromotionCheckFacts } from '../utils/promotionValidation';
+import { extractYouTubeVideoId } from '../utils/validation';
+import type { ReportReason } from '../utils/videoReports';
+import type { RefundPolicy } from '../utils/refundPolicy';
+import { isApiVersionCompatible, SUPPORTED_API_VERSION } from '../utils/appVersion';
+import { ConfigSignatureError, getBundledSigningKeys, isConfigSignatureRequired, verifyConfigSignature } from '../utils/configSignature';
+import type { ConfigSignature, SignatureFailure } from '../utils/configSignature';
 
 // Type definitions
 export interface RuntimeConfig {
@@ -27,6 +40,9 @@ export interface RuntimeConfig {
     forceUpdate: boolean;
     maintenanceMode: boolean;
     apiVersion: string;
+    maintenanceEndsAt?: string; // ISO time maintenance is expected to finish
+    maintenanceMessage?: string;
+    updateUrl?: string; // store listing to send outdated builds to
   };
   security: {
     allowEmulators: boolean;
@@ -39,6 +55,10 @@ export interface RuntimeConfig {
     lastUpdated: string;
     ttl: number;
   };
+  entitlements?: TierPerkOverrides; // per-tier perk overrides, merged over the app defaults
+  pricing?: {
+    currency: string; // ISO 4217 code for list prices when the store can't report its own
+  };
 }
 
 // Dynamic Supabase client that will be initialized with runtime config
@@ -66,6 +86,22 @@ const tryInitializeWithConfig = (config: RuntimeConfig | null): boolean => {
 };
 
 
+// Set while the server's API version is one this build can't talk to; callRpc
+// then resolves with this error instead of reaching the server
+let rpcBlockedError: { message: string; code: string } | null = null;
+
+export const setServerApiVersion = (apiVersion: string | null | undefined) => {
+  if (isApiVersionCompatible(apiVersion)) {
+    rpcBlockedError = null;
+    return;
+  }
+  console.warn(`🚫 Server API v${apiVersion} is incompatible with v${SUPPORTED_API_VERSION}, RPC calls disabled`);
+  rpcBlockedError = {
+    message: 'This version of the app is no longer supported. Please update to continue.',
+    code: 'api_version_incompatible',
+  };
+};
+
 export const initializeSupabase = (url: string, anonKey: string | null | undefined) => {
   if (supabaseClient) {
     return supabaseClient;
@@ -90,6 +126,17 @@ export const getSupabase = () => {
   return supabaseClient;
 };
 
+// Every RPC goes through here, so none reach a server whose API version is incompatible
+export const callRpc = async (fn: string, args?: Record<string, any>): Promise<{ data: any; error: any }> => {
+  if (rpcBlockedError) {
+    return { data: null, error: rpcBlockedError };
+  }
+  if (!supabaseClient) {
+    return { data: null, error: new Error('Supabase not initialized') };
+  }
+  return supabaseClient.rpc(fn, args);
+};
+
 // For backward compatibility, export as supabase
 export const supabase = new Proxy({} as any, {
   get(target, prop) {
@@ -102,19 +149,103 @@ export const supabase = new Proxy({} as any, {
   }
 });
 
-// Remove old awardCoinsForVideo function and replace with new watchVideo
-export const watchVideoAndEarnCoins = async (
+export interface WatchSession {
+  session_id: string;
+  session_token: string;
+  heartbeat_interval: number;
+  expires_at: string;
+}
+
+// Open a server-issued watch session for a video
+export const startWatchSession = async (
+  userId: string,
+  videoId: string
+): Promise<{ data: WatchSession | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('start_watch_session', {
+      user_uuid: userId,
+      video_uuid: videoId,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (err) {
+    return { data: null, error: err };
+  }
+};
+
+export interface ResumedWatchSession extends WatchSession {
+  resumable: boolean;
+  watched_seconds: number;
+  last_sequence: number;
+}
+
+// Ask the server whether a session interrupted by an app restart can still be finished
+export const resumeWatchSession = async (
+  sessionId: string,
+  userId: string,
+  videoId: string
+): Promise<{ data: ResumedWatchSession | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('resume_watch_session', {
+      session_uuid: sessionId,
+      user_uuid: userId,
+      video_uuid: videoId,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (err) {
+    return { data: null, error: err };
+  }
+};
+
+// Record a signed heartbeat for an open watch session
+export const recordWatchHeartbeat = async (
+  sessionId: string,
+  sequence: number,
+  watchedSeconds: number,
+  signature: string
+): Promise<{ data: any; error: any }> => {
+  try {
+    const { data, error } = await callRpc('record_watch_heartbeat', {
+      session_uuid: sessionId,
+      heartbeat_sequence: sequence,
+      watched_seconds: watchedSeconds,
+      heartbeat_signature: signature,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (err) {
+    return { data: null, error: err };
+  }
+};
+
+// Close a watch session. The server only pays out for heartbeat-backed watch time,
+// so the client no longer reports duration or completion itself. Replays with the
+// same idempotency key return the original result instead of paying twice.
+export const completeWatchSession = async (
+  sessionId: string,
   userId: string,
   videoId: string,
-  watchDuration: number,
-  fullyWatched: boolean = false
+  idempotencyKey?: string
 ): Promise<{ data: any; error: any }> => {
   try {
-    const { data, error } = await getSupabase().rpc('watch_video_and_earn_coins', {
+    const { data, error } = await callRpc('complete_watch_session', {
+      session_uuid: sessionId,
       user_uuid: userId,
       video_uuid: videoId,
-      watch_duration: watchDuration,
-      video_fully_watched: fullyWatched,
+      idempotency_key: idempotencyKey ?? null,
     });
 
     if (error) {
@@ -148,24 +279,104 @@ export async function getUserProfile(userId: string): Promise<any> {
   }
 }
 
-// Get video queue
-export async function getVideoQueue(userId: string): Promise<any[]> {
+// Save the viewer's language and country; the video queue uses them for audience targeting
+export const updateViewerLocale = async (
+  userId: string,
+  locale: { language?: string | null; country?: string | null }
+): Promise<{ data: any; error: any }> => {
   try {
     const { data, error } = await getSupabase()
+      .from('profiles')
+      .update(locale)
+      .eq('id', userId)
+      .select('language, country')
+      .single();
+
+    return { data, error };
+  } catch (error) {
+    return { data: null, error };
+  }
+};
+
+export const VIDEO_QUEUE_PAGE_SIZE = 50;
+
+// PostgREST filters matching campaigns aimed at this viewer. Viewers without a
+// language or country only see campaigns that don't target one.
+const getAudienceFilters = async (userId: string): Promise<{ languageFilter: string; countryFilter: string }> => {
+  const { data: viewer } = await getSupabase()
+    .from('profiles')
+    .select('language, country')
+    .eq('id', userId)
+    .single();
+
+  return {
+    languageFilter: viewer?.language
+      ? `target_languages.is.null,target_languages.eq.{},target_languages.cs.{${viewer.language}}`
+      : 'target_languages.is.null,target_languages.eq.{}',
+    countryFilter: viewer?.country
+      ? `target_countries.is.null,target_countries.eq.{},target_countries.cs.{${viewer.country}}`
+      : 'target_countries.is.null,target_countries.eq.{}',
+  };
+};
+
+// Get video queue (one page, newest first; ranking happens in the video store).
+// Campaigns outside their start/end window or targeting another audience are
+// filtered here; daily caps compare two columns, so rankVideoQueue drops capped
+// campaigns instead. Only view campaigns are watched; subscribe and like
+// campaigns are served by getEngagementCampaigns.
+export async function getVideoQueue(
+  userId: string,
+  options: { offset?: number; limit?: number } = {}
+): Promise<any[]> {
+  const { offset = 0, limit = VIDEO_QUEUE_PAGE_SIZE } = options;
+
+  try {
+    const [{ languageFilter, countryFilter }, reportedIds] = await Promise.all([
+      getAudienceFilters(userId),
+      getReportedVideoIds(userId),
+    ]);
+
+    let query = getSupabase()
       .from('videos')
       .select('*')
       .neq('user_id', userId)  // Don't show user's own videos
       .is('deleted_at', null)  // Only show non-deleted videos
       .in('status', ['active', 'repromoted'])  // Both active and repromoted videos are playable
+      .or('campaign_type.is.null,campaign_type.eq.view')  // Watch-time campaigns only
       .or('hold_until.is.null,hold_until.lte.now()')  // Either no hold or hold has expired
+      .or('starts_at.is.null,starts_at.lte.now()')  // Scheduled campaigns wait for their start
+      .or('ends_at.is.null,ends_at.gt.now()')  // and stop at their end date
+      .or(languageFilter)  // Audience targeting
+      .or(countryFilter);
+
+    // Never serve a video back to a viewer who reported it. Filtered in the query, not
+    // after it, so a page only comes back short when the queue has run out.
+    if (reportedIds.length > 0) {
+      query = query.not('id', 'in', `(${reportedIds.join(',')})`);
+    }
+
+    const { data, error } = await query
       .order('created_at', { ascending: false })
-      .limit(50);
+      .range(offset, offset + limit - 1);
 
     if (error) {
       throw error;
     }
 
-    return data?.map(video => ({
+    // Look up which creators are VIP so the queue can favour them
+    const ownerIds = Array.from(new Set((data || []).map((video: any) => video.user_id).filter(Boolean)));
+    const vipOwners = new Set<string>();
+    if (ownerIds.length > 0) {
+      const { data: owners } = await getSupabase()
+        .from('profiles')
+        .select('id, is_vip')
+        .in('id', ownerIds);
+      (owners || []).forEach((owner: any) => {
+        if (owner.is_vip) vipOwners.add(owner.id);
+      });
+    }
+
+    return data?.map((video: any) => ({
       ...video,
       youtube_url: video.youtube_url,
       coin_reward: video.coin_reward || 1,
@@ -173,51 +384,454 @@ export async function getVideoQueue(userId: string): Promise<any[]> {
       // Ensure these fields exist to prevent undefined errors
       views_count: video.views_count || 0,
       target_views: video.target_views || 0,
-      completed: video.completed || false
+      completed: video.completed || false,
+      views_today: video.views_today || 0,
+      owner_is_vip: vipOwners.has(video.user_id)
     })) || [];
   } catch (error) {
     return [];
   }
 };
 
-// Create video promotion
-export const createVideoPromotion = async (
-  coinCost: number,
-  coinReward: number,
-  duration: number,
+// Which of the given videos this user has already been paid for (rewarded watch sessions)
+export async function getRewardedVideoIds(userId: string, videoIds: string[]): Promise<string[]> {
+  if (videoIds.length === 0) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await getSupabase()
+      .from('watch_sessions')
+      .select('video_id')
+      .eq('user_id', userId)
+      .eq('status', 'rewarded')
+      .in('video_id', videoIds);
+
+    if (error) {
+      return [];
+    }
+
+    return (data || []).map((session: any) => session.video_id);
+  } catch (error) {
+    return [];
+  }
+}
+
+export interface VideoReportResult {
+  success: boolean;
+  report_count: number; // distinct viewers who reported the video
+  on_hold: boolean; // true when this report pushed it over the hold threshold
+}
+
+// Report a promoted video. Repeat reports from the same viewer are ignored by the
+// server; once enough viewers report it, the campaign goes on hold for review.
+export const reportVideo = async (
+  userId: string,
+  videoId: string,
+  reason: ReportReason,
+  options: { automatic?: boolean; details?: string } = {}
+): Promise<{ data: VideoReportResult | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('report_video', {
+      p_user_id: userId,
+      p_video_id: videoId,
+      p_reason: reason,
+      p_automatic: options.automatic ?? false,
+      p_details: options.details ?? null,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data: data as VideoReportResult, error: null };
+  } catch (error) {
+    return { data: null, error };
+  }
+};
+
+// Videos this user has reported (manual reports only; playback errors don't hide a video)
+export async function getReportedVideoIds(userId: string): Promise<string[]> {
+  try {
+    const { data, error } = await getSupabase()
+      .from('video_reports')
+      .select('video_id')
+      .eq('reporter_id', userId)
+      .eq('automatic', false);
+
+    if (error) {
+      return [];
+    }
+
+    return (data || []).map((report: any) => report.video_id);
+  } catch (error) {
+    return [];
+  }
+}
+
+export interface VideoReportSummary {
+  total: number;
+  counts: Partial<Record<ReportReason, number>>;
+  held_for_reports: boolean;
+  held_at: string | null;
+}
+
+// Report counts for the owner of a video; reporters stay anonymous
+export const getVideoReportSummary = async (
+  videoId: string,
+  userId: string
+): Promise<{ data: VideoReportSummary | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('get_video_report_summary', {
+      p_video_id: videoId,
+      p_user_id: userId,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data: data as VideoReportSummary, error: null };
+  } catch (error) {
+    return { data: null, error };
+  }
+};
+
+export interface EngagementCampaign {
+  video_id: string;
+  user_id: string;
+  title: string;
+  youtube_url: string;
+  campaign_type: EngagementCampaignType;
+  coin_reward: number;
+  views_count: number; // actions delivered so far
+  target_views: number; // actions bought
+  status: string;
+  starts_at: string | null;
+  ends_at: string | null;
+  daily_view_cap: number | null;
+  views_today: number;
+}
+
+// Subscribe and like campaigns this viewer can still act on, newest first.
+// Uses the same status, schedule and targeting rules as getVideoQueue and skips
+// campaigns the viewer already completed.
+export async function getEngagementCampaigns(
+  userId: string,
+  type: EngagementCampaignType,
+  options: { offset?: number; limit?: number } = {}
+): Promise<EngagementCampaign[]> {
+  const { offset = 0, limit = VIDEO_QUEUE_PAGE_SIZE } = options;
+
+  try {
+    const { languageFilter, countryFilter } = await getAudienceFilters(userId);
+
+    const [{ data, error }, { data: completed }] = await Promise.all([
+      getSupabase()
+        .from('videos')
+        .select('*')
+        .eq('campaign_type', type)
+        .neq('user_id', userId)
+        .is('deleted_at', null)
+        .in('status', ['active', 'repromoted'])
+        .or('hold_until.is.null,hold_until.lte.now()')
+        .or('starts_at.is.null,starts_at.lte.now()')
+        .or('ends_at.is.null,ends_at.gt.now()')
+        .or(languageFilter)
+        .or(countryFilter)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1),
+      getSupabase()
+        .from('engagement_actions')
+        .select('video_id')
+        .eq('user_id', userId)
+        .eq('status', 'verified'),
+    ]);
+
+    if (error) {
+      throw error;
+    }
+
+    const completedIds = new Set((completed || []).map((action: any) => action.video_id));
+
+    return (data || [])
+      .filter((video: any) => !completedIds.has(video.video_id))
+      .map((video: any) => ({
+        ...video,
+        coin_reward: video.coin_reward || 1,
+        views_count: video.views_count || 0,
+        target_views: video.target_views || 0,
+        views_today: video.views_today || 0,
+      }));
+  } catch (error) {
+    return [];
+  }
+}
+
+export interface EngagementAction {
+  action_id: string;
+  video_id: string;
+  campaign_type: EngagementCampaignType;
+  coin_reward: number;
+  expires_at: string;
+}
+
+// Open an engagement action before sending the viewer to YouTube. The server
+// refuses campaigns the viewer already completed, their own campaigns and
+// campaigns that can't take another action right now.
+export const startEngagementAction = async (
+  userId: string,
+  videoId: string
+): Promise<{ data: EngagementAction | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('start_engagement_action', {
+      p_user_id: userId,
+      p_video_id: videoId,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    if (data && data.success === false) {
+      return { data: null, error: new Error(data.error || 'Campaign is not available') };
+    }
+
+    return { data: data as EngagementAction, error: null };
+  } catch (error) {
+    return { data: null, error };
+  }
+};
+
+// Close an engagement action with the verifier's evidence. The server pays the
+// reward and counts the action against the campaign only when it accepts the
+// evidence; replays with the same idempotency key return the original result.
+export const completeEngagementAction = async (
+  actionId: string,
+  userId: string,
+  evidence: Record<string, any>,
+  idempotencyKey?: string
+): Promise<{ data: any; error: any }> => {
+  try {
+    const { data, error } = await callRpc('complete_engagement_action', {
+      p_action_id: actionId,
+      p_user_id: userId,
+      p_evidence: evidence,
+      idempotency_key: idempotencyKey ?? null,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    return { data: null, error };
+  }
+};
+
+// Video details from the YouTube Data API. The lookup runs server-side so the
+// API key never ships in the app; see VideoMetadataService for the client side.
+export const getVideoMetadata = async (videoId: string): Promise<{ data: any; error: any }> => {
+  try {
+    const { data, error } = await callRpc('get_video_metadata', {
+      video_id_param: videoId,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (error) {
+    return { data: null, error };
+  }
+};
+
+export interface PromotionQuoteDiscount {
+  kind: string; // e.g. 'vip'
+  label: string;
+  percentage: number;
+  amount: number;
+}
+
+// Server-priced promotion. The quote is signed and stored server-side, so the
+// client can only refer to it by id; create_video_promotion rejects expired,
+// reused or tampered quotes.
+export interface PromotionQuote {
+  quote_id: string;
+  campaign_type: CampaignType;
+  target_views: number; // views, subscribers or likes, by campaign_type
+  duration_seconds: number; // 0 for subscribe and like campaigns
+  base_cost: number;
+  discounts: PromotionQuoteDiscount[];
+  reward_per_view: number; // per view or per action
+  target_languages: string[];
+  target_countries: string[];
+  targeting_multiplier: number; // 1 for everyone; narrower audiences cost more
+  final_cost: number;
+  upgrade_savings: number; // what VIP would save on this promotion; 0 for VIP users
+  expires_at: string;
+  signature: string;
+}
+
+// Price a promotion on the server; each campaign type has its own rates
+export const quotePromotion = async (
+  userId: string,
   targetViews: number,
+  durationSeconds: number,
+  targeting?: PromotionTargeting,
+  campaignType: CampaignType = 'view'
+): Promise<{ data: PromotionQuote | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('quote_promotion', {
+      user_uuid: userId,
+      campaign_type_param: campaignType,
+      target_views_param: targetViews,
+      duration_seconds_param: durationSeconds,
+      target_languages_param: targeting?.languages ?? [],
+      target_countries_param: targeting?.countries ?? [],
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data: data as PromotionQuote, error: null };
+  } catch (error) {
+    return { data: null, error };
+  }
+};
+
+export interface PromotionCheckOptions {
+  campaignType?: CampaignType;
+  channelId?: string | null; // from video metadata, for the channel blocklist
+}
+
+// Rate limit create_video_promotion enforces, so the pre-check can't drift from it
+export const getPromotionRateLimit = async (): Promise<{ data: PromotionRateLimit | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('get_promotion_rate_limit');
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    const limit = Array.isArray(data) ? data[0] : data;
+    if (!limit) {
+      return { data: null, error: { message: 'Promotion rate limit unavailable' } };
+    }
+
+    return {
+      data: {
+        maxCampaigns: Number(limit.max_campaigns),
+        windowMinutes: Number(limit.window_minutes),
+      },
+      error: null
+    };
+  } catch (error) {
+    return { data: null, error };
+  }
+};
+
+// Run the promotion checks (blocklist, duplicate campaign, rate limit) for this
+// user and video. create_video_promotion repeats every check server-side; a lookup
+// that fails is returned as the error rather than treated as a pass.
+export const validatePromotion = async (
+  userId: string,
+  youtubeUrl: string,
+  options: PromotionCheckOptions = {}
+): Promise<{ rejection: PromotionRejection | null; error: any }> => {
+  const youtubeId = extractYouTubeVideoId(youtubeUrl) || youtubeUrl;
+  const campaignType = options.campaignType ?? 'view';
+
+  try {
+    const { data: rateLimit, error: rateLimitError } = await getPromotionRateLimit();
+    if (!rateLimit) {
+      return { rejection: null, error: rateLimitError };
+    }
+    const since = new Date(Date.now() - rateLimit.windowMinutes * 60 * 1000).toISOString();
+
+    const [existing, blocklist, recent] = await Promise.all([
+      getSupabase()
+        .from('videos')
+        .select('id, title, campaign_type')
+        .eq('user_id', userId)
+        .eq('youtube_url', youtubeId)
+        .is('deleted_at', null)
+        .in('status', ['active', 'on_hold', 'repromoted', 'paused']),
+      callRpc('check_promotion_blocklist', {
+        video_id_param: youtubeId,
+        channel_id_param: options.channelId ?? null,
+      }),
+      // Deleted campaigns still count, so deleting and re-creating doesn't reset the limit
+      getSupabase()
+        .from('videos')
+        .select('created_at')
+        .eq('user_id', userId)
+        .gte('created_at', since),
+    ]);
+
+    const error = existing.error || blocklist.error || recent.error;
+    if (error) {
+      return { rejection: null, error };
+    }
+
+    const facts: PromotionCheckFacts = {
+      activeCampaign: (existing.data || []).find((video: any) => getCampaignType(video) === campaignType) ?? null,
+      blocklistHit: blocklist.data?.blocked
+        ? { kind: blocklist.data.kind === 'channel' ? 'channel' : 'video', reason: blocklist.data.reason }
+        : null,
+      recentCampaignTimes: (recent.data || []).map((video: any) => video.created_at),
+      rateLimit,
+    };
+
+    return { rejection: runPromotionChecks(facts), error: null };
+  } catch (error) {
+    return { rejection: null, error };
+  }
+};
+
+// Create video promotion from a quote. Campaign type, cost, reward, views, duration
+// and audience targeting all come from the quote on the server; the optional schedule sets start, end and daily cap.
+// Promotions that fail or can't complete validatePromotion are rejected before the RPC runs. The RPC
+// looks the video up itself and rejects durations longer than it ('video_unsupported').
+export const createVideoPromotion = async (
+  quoteId: string,
   title: string,
   userId: string,
-  youtubeUrl: string
-): Promise<{ data: any; error: any }> => {
-  const { data, error } = await getSupabase().rpc('create_video_promotion', {
-    coin_cost_param: coinCost,
-    coin_reward_param: coinReward,
-    duration_seconds_param: duration,
-    target_views_param: targetViews,
+  youtubeUrl: string,
+  schedule?: PromotionSchedule,
+  checks: PromotionCheckOptions = {}
+): Promise<{ data: any; error: any; rejection?: PromotionRejection | null }> => {
+  const { rejection, error: validationError } = await validatePromotion(userId, youtubeUrl, checks);
+  if (rejection) {
+    return { data: null, error: new Error(rejection.message), rejection };
+  }
+  if (validationError) {
+    console.error('Error validating promotion:', validationError);
+    return { data: null, error: new Error('Could not check this promotion right now. Please try again.') };
+  }
+
+  const { data, error } = await callRpc('create_video_promotion', {
+    quote_id_param: quoteId,
     title_param: title,
     user_uuid: userId,
-    youtube_url_param: youtubeUrl
+    youtube_url_param: youtubeUrl,
+    starts_at_param: schedule?.startsAt?.toISOString() ?? null,
+    ends_at_param: schedule?.endsAt?.toISOString() ?? null,
+    daily_view_cap_param: schedule?.dailyViewCap ?? null
   });
-  
-  // Record promotion transaction if successful
-  if (!error && data?.success) {
-    const supabase = getSupabase();
-    const { error: transactionError } = await supabase
-      .from('transactions')
-      .insert({
-        user_id: userId,
-        transaction_type: 'video_promotion',
-        amount: -coinCost, // Negative because it's a cost
-        description: `Video promotion: ${title}`,
-        created_at: new Date().toISOString()
-      });
-    
-    if (transactionError) {
-      console.error('Failed to record promotion transaction:', transactionError);
+
+  // The server's own checks may still reject it (e.g. a campaign created on another device)
+  if (data && data.success === false) {
+    const serverRejection = toPromotionRejection(data);
+    if (serverRejection) {
+      return { data: null, error: new Error(serverRejection.message), rejection: serverRejection };
     }
   }
   
+  // create_video_promotion debits the cost and writes the ledger entry itself
   return { data, error };
 };
 
@@ -227,7 +841,7 @@ export const repromoteVideo = async (
   userId: string,
   additionalCost: number = 0
 ): Promise<{ data: any; error: any }> => {
-  const { data, error } = await getSupabase().rpc('repromote_video', {
+  const { data, error } = await callRpc('repromote_video', {
     video_uuid: videoId,
     user_uuid: userId,
     additional_coin_cost: additionalCost
@@ -235,123 +849,184 @@ export const repromoteVideo = async (
   return { data, error };
 };
 
-// Delete video
-export const deleteVideo = async (
+// Pause or resume a campaign. Paused campaigns leave the queue but keep their
+// remaining views; resuming puts them back under their schedule and daily cap.
+// The RPC records each change as a zero-amount ledger entry on the campaign, and
+// refuses to resume once the user is over maxActiveCampaigns (code 'campaign_limit').
+export const setVideoPaused = async (
   videoId: string,
-  userId: string
+  userId: string,
+  paused: boolean
 ): Promise<{ data: any; error: any }> => {
-  // Use direct table operations for reliable deletion with refund
-  const supabase = getSupabase();
-  
-  console.log('🔍 Attempting to delete video:', { videoId, userId });
-  
-  // Get video details for refund calculation - try multiple approaches
-  let { data: video, error: videoError } = await supabase
-    .from('videos')
-    .select('*')
-    .eq('id', videoId)
-    .eq('user_id', userId)
-    .single();
-  
-  console.log('📊 Video lookup result:', { video, videoError });
-  
-  if (videoError || !video) {
-    // Try lookup without user_id constraint (in case of permission issues)
-    const { data: altVideo, error: altError } = await supabase
-      .from('videos')
-      .select('*')
-      .eq('id', videoId)
-      .single();
-    
-    console.log('📊 Alternative video lookup (no user constraint):', { altVideo, altError });
-    
-    if (altError || !altVideo) {
-      return { data: null, error: { message: 'Video not found in database' } };
+  try {
+    const { data, error } = await callRpc('set_video_paused', {
+      p_video_id: videoId,
+      p_user_id: userId,
+      p_paused: paused
+    });
+
+    if (error) {
+      return { data: null, error };
     }
-    
-    // Verify ownership manually
-    if (altVideo.user_id !== userId) {
-      return { data: null, error: { message: 'Video not owned by user' } };
+
+    if (data && data.success === false) {
+      return { data: null, error: new Error(data.error || 'Failed to update campaign') };
     }
-    
-    // Use the alternative video data
-    video = altVideo;
+
+    return { data, error: null };
+  } catch (error) {
+    return { data: null, error };
   }
-  
-  // Calculate refund
-  const minutesSinceCreation = (Date.now() - new Date(video.created_at).getTime()) / (1000 * 60);
-  const refundPercentage = minutesSinceCreation <= 10 ? 100 : 50;
-  const refundAmount = Math.round((video.coin_cost * refundPercentage) / 100);
-  
-  // Delete video
-  const { error: deleteError } = await supabase
-    .from('videos')
-    .delete()
-    .eq('id', videoId)
-    .eq('user_id', userId);
-  
-  if (deleteError) {
-    return { data: null, error: deleteError };
+};
+
+export interface CampaignChange {
+  additionalViews: number;
+  durationSeconds: number; // new duration; may only go up
+}
+
+// Server-priced change to a running campaign, referenced by id like PromotionQuote
+export interface CampaignChangeQuote {
+  quote_id: string;
+  video_id: string;
+  additional_views: number;
+  duration_seconds: number;
+  reward_per_view: number;
+  cost: number; // coins charged for the change
+  expires_at: string;
+  signature: string;
+}
+
+export interface CampaignChangeResult {
+  success: boolean;
+  status: string;
+  hold_until: string | null;
+  target_views: number;
+  duration_seconds: number;
+  coin_reward: number;
+  coin_cost: number; // campaign total after the change
+  coins_charged: number;
+  message?: string;
+}
+
+// Price adding views and/or raising the duration of a running campaign
+export const quoteCampaignChange = async (
+  videoId: string,
+  userId: string,
+  change: CampaignChange
+): Promise<{ data: CampaignChangeQuote | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('quote_campaign_change', {
+      p_video_id: videoId,
+      p_user_id: userId,
+      p_additional_views: change.additionalViews,
+      p_duration_seconds: change.durationSeconds,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data: data as CampaignChangeQuote, error: null };
+  } catch (error) {
+    return { data: null, error };
   }
-  
-  // Get current user balance first
-  const { data: profile, error: profileError } = await supabase
-    .from('profiles')
-    .select('coins')
-    .eq('id', userId)
-    .single();
-  
-  if (profileError || !profile) {
-    return { data: null, error: { message: 'Could not fetch user profile' } };
+};
+
+// Apply a quoted change. The RPC debits the difference, writes the ledger entry
+// and updates the campaign in one transaction.
+export const applyCampaignChange = async (
+  quoteId: string,
+  videoId: string,
+  userId: string
+): Promise<{ data: CampaignChangeResult | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('apply_campaign_change', {
+      p_quote_id: quoteId,
+      p_video_id: videoId,
+      p_user_id: userId,
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    if (data && data.success === false) {
+      return { data: null, error: new Error(data.error || data.message || 'Failed to update campaign') };
+    }
+
+    return { data: data as CampaignChangeResult, error: null };
+  } catch (error) {
+    return { data: null, error };
   }
-  
-  // Update user balance
-  const newBalance = (profile.coins || 0) + refundAmount;
-  const { error: updateError } = await supabase
-    .from('profiles')
-    .update({ 
-      coins: newBalance,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', userId);
-  
-  if (updateError) {
-    return { data: null, error: updateError };
+};
+
+export interface DeleteVideoResult {
+  success: boolean;
+  refund_amount: number;
+  refund_percentage: number;
+  new_balance?: number;
+  message?: string;
+}
+
+// Refund policy applied by delete_video_with_refund, for previewing refunds
+export const getRefundPolicy = async (): Promise<{ data: RefundPolicy | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('get_refund_policy');
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    const policy = Array.isArray(data) ? data[0] : data;
+    if (!policy) {
+      return { data: null, error: { message: 'Refund policy unavailable' } };
+    }
+
+    return {
+      data: {
+        fullRefundWindowMinutes: Number(policy.full_refund_window_minutes),
+        fullRefundPercentage: Number(policy.full_refund_percentage),
+        partialRefundPercentage: Number(policy.partial_refund_percentage),
+      },
+      error: null
+    };
+  } catch (err) {
+    return { data: null, error: err };
   }
-  
-  // Record refund transaction for recent activity
-  const { error: transactionError } = await supabase
-    .from('transactions')
-    .insert({
-      user_id: userId,
-      transaction_type: 'refund',
-      amount: refundAmount,
-      description: `Video deletion refund (${refundPercentage}%): ${video.title}`,
-      created_at: new Date().toISOString()
+};
+
+// Delete video. The RPC deletes the row, credits the refund and records the refund
+// transaction in a single database transaction, and owns the refund policy
+// (see getRefundPolicy), so a crash or a second tap can't lose or double coins.
+export const deleteVideo = async (
+  videoId: string,
+  userId: string
+): Promise<{ data: DeleteVideoResult | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('delete_video_with_refund', {
+      video_uuid: videoId,
+      user_uuid: userId
     });
-  
-  if (transactionError) {
-    console.error('Failed to record refund transaction:', transactionError);
-    // Don't fail the whole operation for transaction logging
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    if (!data?.success) {
+      return { data: null, error: { message: data?.message || 'Failed to delete video' } };
+    }
+
+    return { data, error: null };
+  } catch (err) {
+    return { data: null, error: err };
   }
-  
-  return { 
-    data: {
-      success: true,
-      refund_amount: refundAmount,
-      refund_percentage: refundPercentage,
-      message: `Video deleted successfully with ${refundPercentage}% refund`
-    }, 
-    error: null 
-  };
 };
 
 // Get user comprehensive analytics
 export const getUserComprehensiveAnalytics = async (userId: string) => {
   try {
     // First try to get analytics from the RPC function
-    const { data: analyticsData, error: analyticsError } = await getSupabase()
-      .rpc('get_user_analytics', { p_user_id: userId });
+    const { data: analyticsData, error: analyticsError } = await callRpc('get_user_analytics', { p_user_id: userId });
 
     if (!analyticsError && analyticsData) {
       return analyticsData;
@@ -391,8 +1066,7 @@ export const getUserComprehensiveAnalytics = async (userId: string) => {
 export const getUserVideosWithAnalytics = async (userId: string) => {
   try {
     // First try to get analytics from the RPC function
-    const { data: analyticsData, error: analyticsError } = await getSupabase()
-      .rpc('get_user_videos_with_analytics', { p_user_id: userId });
+    const { data: analyticsData, error: analyticsError } = await callRpc('get_user_videos_with_analytics', { p_user_id: userId });
 
     if (!analyticsError && analyticsData) {
       return analyticsData;
@@ -426,11 +1100,33 @@ export const getUserVideosWithAnalytics = async (userId: string) => {
   }
 };
 
+// Campaigns that aren't finished or deleted, for the maxActiveCampaigns perk. Paused
+// and scheduled ones count too, so pausing can't be used to get past the limit.
+// create_video_promotion and set_video_paused enforce the same limit server-side.
+export const countActiveCampaigns = async (userId: string): Promise<{ data: number | null; error: any }> => {
+  try {
+    const { count, error } = await getSupabase()
+      .from('videos')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .neq('status', 'completed');
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data: count ?? 0, error: null };
+  } catch (error) {
+    return { data: null, error };
+  }
+};
+
 export const getUserRecentActivity = async (userId: string) => {
   try {
     // Fetch all relevant transactions
     const { data: transactions, error } = await getSupabase()
-      .from('transactions')
+      .from('coin_transactions')
       .select('*')
       .eq('user_id', userId)
       .in('transaction_type', [
@@ -439,7 +1135,9 @@ export const getUserRecentActivity = async (userId: string) => {
         'referral_reward',
         'daily_bonus',
         'adjustment',
-        'video_repromoted'  // Added video_repromoted to the list of transaction types
+        'video_repromoted',  // Added video_repromoted to the list of transaction types
+        'refund',
+        'ad_reward'
       ])
       .order('created_at', { ascending: false })
       .limit(30);
@@ -453,7 +1151,9 @@ export const getUserRecentActivity = async (userId: string) => {
       'coin_purchase': 'purchase',
       'referral_reward': 'referral',
       'daily_bonus': 'bonus',
-      'adjustment': 'adjustment'
+      'adjustment': 'adjustment',
+      'refund': 'refund',
+      'ad_reward': 'bonus'
     };
 
     // Transform transactions into activity format
@@ -475,25 +1175,43 @@ export const getUserRecentActivity = async (userId: string) => {
   }
 };
 
-// Record coin purchase transaction
+export type CoinPurchaseStatus = 'credited' | 'already_credited' | 'pending' | 'refunded' | 'invalid';
+
+// What the store handed us for a completed purchase
+export interface CoinPurchaseReceipt {
+  userId: string;
+  packageId: string;
+  productId: string;
+  transactionId: string; // store transaction id; coins are credited at most once per id
+  platform: string;
+  receipt: string; // iOS transaction receipt or Android purchase token
+}
+
+export interface CoinPurchaseResult {
+  success: boolean;
+  status: CoinPurchaseStatus;
+  coins_credited: number;
+  new_balance?: number;
+  message?: string;
+}
+
+// Record coin purchase. The only way coins are bought: the RPC verifies the receipt
+// with the store, looks up the package's coins server-side, and credits them (with
+// the ledger entry) exactly once per store transaction id. Refunded or voided
+// purchases come back as 'refunded' and credit nothing.
 export const recordCoinPurchase = async (
-  userId: string,
-  packageId: string,
-  coinsAmount: number,
-  bonusCoins: number,
-  pricePaid: number,
-  transactionId: string,
-  platform: string = 'unknown'
-) => {
-  try {
-    const { data, error } = await getSupabase().rpc('record_coin_purchase', {
-      user_uuid: userId,
-      package_id: packageId,
-      coins_amount: coinsAmount,
-      bonus_coins: bonusCoins,
-      price_paid: pricePaid,
-      transaction_id: transactionId,
-      purchase_platform: platform
+  purchase: CoinPurchaseReceipt,
+  idempotencyKey?: string
+): Promise<{ data: CoinPurchaseResult | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('verify_coin_purchase', {
+      user_uuid: purchase.userId,
+      package_id: purchase.packageId,
+      product_id: purchase.productId,
+      transaction_id: purchase.transactionId,
+      purchase_platform: purchase.platform,
+      receipt_data: purchase.receipt,
+      idempotency_key: idempotencyKey ?? null
     });
 
     if (error) {
@@ -506,23 +1224,42 @@ export const recordCoinPurchase = async (
   }
 };
 
-// Get user transaction history
-export const getUserTransactionHistory = async (userId: string, limit: number = 50) => {
+export type VipActivationStatus = 'activated' | 'renewed' | 'already_applied' | 'refunded' | 'invalid';
+
+export interface VipSubscriptionReceipt {
+  userId: string;
+  planId: string; // 'weekly' | 'monthly'
+  productId: string;
+  transactionId: string;
+  originalTransactionId?: string; // same for every renewal of one subscription
+  platform: string;
+  receipt: string;
+}
+
+export interface VipActivationResult {
+  success: boolean;
+  status: VipActivationStatus;
+  vip_expires_at: string | null;
+  vip_grace_ends_at: string | null;
+  message?: string;
+}
+
+// Activate or renew VIP from a store subscription receipt. The RPC verifies the
+// receipt, sets is_vip, and extends vip_expires_at from the later of now and the
+// current expiry, so renewals never lose time. Each transaction is applied once.
+export const activateVipSubscription = async (
+  subscription: VipSubscriptionReceipt
+): Promise<{ data: VipActivationResult | null; error: any }> => {
   try {
-    const { data, error } = await getSupabase()
-      .from('coin_transactions')
-      .select(`
-        id,
-        amount,
-        transaction_type,
-        description,
-        reference_id,
-        metadata,
-        created_at
-      `)
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(limit);
+    const { data, error } = await callRpc('activate_vip_subscription', {
+      user_uuid: subscription.userId,
+      plan_id: subscription.planId,
+      product_id: subscription.productId,
+      transaction_id: subscription.transactionId,
+      original_transaction_id: subscription.originalTransactionId ?? null,
+      purchase_platform: subscription.platform,
+      receipt_data: subscription.receipt
+    });
 
     if (error) {
       return { data: null, error };
@@ -534,6 +1271,261 @@ export const getUserTransactionHistory = async (userId: string, limit: number =
   }
 };
 
+// Ask the server to apply expiry and downgrade for a lapsed subscription now,
+// instead of waiting for the scheduled expiry job
+export const syncVipStatus = async (
+  userId: string
+): Promise<{ data: { is_vip: boolean; vip_expires_at: string | null; vip_grace_ends_at: string | null } | null; error: any }> => {
+  try {
+    const { data, error } = await callRpc('sync_vip_status', {
+      user_uuid: userId
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (err) {
+    return { data: null, error: err };
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Coin ledger
+//
+// coin_transactions is the single ledger for coin movements, and record_ledger_entry
+// is the single server function that writes it together with profiles.coins. The
+// client never sends an amount: it names the reason and what the entry refers to,
+// and the server checks that reference and decides the amount. RPCs that move coins
+// as part of a larger change (promotions, watch rewards, deletions, purchases) call
+// the same function server-side with their own reason.
+// ---------------------------------------------------------------------------
+
+export type LedgerEntryKind = 'credit' | 'debit' | 'refund' | 'adjust';
+
+// Every reason a ledger entry can be written for, and the kind of entry it is
+const LEDGER_REASON_KINDS = {
+  ad_reward: 'credit', // reference: ad network transaction id
+  coin_purchase: 'credit', // reference: store transaction id
+  referral_reward: 'credit', // reference: referred user's id
+  daily_bonus: 'credit', // reference: the day, YYYY-MM-DD
+  video_promotion: 'debit', // reference: promotion quote id
+  video_repromoted: 'debit', // reference: video id
+  refund: 'refund', // reference: id of the refunded debit's subject, e.g. the video
+  adjustment: 'adjust', // reference: drift report id; the server computes the correction
+} as const satisfies Record<string, LedgerEntryKind>;
+
+export type LedgerReason = keyof typeof LEDGER_REASON_KINDS;
+
+type LedgerReasonFor<K extends LedgerEntryKind> = {
+  [R in LedgerReason]: (typeof LEDGER_REASON_KINDS)[R] extends K ? R : never;
+}[LedgerReason];
+
+export interface LedgerEntryRequest<R extends LedgerReason = LedgerReason> {
+  userId: string;
+  reason: R;
+  referenceId: string; // one entry per (user, reason, referenceId), so retries can't double-apply
+  metadata?: Record<string, any>;
+  idempotencyKey?: string;
+}
+
+export interface LedgerEntryResult {
+  success: boolean;
+  entry_id: string;
+  amount: number; // signed, as decided by the server
+  new_balance: number;
+  message?: string;
+}
+
+export interface LedgerEntry {
+  id: string;
+  user_id?: string;
+  amount: number;
+  transaction_type: LedgerReason | string; // older rows may use types outside LedgerReason
+  description: string;
+  reference_id: string | null;
+  metadata: Record<string, any> | null;
+  created_at: string;
+}
+
+export interface BalanceReconciliation {
+  balance: number;
+  ledgerTotal: number;
+  drift: number; // balance - ledgerTotal; anything but 0 means the two disagree
+}
+
+const recordLedgerEntry = async (
+  request: LedgerEntryRequest
+): Promise<{ data: LedgerEntryResult | null; error: any }> => {
+  if (!request.referenceId) {
+    return { data: null, error: { message: `A ${request.reason} entry needs a reference id` } };
+  }
+
+  try {
+    const { data, error } = await callRpc('record_ledger_entry', {
+      user_uuid: request.userId,
+      entry_kind: LEDGER_REASON_KINDS[request.reason],
+      reason_param: request.reason,
+      reference_id_param: request.referenceId,
+      metadata_param: request.metadata ?? {},
+      idempotency_key: request.idempotencyKey ?? null
+    });
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    if (!data?.success) {
+      return { data: null, error: { message: data?.message || `The ${request.reason} entry was rejected` } };
+    }
+
+    return { data, error: null };
+  } catch (err) {
+    return { data: null, error: err };
+  }
+};
+
+// Add coins; the server verifies the reference before paying anything
+export const creditCoins = (request: LedgerEntryRequest<LedgerReasonFor<'credit'>>) => recordLedgerEntry(request);
+
+// Spend coins; the server rejects debits that would take the balance below zero
+export const debitCoins = (request: LedgerEntryRequest<LedgerReasonFor<'debit'>>) => recordLedgerEntry(request);
+
+// Return coins from an earlier debit, at the server's refund policy
+export const refundCoins = (request: LedgerEntryRequest<LedgerReasonFor<'refund'>>) => recordLedgerEntry(request);
+
+// Apply the correction for a reported drift; the server computes the signed amount
+export const adjustCoins = (request: LedgerEntryRequest<LedgerReasonFor<'adjust'>>) => recordLedgerEntry(request);
+
+export interface AdRewardResult {
+  success: boolean;
+  coins_awarded: number;
+  new_balance?: number;
+  message?: string;
+}
+
+// Credit a rewarded ad. The server verifies the ad network's transaction id and
+// picks the reward, and pays each transaction id once, so replays are harmless.
+export const claimAdReward = async (
+  userId: string,
+  adTransactionId: string,
+  idempotencyKey?: string
+): Promise<{ data: AdRewardResult | null; error: any }> => {
+  const { data, error } = await creditCoins({
+    userId,
+    reason: 'ad_reward',
+    referenceId: adTransactionId,
+    idempotencyKey
+  });
+
+  if (error || !data) {
+    return { data: null, error: error || { message: 'Ad reward was not verified' } };
+  }
+
+  return {
+    data: { success: true, coins_awarded: data.amount, new_balance: data.new_balance, message: data.message },
+    error: null
+  };
+};
+
+// Get user transaction history (newest first). Entries written before the ledger
+// existed live in the legacy transactions table and are merged in, so older
+// history doesn't disappear.
+export const getUserTransactionHistory = async (
+  userId: string,
+  limit: number = 50
+): Promise<{ data: LedgerEntry[] | null; error: any }> => {
+  try {
+    const supabase = getSupabase();
+    const [{ data, error }, { data: legacy, error: legacyError }] = await Promise.all([
+      supabase
+        .from('coin_transactions')
+        .select(`
+          id,
+          amount,
+          transaction_type,
+          description,
+          reference_id,
+          metadata,
+          created_at
+        `)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      supabase
+        .from('transactions')
+        .select('id, transaction_type, amount, description, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+    ]);
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    // The legacy table is read-only history; losing it shouldn't hide the ledger
+    if (legacyError) {
+      console.warn('Failed to load legacy transactions:', legacyError);
+    }
+
+    const legacyEntries: LedgerEntry[] = (legacy || []).map((row: any) => ({
+      ...row,
+      id: `legacy_${row.id}`,
+      reference_id: null,
+      metadata: { legacy: true }
+    }));
+
+    const merged = [...(data || []), ...legacyEntries]
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+      .slice(0, limit);
+
+    return { data: merged, error: null };
+  } catch (err) {
+    return { data: null, error: err };
+  }
+};
+
+// Compare profiles.coins with the sum of the ledger and report any drift
+export const reconcileCoinBalance = async (
+  userId: string
+): Promise<{ data: BalanceReconciliation | null; error: any }> => {
+  try {
+    const supabase = getSupabase();
+    const [{ data: profile, error: profileError }, { data: ledgerTotal, error: ledgerError }] = await Promise.all([
+      supabase.from('profiles').select('coins').eq('id', userId).single(),
+      callRpc('get_ledger_balance', { user_uuid: userId })
+    ]);
+
+    if (profileError || ledgerError) {
+      return { data: null, error: profileError || ledgerError };
+    }
+
+    const balance = Number(profile?.coins || 0);
+    const total = Number(ledgerTotal || 0);
+    const result: BalanceReconciliation = { balance, ledgerTotal: total, drift: balance - total };
+
+    if (result.drift !== 0) {
+      console.warn('⚖️ Coin balance drift detected:', result);
+      const { error: reportError } = await callRpc('report_coin_drift', {
+        user_uuid: userId,
+        profile_balance: balance,
+        ledger_balance: total,
+        drift_amount: result.drift
+      });
+
+      if (reportError) {
+        console.error('Failed to report coin drift:', reportError);
+      }
+    }
+
+    return { data: result, error: null };
+  } catch (err) {
+    return { data: null, error: err };
+  }
+};
+
 // Validate runtime configuration structure
 export const validateRuntimeConfig = (config: any): RuntimeConfig | null => {
   try {
@@ -578,8 +1570,12 @@ export const validateRuntimeConfig = (config: any): RuntimeConfig | null => {
       features: config.features || {},
       app: config.app || {},
       security: config.security || {},
-      metadata: config.metadata || {}
+      metadata: config.metadata || {},
+      // Optional server-tuned settings
+      entitlements: config.entitlements || undefined,
+      pricing: config.pricing?.currency ? { currency: String(config.pricing.currency).toUpperCase() } : undefined
     };
+    setServerApiVersion(validatedConfig.app.apiVersion);
 
     // Try to initialize Supabase with the validated config
     if (!supabaseClient && initializationAttempts < MAX_INITIALIZATION_ATTEMPTS) {
@@ -599,8 +1595,75 @@ export const validateRuntimeConfig = (config: any): RuntimeConfig | null => {
 };
 
 import SecurityService from '../services/SecurityService';
-// Fetch runtime configuration from secure endpoint
-export const fetchRuntimeConfig = async (): Promise<RuntimeConfig | null> => {
+
+// Tell the backend a config response failed signature verification
+export const reportConfigSignatureFailure = async (
+  source: string,
+  reason: SignatureFailure,
+  keyId: string | null
+): Promise<{ error: any }> => {
+  try {
+    console.warn('🔏 Runtime config rejected:', { source, reason, keyId });
+    SecurityService.getInstance().setSecurityCheckResult('configSignature', false);
+    if (!getSupabase()) {
+      return { error: new Error('Supabase not initialized') };
+    }
+
+    const { error } = await callRpc('report_config_signature_failure', {
+      config_source: source,
+      failure_reason: reason,
+      key_id: keyId,
+      device_fingerprint: await SecurityService.getInstance().generateDeviceFingerprint()
+    });
+
+    if (error) {
+      console.error('Failed to report config signature failure:', error);
+    }
+    return { error };
+  } catch (err) {
+    return { error: err };
+  }
+};
+
+// Config endpoint response as signed by the server
+export interface SignedConfigEnvelope {
+  data: any;
+  signature?: ConfigSignature | null;
+}
+
+// A config that passed acceptSignedRuntimeConfig, with the envelope it came from so
+// the cache can store it as signed and verify it again when it is loaded
+export interface VerifiedRuntimeConfig {
+  config: RuntimeConfig;
+  envelope: SignedConfigEnvelope;
+}
+
+// Validate a config envelope ({ data, signature }) only once its detached signature
+// checks out. Throws a ConfigSignatureError when the signature is rejected so callers
+// fall back to the last verified config.
+export const acceptSignedRuntimeConfig = async (response: any, source: string): Promise<VerifiedRuntimeConfig | null> => {
+  const envelope: SignedConfigEnvelope = { data: response?.data, signature: response?.signature ?? null };
+  const keys = getBundledSigningKeys();
+  if (!isConfigSignatureRequired(keys)) {
+    console.warn('🔏 No config signing keys bundled, accepting unsigned config');
+    const config = validateRuntimeConfig(envelope.data);
+    return config ? { config, envelope } : null;
+  }
+
+  const check = await verifyConfigSignature(envelope.data, envelope.signature, keys);
+  if (!check.valid) {
+    await reportConfigSignatureFailure(source, check.reason, check.kid);
+    throw new ConfigSignatureError(check.reason, check.kid);
+  }
+
+  SecurityService.getInstance().setSecurityCheckResult('configSignature', true);
+  const config = validateRuntimeConfig(envelope.data);
+  return config ? { config, envelope } : null;
+};
+
+// Fetch runtime configuration from secure endpoint. A rejected signature is rethrown
+// rather than retried on the public endpoint.
+export const fetchRuntimeConfig = async (): Promise<VerifiedRuntimeConfig | null> => {
   try {
     console.log('📱 Fetching runtime config from secure endpoint');
     const deviceId = await SecurityService.getInstance().generateDeviceFingerprint();
@@ -630,8 +1693,8 @@ export const fetchRuntimeConfig = async (): Promise<RuntimeConfig | null> => {
       throw new Error(result.error);
     }
 
-    // Validate the config structure
-    const validatedConfig = validateRuntimeConfig(result.data);
+    // Verify the signature, then validate the config structure
+    const validatedConfig = await acceptSignedRuntimeConfig(result, 'secure');
     if (validatedConfig) {
       return validatedConfig;
     }
@@ -639,6 +1702,7 @@ export const fetchRuntimeConfig = async (): Promise<RuntimeConfig | null> => {
     throw new Error('Invalid config structure in response data');
   } catch (error) {
     console.error('📱 Failed to fetch runtime config from secure endpoint:', error);
+    if (error instanceof ConfigSignatureError) throw error;
 
     // Fallback to public endpoint for backward compatibility (minimal data)
     try {
@@ -656,8 +1720,8 @@ export const fetchRuntimeConfig = async (): Promise<RuntimeConfig | null> => {
         throw new Error(result.error);
       }
 
-      // Validate the public config structure
-      const validatedConfig = validateRuntimeConfig(result.data);
+      // Verify the signature, then validate the public config structure
+      const validatedConfig = await acceptSignedRuntimeConfig(result, 'public');
       if (validatedConfig) {
         console.log('📱 Public endpoint config validated successfully');
         return validatedConfig;
@@ -666,6 +1730,7 @@ export const fetchRuntimeConfig = async (): Promise<RuntimeConfig | null> => {
       throw new Error('Invalid config structure in public endpoint response');
     } catch (fallbackError) {
       console.error('📱 Both secure and public endpoints failed:', fallbackError);
+      if (fallbackError instanceof ConfigSignatureError) throw fallbackError;
       return null;
     }
   }
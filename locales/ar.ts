@@ -0,0 +1,51 @@
+import type { MessageCatalogFor } from './index';
+
+const ar: MessageCatalogFor = {
+  'common.ok': 'حسنًا',
+  'common.cancel': 'إلغاء',
+  'common.confirm': 'تأكيد',
+  'common.delete': 'حذف',
+  'common.error': 'خطأ',
+  'common.retry': 'إعادة المحاولة',
+  'common.refresh': 'تحديث',
+  'common.loading': 'جارٍ التحميل...',
+  'common.processing': 'جارٍ المعالجة...',
+  'common.all': 'الكل',
+  'common.somethingWentWrong': 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+
+  'tabs.view': 'مشاهدة',
+  'tabs.promote': 'ترويج',
+  'tabs.analytics': 'الإحصائيات',
+  'tabs.more': 'المزيد',
+
+  'menu.darkMode': '🌙 الوضع الداكن',
+  'menu.referFriend': 'ادعُ صديقًا',
+  'menu.privacyPolicy': 'سياسة الخصوصية',
+  'menu.terms': 'شروط الخدمة',
+  'menu.languages': 'اللغات',
+  'menu.contactSupport': 'تواصل مع الدعم',
+  'menu.faq': 'الأسئلة الشائعة',
+  'menu.logOut': 'تسجيل الخروج',
+  'menu.deleteAccount': 'حذف الحساب',
+  'menu.userFallback': 'مستخدم',
+  'menu.version': 'الإصدار {version}',
+
+  'view.loadingVideos': 'جارٍ تحميل الفيديوهات...',
+  'view.noVideos': 'لا توجد فيديوهات متاحة',
+  'view.openOnYouTube': 'فتح في YouTube',
+  'view.earnNow': 'اربح {count, plural, zero {# عملة} one {عملة واحدة} two {عملتين} few {# عملات} many {# عملة} other {# عملة}} الآن',
+  'view.skipVideo': 'تخطي الفيديو',
+
+  'more.buyCoins': 'شراء العملات',
+  'more.becomeVip': 'كن VIP',
+  'more.rateUs': 'قيّمنا',
+  'more.reportProblem': 'الإبلاغ عن مشكلة',
+
+  'languages.title': 'اللغات',
+  'languages.subtitle': 'اختر لغة التطبيق',
+  'languages.restartTitle': 'أعد التشغيل لتغيير الاتجاه',
+  'languages.restartMessage': 'تُقرأ هذه اللغة من اليمين إلى اليسار. أعد تشغيل VidGro لعكس التخطيط.',
+  'languages.restartNow': 'إعادة التشغيل',
+};
+
+export default ar;
@@ -0,0 +1,48 @@
+import type { MessageCatalogFor } from './index';
+
+const de: MessageCatalogFor = {
+  'common.ok': 'OK',
+  'common.cancel': 'Abbrechen',
+  'common.confirm': 'Bestätigen',
+  'common.delete': 'Löschen',
+  'common.error': 'Fehler',
+  'common.retry': 'Erneut versuchen',
+  'common.refresh': 'Aktualisieren',
+  'common.loading': 'Wird geladen...',
+  'common.processing': 'Wird verarbeitet...',
+  'common.all': 'Alle',
+  'common.somethingWentWrong': 'Etwas ist schiefgelaufen. Bitte versuche es erneut.',
+
+  'tabs.view': 'Ansehen',
+  'tabs.promote': 'Bewerben',
+  'tabs.analytics': 'Statistiken',
+  'tabs.more': 'Mehr',
+
+  'menu.darkMode': '🌙 Dunkelmodus',
+  'menu.referFriend': 'Freunde einladen',
+  'menu.privacyPolicy': 'Datenschutz',
+  'menu.terms': 'Nutzungsbedingungen',
+  'menu.languages': 'Sprachen',
+  'menu.contactSupport': 'Support kontaktieren',
+  'menu.faq': 'FAQ',
+  'menu.logOut': 'Abmelden',
+  'menu.deleteAccount': 'Konto löschen',
+  'menu.userFallback': 'Nutzer',
+  'menu.version': 'Version {version}',
+
+  'view.loadingVideos': 'Videos werden geladen...',
+  'view.noVideos': 'Keine Videos verfügbar',
+  'view.openOnYouTube': 'Auf YouTube öffnen',
+  'view.earnNow': 'JETZT {count, plural, one {# MÜNZE} other {# MÜNZEN}} VERDIENEN',
+  'view.skipVideo': 'VIDEO ÜBERSPRINGEN',
+
+  'more.buyCoins': 'Münzen kaufen',
+  'more.becomeVip': 'VIP werden',
+  'more.rateUs': 'Bewerte uns',
+  'more.reportProblem': 'Problem melden',
+
+  'languages.title': 'Sprachen',
+  'languages.subtitle': 'Wähle die Sprache der App',
+};
+
+export default de;
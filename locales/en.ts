@@ -0,0 +1,157 @@
+// English is the source catalog: every key lives here, and other languages
+// fall back to it for anything they haven't translated yet.
+const en = {
+  // Shared
+  'common.ok': 'OK',
+  'common.cancel': 'Cancel',
+  'common.confirm': 'Confirm',
+  'common.delete': 'Delete',
+  'common.error': 'Error',
+  'common.retry': 'Retry',
+  'common.refresh': 'Refresh',
+  'common.loading': 'Loading...',
+  'common.processing': 'Processing...',
+  'common.all': 'All',
+  'common.somethingWentWrong': 'Something went wrong. Please try again.',
+
+  // Tab bar
+  'tabs.view': 'View',
+  'tabs.promote': 'Promote',
+  'tabs.analytics': 'Analytics',
+  'tabs.more': 'More',
+
+  // Side menu (GlobalHeader)
+  'menu.darkMode': '🌙 Dark Mode',
+  'menu.referFriend': 'Refer a Friend',
+  'menu.privacyPolicy': 'Privacy Policy',
+  'menu.terms': 'Terms of Service',
+  'menu.languages': 'Languages',
+  'menu.contactSupport': 'Contact Support',
+  'menu.faq': 'FAQ',
+  'menu.logOut': 'Log Out',
+  'menu.deleteAccount': 'Delete Account',
+  'menu.userFallback': 'User',
+  'menu.version': 'Version {version}',
+
+  // View tab
+  'view.redirecting': 'Redirecting to login...',
+  'view.loadingVideos': 'Loading videos...',
+  'view.noVideos': 'No videos available',
+  'view.loadingNext': 'Loading next video...',
+  'view.openOnYouTube': 'Open on YouTube',
+  'view.autoSkip': 'Auto Skip',
+  'view.secondsToEarn': 'Seconds to earn coins',
+  'view.coinsToEarn': 'Coins to earn',
+  'view.earnMore': 'Earn more: Subscribe & Like',
+  'view.processing': 'PROCESSING...',
+  'view.coinsEarnedContinue': 'COINS EARNED! TAP TO CONTINUE',
+  'view.earnNow': 'EARN {count, plural, one {# COIN} other {# COINS}} NOW',
+  'view.videoErrorSkip': 'VIDEO ERROR - TAP TO SKIP',
+  'view.tapToSkip': 'TAP TO SKIP',
+  'view.skipVideo': 'SKIP VIDEO',
+  'view.rewardPendingTitle': 'Reward Pending',
+  'view.rewardPendingMessage': "{count, plural, one {# coin} other {# coins}} will be added once you're back online.",
+  'view.openYouTubeFailed': 'Could not open YouTube video',
+  'view.reportFailedTitle': 'Report Failed',
+  'view.reportFailedMessage': 'Could not send your report. Please try again.',
+  'view.reportThanksTitle': 'Thanks for the report',
+  'view.reportThanksMessage': "We'll review this video. You won't see it again.",
+
+  // Promote tab
+  'promote.urlLabel': 'YouTube Video URL',
+  'promote.titleLabel': 'Video Title',
+  'promote.campaignTypeLabel': 'Campaign Type',
+  'promote.durationLabel': 'Video Duration (seconds)',
+  'promote.startLabel': 'Start',
+  'promote.runForLabel': 'Run For',
+  'promote.audienceLanguageLabel': 'Audience Language',
+  'promote.audienceCountryLabel': 'Audience Country',
+  'promote.summaryTitle': 'Promotion Summary',
+  'promote.summaryDuration': 'Duration:',
+  'promote.summaryAudience': 'Audience:',
+  'promote.summarySchedule': 'Schedule:',
+  'promote.summaryBaseCost': 'Base Cost:',
+  'promote.summaryTargeting': 'Targeting:',
+  'promote.summaryViewerReward': 'Viewer Reward:',
+  'promote.summaryFinalCost': 'Final Cost:',
+  'promote.howItWorks': 'How it works',
+
+  // Analytics tab
+  'analytics.loading': 'Loading analytics...',
+  'analytics.overview': 'Overview',
+  'analytics.videoStatus': 'Video Status',
+  'analytics.statusActive': 'Active',
+  'analytics.statusCompleted': 'Completed',
+  'analytics.statusOnHold': 'On Hold',
+  'analytics.statusRepromoted': 'Repromoted',
+  'analytics.promotedVideos': 'Promoted Videos',
+  'analytics.noVideosTitle': 'No Videos Yet',
+  'analytics.noVideosMessage': 'Start promoting your videos to see analytics here',
+  'analytics.targetReached': 'Target Reached',
+  'analytics.recentActivity': 'Recent Activity',
+  'analytics.noActivityTitle': 'No Recent Activity',
+  'analytics.noActivityMessage': 'Your coin transactions will appear here',
+
+  // More tab
+  'more.freeCoinsTitle': '🎁 Free Coins Available',
+  'more.watchAndEarn': '🎬 Watch & Earn',
+  'more.cooldown': '⏰ Cooldown',
+  'more.adOffer': '30s ad = {count, plural, one {# coin} other {# coins}}',
+  'more.nextIn': 'Next in {time}',
+  'more.loadingAd': 'Loading Ad...',
+  'more.tapToWatch': 'Tap to watch 30s ad',
+  'more.nextFreeCoinsIn': 'Next free coins in {time}',
+  'more.buyCoins': 'Buy Coins',
+  'more.buyCoinsSubtitle': 'Unlock Rewards',
+  'more.becomeVip': 'Become VIP',
+  'more.becomeVipSubtitle': 'Premium Access',
+  'more.stopAds': 'Stop Ads',
+  'more.stopAdsSubtitle': '5 Hours Ad-Free',
+  'more.rateUs': 'Rate Us',
+  'more.rateUsSubtitle': 'Get 100 Coins',
+  'more.reportProblem': 'Report Problem',
+  'more.reportProblemSubtitle': 'Technical Issues',
+  'more.adsDisabledTitle': 'Feature Unavailable',
+  'more.adsDisabledMessage': 'Free coins through ads are currently disabled.',
+  'more.adBlockerTitle': 'Ad Blocker Detected',
+  'more.adBlockerMessage': 'Please disable ad blocking software to earn free coins through ads. Reset detection and try again?',
+  'more.watchAdTitle': '🎬 Watch Ad for Free Coins',
+  'more.watchAdMessage': 'Watch a 30-second ad to earn {count, plural, one {# free coin} other {# free coins}}. Continue?',
+  'more.coinsEarnedTitle': '🎉 Coins Earned!',
+  'more.coinsEarnedMessage': '{count, plural, one {# coin has} other {# coins have}} been added to your account! Come back in 2 hours for more free coins.',
+  'more.awardFailed': 'Failed to award coins. Please try again.',
+  'more.adFailedTitle': 'Ad Failed',
+  'more.adFailedMessage': 'Unable to show ad. Please try again later.',
+
+  // Languages screen
+  'languages.title': 'Languages',
+  'languages.subtitle': 'Choose your preferred language for the app interface',
+  'languages.restartTitle': 'Restart to switch layout',
+  'languages.restartMessage': 'This language reads in the other direction. Restart VidGro to mirror the layout.',
+  'languages.restartNow': 'Restart',
+
+  // Maintenance and update gates
+  'gate.maintenanceTitle': 'Under Maintenance',
+  'gate.maintenanceMessage': 'VidGro is getting some upgrades. Your coins and promotions are safe.',
+  'gate.maintenanceEndsAt': 'Expected back by {time}',
+  'gate.checkingIn': 'Checking again in {time}',
+  'gate.checking': 'Checking...',
+  'gate.retryNow': 'Retry now',
+  'gate.updateTitle': 'Update Available',
+  'gate.updateRequiredTitle': 'Update Required',
+  'gate.updateMessage': 'Version {version} of VidGro is available with the latest fixes and features.',
+  'gate.updateRequiredMessage': 'This version of VidGro is no longer supported. Update to version {version} or later to continue.',
+  'gate.apiUpdateMessage': 'This version of VidGro can no longer connect to our servers. Update to continue.',
+  'gate.installedVersion': 'Installed version: {version}',
+  'gate.updateNow': 'Update now',
+  'gate.updateFromStore': 'Update VidGro from your app store to continue.',
+  'gate.later': 'Later',
+  'languages.supportTitle': 'Language Support',
+  'languages.supportText': '• All interface elements will be translated\n• Video titles and descriptions remain in original language\n• Support messages will be in your selected language',
+  'languages.noteTitle': '📝 Note',
+  'languages.noteText': 'Some languages are still being translated. Untranslated text is shown in English. If you notice any missing translations, please contact our support team.',
+};
+
+export type TranslationKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,56 @@
+import type { MessageCatalogFor } from './index';
+
+const es: MessageCatalogFor = {
+  'common.ok': 'Aceptar',
+  'common.cancel': 'Cancelar',
+  'common.confirm': 'Confirmar',
+  'common.delete': 'Eliminar',
+  'common.error': 'Error',
+  'common.retry': 'Reintentar',
+  'common.refresh': 'Actualizar',
+  'common.loading': 'Cargando...',
+  'common.processing': 'Procesando...',
+  'common.all': 'Todos',
+  'common.somethingWentWrong': 'Algo salió mal. Inténtalo de nuevo.',
+
+  'tabs.view': 'Ver',
+  'tabs.promote': 'Promocionar',
+  'tabs.analytics': 'Estadísticas',
+  'tabs.more': 'Más',
+
+  'menu.darkMode': '🌙 Modo oscuro',
+  'menu.referFriend': 'Invita a un amigo',
+  'menu.privacyPolicy': 'Política de privacidad',
+  'menu.terms': 'Términos del servicio',
+  'menu.languages': 'Idiomas',
+  'menu.contactSupport': 'Contactar con soporte',
+  'menu.faq': 'Preguntas frecuentes',
+  'menu.logOut': 'Cerrar sesión',
+  'menu.deleteAccount': 'Eliminar cuenta',
+  'menu.userFallback': 'Usuario',
+  'menu.version': 'Versión {version}',
+
+  'view.loadingVideos': 'Cargando videos...',
+  'view.noVideos': 'No hay videos disponibles',
+  'view.openOnYouTube': 'Abrir en YouTube',
+  'view.secondsToEarn': 'Segundos para ganar monedas',
+  'view.coinsToEarn': 'Monedas por ganar',
+  'view.earnNow': 'GANA {count, plural, one {# MONEDA} other {# MONEDAS}} AHORA',
+  'view.skipVideo': 'SALTAR VIDEO',
+
+  'more.buyCoins': 'Comprar monedas',
+  'more.becomeVip': 'Hazte VIP',
+  'more.rateUs': 'Califícanos',
+  'more.reportProblem': 'Reportar problema',
+
+  'languages.title': 'Idiomas',
+  'languages.subtitle': 'Elige el idioma de la aplicación',
+
+  'gate.maintenanceTitle': 'En mantenimiento',
+  'gate.retryNow': 'Reintentar ahora',
+  'gate.updateRequiredTitle': 'Actualización necesaria',
+  'gate.updateNow': 'Actualizar ahora',
+  'gate.later': 'Más tarde',
+};
+
+export default es;
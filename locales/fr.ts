@@ -0,0 +1,48 @@
+import type { MessageCatalogFor } from './index';
+
+const fr: MessageCatalogFor = {
+  'common.ok': 'OK',
+  'common.cancel': 'Annuler',
+  'common.confirm': 'Confirmer',
+  'common.delete': 'Supprimer',
+  'common.error': 'Erreur',
+  'common.retry': 'Réessayer',
+  'common.refresh': 'Actualiser',
+  'common.loading': 'Chargement...',
+  'common.processing': 'Traitement...',
+  'common.all': 'Tous',
+  'common.somethingWentWrong': "Une erreur s'est produite. Veuillez réessayer.",
+
+  'tabs.view': 'Regarder',
+  'tabs.promote': 'Promouvoir',
+  'tabs.analytics': 'Statistiques',
+  'tabs.more': 'Plus',
+
+  'menu.darkMode': '🌙 Mode sombre',
+  'menu.referFriend': 'Parrainer un ami',
+  'menu.privacyPolicy': 'Politique de confidentialité',
+  'menu.terms': "Conditions d'utilisation",
+  'menu.languages': 'Langues',
+  'menu.contactSupport': 'Contacter le support',
+  'menu.faq': 'FAQ',
+  'menu.logOut': 'Se déconnecter',
+  'menu.deleteAccount': 'Supprimer le compte',
+  'menu.userFallback': 'Utilisateur',
+  'menu.version': 'Version {version}',
+
+  'view.loadingVideos': 'Chargement des vidéos...',
+  'view.noVideos': 'Aucune vidéo disponible',
+  'view.openOnYouTube': 'Ouvrir sur YouTube',
+  'view.earnNow': 'GAGNEZ {count, plural, one {# PIÈCE} other {# PIÈCES}} MAINTENANT',
+  'view.skipVideo': 'PASSER LA VIDÉO',
+
+  'more.buyCoins': 'Acheter des pièces',
+  'more.becomeVip': 'Devenir VIP',
+  'more.rateUs': 'Notez-nous',
+  'more.reportProblem': 'Signaler un problème',
+
+  'languages.title': 'Langues',
+  'languages.subtitle': "Choisissez la langue de l'application",
+};
+
+export default fr;
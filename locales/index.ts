@@ -0,0 +1,23 @@
+import en from './en';
+import es from './es';
+import fr from './fr';
+import de from './de';
+import pt from './pt';
+import ar from './ar';
+import type { TranslationKey } from './en';
+
+export type { TranslationKey };
+
+// Translations may be partial; missing keys fall back to English
+export type MessageCatalogFor = Partial<Record<TranslationKey, string>>;
+
+// Languages without a catalog here (see LANGUAGES in utils/audienceTargeting)
+// are shown in English
+export const CATALOGS: Record<string, MessageCatalogFor> = {
+  en,
+  es,
+  fr,
+  de,
+  pt,
+  ar,
+};
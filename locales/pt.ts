@@ -0,0 +1,48 @@
+import type { MessageCatalogFor } from './index';
+
+const pt: MessageCatalogFor = {
+  'common.ok': 'OK',
+  'common.cancel': 'Cancelar',
+  'common.confirm': 'Confirmar',
+  'common.delete': 'Excluir',
+  'common.error': 'Erro',
+  'common.retry': 'Tentar novamente',
+  'common.refresh': 'Atualizar',
+  'common.loading': 'Carregando...',
+  'common.processing': 'Processando...',
+  'common.all': 'Todos',
+  'common.somethingWentWrong': 'Algo deu errado. Tente novamente.',
+
+  'tabs.view': 'Assistir',
+  'tabs.promote': 'Promover',
+  'tabs.analytics': 'Estatísticas',
+  'tabs.more': 'Mais',
+
+  'menu.darkMode': '🌙 Modo escuro',
+  'menu.referFriend': 'Indique um amigo',
+  'menu.privacyPolicy': 'Política de privacidade',
+  'menu.terms': 'Termos de serviço',
+  'menu.languages': 'Idiomas',
+  'menu.contactSupport': 'Falar com o suporte',
+  'menu.faq': 'Perguntas frequentes',
+  'menu.logOut': 'Sair',
+  'menu.deleteAccount': 'Excluir conta',
+  'menu.userFallback': 'Usuário',
+  'menu.version': 'Versão {version}',
+
+  'view.loadingVideos': 'Carregando vídeos...',
+  'view.noVideos': 'Nenhum vídeo disponível',
+  'view.openOnYouTube': 'Abrir no YouTube',
+  'view.earnNow': 'GANHE {count, plural, one {# MOEDA} other {# MOEDAS}} AGORA',
+  'view.skipVideo': 'PULAR VÍDEO',
+
+  'more.buyCoins': 'Comprar moedas',
+  'more.becomeVip': 'Seja VIP',
+  'more.rateUs': 'Avalie-nos',
+  'more.reportProblem': 'Relatar problema',
+
+  'languages.title': 'Idiomas',
+  'languages.subtitle': 'Escolha o idioma do aplicativo',
+};
+
+export default pt;
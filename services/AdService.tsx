@@ -74,7 +74,9 @@ class AdService {
     }
   }
 
-  async showRewardedAd(): Promise<{ success: boolean; reward?: number }> {
+  // transactionId is the ad network's id for the rewarded impression; the server
+  // verifies it and decides the reward, so `reward` is only a display hint
+  async showRewardedAd(): Promise<{ success: boolean; reward?: number; transactionId?: string }> {
     if (!this.isInitialized || !this.config) {
       console.error('AdService not initialized');
       return { success: false };
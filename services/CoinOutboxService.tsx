@@ -0,0 +1,263 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, Platform } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import { completeWatchSession, completeEngagementAction, recordCoinPurchase, claimAdReward } from '../lib/supabase';
+import type { CoinPurchaseReceipt } from '../lib/supabase';
+
+const OUTBOX_KEY = 'coin_outbox';
+const BASE_RETRY_DELAY = 2000; // ms, doubled after every failed attempt
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+// Payloads for every coin-affecting call that may be replayed
+interface OutboxPayloads {
+  watch_reward: {
+    sessionId: string;
+    userId: string;
+    videoId: string;
+  };
+  coin_purchase: CoinPurchaseReceipt;
+  engagement_reward: {
+    actionId: string;
+    userId: string;
+    evidence: Record<string, any>;
+  };
+  ad_reward: {
+    userId: string;
+    adTransactionId: string; // the ad network's id for the rewarded impression
+  };
+}
+
+export type OutboxKind = keyof OutboxPayloads;
+
+export interface OutboxEntry<K extends OutboxKind = OutboxKind> {
+  id: string; // idempotency key, reused on every replay
+  kind: K;
+  payload: OutboxPayloads[K];
+  userId: string;
+  coins: number; // expected credit, shown as pending until the server confirms
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: string;
+  lastError?: string;
+}
+
+export interface OutboxResult {
+  data: any;
+  error: any;
+  queued: boolean; // true when the call failed on the network and will be replayed
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const handlers: {
+  [K in OutboxKind]: (payload: OutboxPayloads[K], idempotencyKey: string) => Promise<{ data: any; error: any }>;
+} = {
+  watch_reward: (payload, idempotencyKey) =>
+    completeWatchSession(payload.sessionId, payload.userId, payload.videoId, idempotencyKey),
+  coin_purchase: (payload, idempotencyKey) => recordCoinPurchase(payload, idempotencyKey),
+  engagement_reward: (payload, idempotencyKey) =>
+    completeEngagementAction(payload.actionId, payload.userId, payload.evidence, idempotencyKey),
+  ad_reward: (payload, idempotencyKey) => claimAdReward(payload.userId, payload.adTransactionId, idempotencyKey),
+};
+
+// Only transport failures are retried; anything the server answered is final
+function isNetworkError(error: any): boolean {
+  if (!error) return false;
+  if (error instanceof TypeError) return true;
+  const message = String(error.message || error).toLowerCase();
+  return /network|failed to fetch|timeout|timed out|offline|connection/.test(message);
+}
+
+class CoinOutboxService {
+  private static instance: CoinOutboxService;
+  private entries: OutboxEntry[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<OutboxListener>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight = new Set<string>();
+  private isInitialized = false;
+
+  static getInstance(): CoinOutboxService {
+    if (!CoinOutboxService.instance) {
+      CoinOutboxService.instance = new CoinOutboxService();
+    }
+    return CoinOutboxService.instance;
+  }
+
+  // Loads saved entries and replays them whenever the app comes back online or to the foreground
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return this.load();
+    }
+    this.isInitialized = true;
+
+    AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        this.flush();
+      }
+    });
+
+    if (Platform.OS === 'web' && typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.flush());
+    }
+
+    await this.load();
+    this.flush();
+  }
+
+  // Saves the call before sending it, so a crash or lost connection can't drop the coins
+  async submit<K extends OutboxKind>(
+    kind: K,
+    payload: OutboxPayloads[K],
+    options: { userId: string; coins: number }
+  ): Promise<OutboxResult> {
+    await this.load();
+
+    const entry: OutboxEntry<K> = {
+      id: Crypto.randomUUID(),
+      kind,
+      payload,
+      userId: options.userId,
+      coins: options.coins,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.entries = [...this.entries, entry];
+    await this.save();
+
+    const result = await this.attempt(entry);
+
+    // A call just got through, so anything still waiting probably will too
+    if (!result.queued) {
+      this.flush();
+    }
+    return result;
+  }
+
+  // Replays every entry whose backoff has elapsed, stopping at the first network failure
+  async flush(): Promise<void> {
+    await this.load();
+
+    const due = this.entries.filter(entry => entry.nextAttemptAt <= Date.now());
+    for (const entry of due) {
+      const result = await this.attempt(entry);
+      if (result.queued) {
+        break;
+      }
+    }
+
+    this.scheduleRetry();
+  }
+
+  getPendingEntries(userId?: string): OutboxEntry[] {
+    return userId ? this.entries.filter(entry => entry.userId === userId) : [...this.entries];
+  }
+
+  getPendingCoins(userId?: string): number {
+    return this.getPendingEntries(userId).reduce((sum, entry) => sum + entry.coins, 0);
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async attempt(entry: OutboxEntry): Promise<OutboxResult> {
+    if (this.inFlight.has(entry.id)) {
+      return { data: null, error: new Error('Already being sent'), queued: true };
+    }
+
+    this.inFlight.add(entry.id);
+    try {
+      const handler = handlers[entry.kind] as (payload: any, idempotencyKey: string) => Promise<{ data: any; error: any }>;
+      let result: { data: any; error: any };
+      try {
+        result = await handler(entry.payload, entry.id);
+      } catch (error) {
+        result = { data: null, error };
+      }
+
+      if (result.error && isNetworkError(result.error)) {
+        const attempts = entry.attempts + 1;
+        const delay = Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+        this.replace(entry.id, {
+          ...entry,
+          attempts,
+          nextAttemptAt: Date.now() + delay,
+          lastError: String(result.error.message || result.error),
+        });
+        console.log(`📮 ${entry.kind} queued for retry in ${Math.round(delay / 1000)}s (attempt ${attempts})`);
+        await this.save();
+        this.scheduleRetry();
+        return { ...result, queued: true };
+      }
+
+      // Confirmed or rejected by the server; either way it must not be sent again
+      if (result.error) {
+        console.warn(`📮 ${entry.kind} rejected by server:`, result.error);
+      } else if (entry.attempts > 0) {
+        console.log(`📮 ${entry.kind} delivered after ${entry.attempts} retries`);
+      }
+      this.entries = this.entries.filter(item => item.id !== entry.id);
+      await this.save();
+      return { ...result, queued: false };
+    } finally {
+      this.inFlight.delete(entry.id);
+    }
+  }
+
+  private replace(id: string, entry: OutboxEntry) {
+    this.entries = this.entries.map(item => (item.id === id ? entry : item));
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    if (this.entries.length === 0) return;
+
+    const nextAttemptAt = Math.min(...this.entries.map(entry => entry.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+          this.entries = stored ? JSON.parse(stored) : [];
+        } catch (error) {
+          console.warn('📮 Failed to read coin outbox:', error);
+          this.entries = [];
+        }
+        this.notify();
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async save(): Promise<void> {
+    this.notify();
+    try {
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.warn('📮 Failed to save coin outbox:', error);
+    }
+  }
+
+  private notify() {
+    const entries = [...this.entries];
+    this.listeners.forEach(listener => listener(entries));
+  }
+}
+
+export default CoinOutboxService;
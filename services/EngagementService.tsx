@@ -0,0 +1,180 @@
+import { AppState, AppStateStatus, Linking, NativeEventSubscription } from 'react-native';
+import { startEngagementAction } from '../lib/supabase';
+import type { EngagementAction, EngagementCampaign } from '../lib/supabase';
+import type { EngagementCampaignType } from '../utils/campaignTypes';
+import CoinOutboxService from './CoinOutboxService';
+import type { OutboxResult } from './CoinOutboxService';
+
+// A subscribe or like the viewer went to YouTube to do
+export interface EngagementAttempt {
+  actionId: string;
+  userId: string;
+  videoId: string;
+  youtubeUrl: string;
+  type: EngagementCampaignType;
+  coinReward: number;
+  openedAt: number;
+  awaySeconds: number; // time spent outside the app since YouTube was opened
+}
+
+export interface VerificationResult {
+  verified: boolean;
+  evidence: Record<string, any>; // sent to complete_engagement_action
+  reason?: string; // shown to the viewer when not verified
+}
+
+// Decides whether the viewer really subscribed or liked. Swap in a YouTube Data
+// API implementation with EngagementService.setVerifier.
+export interface EngagementVerifier {
+  name: string;
+  verify(attempt: EngagementAttempt): Promise<VerificationResult>;
+}
+
+// Minimum time outside the app before an action counts, by campaign type
+const MIN_AWAY_SECONDS: Record<EngagementCampaignType, number> = {
+  subscribe: 5,
+  like: 3,
+};
+
+// Local stand-in for the YouTube API: it can't see the viewer's account, so it
+// only checks that they actually left for YouTube long enough to act. The server
+// treats its evidence as unconfirmed.
+export class LocalYouTubeVerifier implements EngagementVerifier {
+  name = 'local';
+
+  async verify(attempt: EngagementAttempt): Promise<VerificationResult> {
+    const required = MIN_AWAY_SECONDS[attempt.type];
+    const evidence = {
+      verifier: this.name,
+      away_seconds: Math.round(attempt.awaySeconds),
+      opened_at: new Date(attempt.openedAt).toISOString(),
+    };
+
+    if (attempt.awaySeconds < required) {
+      return {
+        verified: false,
+        evidence,
+        reason: `Open the video on YouTube and ${attempt.type === 'subscribe' ? 'subscribe to the channel' : 'like it'} first`,
+      };
+    }
+
+    return { verified: true, evidence };
+  }
+}
+
+function getYouTubeUrl(youtubeUrl: string): string {
+  if (youtubeUrl.length === 11 && !/[^a-zA-Z0-9_-]/.test(youtubeUrl)) {
+    return `https://www.youtube.com/watch?v=${youtubeUrl}`;
+  }
+  return youtubeUrl;
+}
+
+class EngagementService {
+  private static instance: EngagementService;
+  private verifier: EngagementVerifier = new LocalYouTubeVerifier();
+  private attempt: EngagementAttempt | null = null;
+  private leftAt: number | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  static getInstance(): EngagementService {
+    if (!EngagementService.instance) {
+      EngagementService.instance = new EngagementService();
+    }
+    return EngagementService.instance;
+  }
+
+  setVerifier(verifier: EngagementVerifier) {
+    this.verifier = verifier;
+  }
+
+  getVerifier(): EngagementVerifier {
+    return this.verifier;
+  }
+
+  // Opens an action on the server, then sends the viewer to YouTube to do it
+  async start(
+    userId: string,
+    campaign: EngagementCampaign
+  ): Promise<{ data: EngagementAction | null; error: any }> {
+    this.cancel();
+
+    const { data, error } = await startEngagementAction(userId, campaign.video_id);
+    if (error || !data?.action_id) {
+      console.error('👍 Failed to start engagement action:', error);
+      return { data: null, error: error || new Error('Campaign is not available') };
+    }
+
+    this.attempt = {
+      actionId: data.action_id,
+      userId,
+      videoId: campaign.video_id,
+      youtubeUrl: campaign.youtube_url,
+      type: campaign.campaign_type,
+      coinReward: data.coin_reward ?? campaign.coin_reward,
+      openedAt: Date.now(),
+      awaySeconds: 0,
+    };
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+
+    try {
+      await Linking.openURL(getYouTubeUrl(campaign.youtube_url));
+    } catch (openError) {
+      this.cancel();
+      return { data: null, error: new Error('Could not open YouTube') };
+    }
+
+    console.log('👍 Engagement action started:', data.action_id, campaign.campaign_type);
+    return { data, error: null };
+  }
+
+  // Checks the current attempt with the verifier and claims the reward through
+  // the coin outbox. A failed check keeps the attempt open so the viewer can retry.
+  async verify(): Promise<OutboxResult> {
+    const attempt = this.attempt;
+    if (!attempt) {
+      return { data: null, error: new Error('No engagement action in progress'), queued: false };
+    }
+
+    const result = await this.verifier.verify({ ...attempt });
+    if (!result.verified) {
+      return { data: null, error: new Error(result.reason || 'Could not verify the action'), queued: false };
+    }
+
+    const outcome = await CoinOutboxService.getInstance().submit(
+      'engagement_reward',
+      { actionId: attempt.actionId, userId: attempt.userId, evidence: result.evidence },
+      { userId: attempt.userId, coins: attempt.coinReward }
+    );
+
+    if (this.attempt === attempt) {
+      this.cancel();
+    }
+    return outcome;
+  }
+
+  getAttempt(): EngagementAttempt | null {
+    return this.attempt;
+  }
+
+  cancel() {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.attempt = null;
+    this.leftAt = null;
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (!this.attempt) return;
+
+    if (state === 'active') {
+      if (this.leftAt !== null) {
+        this.attempt.awaySeconds += (Date.now() - this.leftAt) / 1000;
+        this.leftAt = null;
+      }
+    } else if (this.leftAt === null) {
+      this.leftAt = Date.now();
+    }
+  };
+}
+
+export default EngagementService;
@@ -0,0 +1,381 @@
+import { Platform } from 'react-native';
+import CoinOutboxService from './CoinOutboxService';
+import { activateVipSubscription } from '../lib/supabase';
+import type { CoinPurchaseStatus, VipActivationStatus } from '../lib/supabase';
+
+export interface PurchasablePackage {
+  id: string;
+  productId: string;
+  coins: number;
+  bonus: number;
+}
+
+export interface PurchasableSubscription {
+  id: string; // VIP plan id
+  productId: string;
+}
+
+export type PurchaseOutcomeStatus =
+  | CoinPurchaseStatus
+  | VipActivationStatus
+  | 'queued' // verification couldn't reach the server; retried from the coin outbox
+  | 'failed'
+  | 'cancelled';
+
+export interface PurchaseOutcome {
+  status: PurchaseOutcomeStatus;
+  productId?: string;
+  coins?: number;
+  vipExpiresAt?: string | null;
+  message?: string;
+}
+
+type OutcomeListener = (outcome: PurchaseOutcome) => void;
+
+// Store products for the coin packages and VIP plans. All of them are listened for
+// app-wide, so renewals and interrupted purchases are verified and finished without
+// opening a screen (Google Play refunds purchases left unacknowledged for 3 days).
+export const COIN_PACKAGES: PurchasablePackage[] = [
+  { id: 'starter', productId: 'com.vidgro.coins.starter', coins: 1000, bonus: 100 },
+  { id: 'creator', productId: 'com.vidgro.coins.creator', coins: 2500, bonus: 500 },
+  { id: 'pro', productId: 'com.vidgro.coins.pro', coins: 5000, bonus: 1500 },
+  { id: 'premium', productId: 'com.vidgro.coins.premium', coins: 10000, bonus: 5000 },
+];
+
+export const VIP_SUBSCRIPTIONS: PurchasableSubscription[] = [
+  { id: 'weekly', productId: 'com.vidgro.vip.weekly' },
+  { id: 'monthly', productId: 'com.vidgro.vip.monthly' },
+];
+
+// Statuses after which the store transaction can be finished: the server has either
+// credited it or decided it never will. Anything else stays unfinished so the store
+// delivers it again on the next launch.
+const FINAL_STATUSES: PurchaseOutcomeStatus[] = [
+  'credited',
+  'already_credited',
+  'activated',
+  'renewed',
+  'already_applied',
+  'refunded',
+  'invalid',
+];
+
+// Store purchases for coin packages and VIP subscriptions. Every receipt is verified
+// server-side (recordCoinPurchase / activateVipSubscription); nothing is granted on the client.
+class PurchaseService {
+  private static instance: PurchaseService;
+  private iap: any = null;
+  private userId: string | null = null;
+  private packages: PurchasablePackage[] = [];
+  private subscriptionProducts: PurchasableSubscription[] = [];
+  private subscriptionOffers: Record<string, any[]> = {};
+  private subscriptions: { remove: () => void }[] = [];
+  private listeners = new Set<OutcomeListener>();
+  private verifying = new Set<string>();
+
+  static getInstance(): PurchaseService {
+    if (!PurchaseService.instance) {
+      PurchaseService.instance = new PurchaseService();
+    }
+    return PurchaseService.instance;
+  }
+
+  isSupported(): boolean {
+    return Platform.OS === 'ios' || Platform.OS === 'android';
+  }
+
+  // Connects to the store and starts listening for purchase updates; returns the store's
+  // products. Products add to those registered earlier, since the connection is shared
+  // by the app-wide subscription listener and the purchase screens.
+  async initialize(
+    userId: string,
+    products: { packages?: PurchasablePackage[]; subscriptions?: PurchasableSubscription[] }
+  ): Promise<any[] | null> {
+    if (this.userId !== userId) {
+      this.packages = [];
+      this.subscriptionProducts = [];
+    }
+    this.userId = userId;
+    const packages = products.packages || [];
+    const subscriptions = products.subscriptions || [];
+    this.packages = [
+      ...this.packages.filter(pkg => !packages.some(item => item.productId === pkg.productId)),
+      ...packages,
+    ];
+    this.subscriptionProducts = [
+      ...this.subscriptionProducts.filter(sub => !subscriptions.some(item => item.productId === sub.productId)),
+      ...subscriptions,
+    ];
+
+    if (!this.isSupported()) {
+      console.log('💳 In-app purchases are not available on', Platform.OS);
+      return null;
+    }
+
+    try {
+      if (!this.iap) {
+        const InAppPurchases = await import('react-native-iap');
+        await InAppPurchases.initConnection();
+
+        if (Platform.OS === 'android') {
+          await InAppPurchases.flushFailedPurchasesCachedAsPendingAndroid();
+        }
+
+        this.subscriptions = [
+          InAppPurchases.purchaseUpdatedListener(purchase => {
+            this.handlePurchase(purchase);
+          }),
+          InAppPurchases.purchaseErrorListener(error => {
+            this.handlePurchaseError(error);
+          }),
+        ];
+        this.iap = InAppPurchases;
+      }
+
+      const storeProducts = packages.length > 0
+        ? await this.iap.getProducts({ skus: packages.map(pkg => pkg.productId) })
+        : [];
+      const storeSubscriptions = subscriptions.length > 0
+        ? await this.iap.getSubscriptions({ skus: subscriptions.map(sub => sub.productId) })
+        : [];
+
+      // Google Play needs an offer token to start a subscription purchase
+      (storeSubscriptions || []).forEach((subscription: any) => {
+        this.subscriptionOffers[subscription.productId] = subscription.subscriptionOfferDetails || [];
+      });
+
+      return [...(storeProducts || []), ...(storeSubscriptions || [])];
+    } catch (error) {
+      console.log('💳 IAP not available:', error);
+      return null;
+    }
+  }
+
+  // Starts a store purchase; the result arrives through onOutcome
+  async purchase(productId: string): Promise<void> {
+    if (!this.iap) {
+      throw new Error('In-app purchases are not available');
+    }
+
+    if (this.findSubscription(productId)) {
+      const offerToken = this.subscriptionOffers[productId]?.[0]?.offerToken;
+      await this.iap.requestSubscription({
+        sku: productId,
+        andDangerouslyFinishTransactionAutomaticallyIOS: false,
+        ...(offerToken ? { subscriptionOffers: [{ sku: productId, offerToken }] } : {}),
+      });
+      return;
+    }
+
+    await this.iap.requestPurchase({
+      sku: productId,
+      andDangerouslyFinishTransactionAutomaticallyIOS: false,
+    });
+  }
+
+  // Keeps store purchases in sync for a signed-in user: renewals and coin purchases the
+  // store delivered while the app was closed are verified now, later ones through the
+  // purchase listener
+  async watchPurchases(userId: string): Promise<PurchaseOutcome[]> {
+    const products = await this.initialize(userId, { packages: COIN_PACKAGES, subscriptions: VIP_SUBSCRIPTIONS });
+    if (!products) {
+      return [];
+    }
+    return this.restore();
+  }
+
+  // Re-verifies purchases the store still holds unfinished (app killed mid-purchase,
+  // verification offline). The server skips any transaction it already credited.
+  async restore(): Promise<PurchaseOutcome[]> {
+    if (!this.iap) {
+      return [];
+    }
+
+    const purchases = await this.iap.getAvailablePurchases();
+    const ownPurchases = (purchases || []).filter((purchase: any) => this.isKnownProduct(purchase.productId));
+
+    const outcomes: PurchaseOutcome[] = [];
+    for (const purchase of ownPurchases) {
+      outcomes.push(await this.verify(purchase));
+    }
+    return outcomes;
+  }
+
+  onOutcome(listener: OutcomeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Disconnects from the store (sign-out); screens leave the shared connection open
+  async end(): Promise<void> {
+    this.userId = null;
+    this.packages = [];
+    this.subscriptionProducts = [];
+    this.subscriptions.forEach(subscription => subscription.remove());
+    this.subscriptions = [];
+
+    if (this.iap) {
+      try {
+        await this.iap.endConnection();
+      } catch {
+        // Ignore cleanup errors
+      }
+      this.iap = null;
+    }
+  }
+
+  private isKnownProduct(productId: string): boolean {
+    return this.packages.some(pkg => pkg.productId === productId) || !!this.findSubscription(productId);
+  }
+
+  private findSubscription(productId: string): PurchasableSubscription | undefined {
+    return this.subscriptionProducts.find(sub => sub.productId === productId);
+  }
+
+  private async handlePurchase(purchase: any) {
+    // Leave purchases of products this screen doesn't sell for whoever does
+    if (!this.isKnownProduct(purchase.productId)) return;
+
+    const outcome = await this.verify(purchase);
+    this.listeners.forEach(listener => listener(outcome));
+  }
+
+  private handlePurchaseError(error: any) {
+    let outcome: PurchaseOutcome;
+    if (error?.code === 'E_USER_CANCELLED') {
+      outcome = { status: 'cancelled' };
+    } else if (error?.code === 'E_DEFERRED_PAYMENT') {
+      // iOS Ask to Buy: the purchase arrives through purchaseUpdatedListener once approved
+      outcome = { status: 'pending', productId: error.productId };
+    } else {
+      console.error('💳 Purchase failed:', error);
+      outcome = { status: 'failed', productId: error?.productId, message: error?.message };
+    }
+    this.listeners.forEach(listener => listener(outcome));
+  }
+
+  private async verify(purchase: any): Promise<PurchaseOutcome> {
+    const subscription = this.findSubscription(purchase.productId);
+    if (subscription) {
+      return this.verifySubscription(purchase, subscription);
+    }
+
+    const pkg = this.packages.find(item => item.productId === purchase.productId);
+    const transactionId = purchase.transactionId || purchase.purchaseToken;
+    const receipt = Platform.OS === 'android' ? purchase.purchaseToken : purchase.transactionReceipt;
+
+    if (!this.userId || !pkg || !transactionId || !receipt) {
+      return { status: 'invalid', productId: purchase.productId, message: 'Unrecognized purchase' };
+    }
+
+    // Android slow payment methods: nothing to verify until the payment clears
+    if (purchase.purchaseStateAndroid === 2) {
+      return { status: 'pending', productId: pkg.productId, coins: pkg.coins + pkg.bonus };
+    }
+
+    // The listener and restore can both deliver the same transaction
+    if (this.verifying.has(transactionId)) {
+      return { status: 'pending', productId: pkg.productId };
+    }
+
+    this.verifying.add(transactionId);
+    try {
+      const result = await CoinOutboxService.getInstance().submit(
+        'coin_purchase',
+        {
+          userId: this.userId,
+          packageId: pkg.id,
+          productId: pkg.productId,
+          transactionId,
+          platform: Platform.OS,
+          receipt,
+        },
+        { userId: this.userId, coins: pkg.coins + pkg.bonus }
+      );
+
+      let outcome: PurchaseOutcome;
+      if (result.queued) {
+        outcome = { status: 'queued', productId: pkg.productId, coins: pkg.coins + pkg.bonus };
+      } else if (result.error || !result.data) {
+        outcome = { status: 'failed', productId: pkg.productId, message: result.error?.message };
+      } else {
+        outcome = {
+          status: result.data.status,
+          productId: pkg.productId,
+          coins: result.data.coins_credited,
+          message: result.data.message,
+        };
+      }
+
+      if (FINAL_STATUSES.includes(outcome.status)) {
+        try {
+          await this.iap?.finishTransaction({ purchase, isConsumable: true });
+        } catch (error) {
+          console.warn('💳 Failed to finish transaction:', error);
+        }
+      }
+
+      console.log('💳 Purchase', transactionId, outcome.status);
+      return outcome;
+    } finally {
+      this.verifying.delete(transactionId);
+    }
+  }
+
+  // Activation and every renewal go through the same RPC, which extends vip_expires_at
+  private async verifySubscription(purchase: any, subscription: PurchasableSubscription): Promise<PurchaseOutcome> {
+    const transactionId = purchase.transactionId || purchase.purchaseToken;
+    const receipt = Platform.OS === 'android' ? purchase.purchaseToken : purchase.transactionReceipt;
+
+    if (!this.userId || !transactionId || !receipt) {
+      return { status: 'invalid', productId: purchase.productId, message: 'Unrecognized purchase' };
+    }
+
+    if (purchase.purchaseStateAndroid === 2) {
+      return { status: 'pending', productId: subscription.productId };
+    }
+
+    if (this.verifying.has(transactionId)) {
+      return { status: 'pending', productId: subscription.productId };
+    }
+
+    this.verifying.add(transactionId);
+    try {
+      const { data, error } = await activateVipSubscription({
+        userId: this.userId,
+        planId: subscription.id,
+        productId: subscription.productId,
+        transactionId,
+        originalTransactionId: purchase.originalTransactionIdentifierIOS || purchase.purchaseToken,
+        platform: Platform.OS,
+        receipt,
+      });
+
+      const outcome: PurchaseOutcome = error || !data
+        ? { status: 'failed', productId: subscription.productId, message: error?.message }
+        : {
+            status: data.status,
+            productId: subscription.productId,
+            vipExpiresAt: data.vip_expires_at,
+            message: data.message,
+          };
+
+      if (FINAL_STATUSES.includes(outcome.status)) {
+        try {
+          await this.iap?.finishTransaction({ purchase, isConsumable: false });
+        } catch (finishError) {
+          console.warn('💳 Failed to finish transaction:', finishError);
+        }
+      }
+
+      console.log('👑 VIP purchase', transactionId, outcome.status);
+      return outcome;
+    } finally {
+      this.verifying.delete(transactionId);
+    }
+  }
+}
+
+export default PurchaseService;
@@ -0,0 +1,150 @@
+import { getVideoMetadata } from '../lib/supabase';
+import { getThumbnailUrl } from '../utils/videoMetadata';
+import type { VideoMetadata } from '../utils/videoMetadata';
+
+// Looks up a video's metadata. Returns null when the video can't be found or the
+// provider can't be reached.
+export interface VideoMetadataProvider {
+  name: string;
+  fetch(videoId: string): Promise<VideoMetadata | null>;
+}
+
+// YouTube Data API through the get_video_metadata RPC; the only provider that
+// knows the video's length and age restriction
+export class ServerMetadataProvider implements VideoMetadataProvider {
+  name = 'server';
+
+  async fetch(videoId: string): Promise<VideoMetadata | null> {
+    const { data, error } = await getVideoMetadata(videoId);
+    if (error || !data) {
+      console.warn('🎞️ Video metadata lookup failed:', error?.message || 'not found');
+      return null;
+    }
+
+    return {
+      videoId,
+      title: data.title ?? null,
+      durationSeconds: data.duration_seconds ?? null,
+      isLive: !!data.is_live,
+      isShort: !!data.is_short,
+      ageRestricted: !!data.age_restricted,
+      embeddable: data.embeddable !== false,
+      channelId: data.channel_id ?? null,
+      channelTitle: data.channel_title ?? null,
+      thumbnailUrl: data.thumbnail_url || getThumbnailUrl(videoId),
+      source: this.name,
+    };
+  }
+}
+
+// Public oEmbed endpoint: title, channel and embeddability only
+export class OEmbedMetadataProvider implements VideoMetadataProvider {
+  name = 'oembed';
+
+  async fetch(videoId: string): Promise<VideoMetadata | null> {
+    try {
+      const response = await fetch(
+        `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${videoId}&format=json`
+      );
+      if (response.status === 404 || response.status === 400) {
+        return null;
+      }
+
+      // 401 and 403 mean the owner disabled embedding
+      const embeddable = response.ok;
+      const data = embeddable ? await response.json() : {};
+
+      return {
+        videoId,
+        title: data.title ?? null,
+        durationSeconds: null,
+        isLive: false,
+        isShort: false,
+        ageRestricted: false,
+        embeddable,
+        channelId: null,
+        channelTitle: data.author_name ?? null,
+        thumbnailUrl: getThumbnailUrl(videoId),
+        source: this.name,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+// Fixed answers for development and offline use; unknown videos fall back to defaults
+export class StaticMetadataProvider implements VideoMetadataProvider {
+  name = 'static';
+
+  constructor(private entries: Record<string, Partial<VideoMetadata>> = {}) {}
+
+  async fetch(videoId: string): Promise<VideoMetadata | null> {
+    return {
+      videoId,
+      title: null,
+      durationSeconds: null,
+      isLive: false,
+      isShort: false,
+      ageRestricted: false,
+      embeddable: true,
+      channelId: null,
+      channelTitle: null,
+      thumbnailUrl: getThumbnailUrl(videoId),
+      ...this.entries[videoId],
+      source: this.name,
+    };
+  }
+}
+
+class VideoMetadataService {
+  private static instance: VideoMetadataService;
+  private provider: VideoMetadataProvider = new ServerMetadataProvider();
+  private fallback: VideoMetadataProvider = new OEmbedMetadataProvider();
+  private cache = new Map<string, Promise<VideoMetadata | null>>();
+
+  static getInstance(): VideoMetadataService {
+    if (!VideoMetadataService.instance) {
+      VideoMetadataService.instance = new VideoMetadataService();
+    }
+    return VideoMetadataService.instance;
+  }
+
+  setProvider(provider: VideoMetadataProvider, fallback: VideoMetadataProvider | null = null) {
+    this.provider = provider;
+    this.fallback = fallback ?? provider;
+    this.cache.clear();
+  }
+
+  // Resolves metadata once per video; failed lookups are retried on the next call
+  resolve(videoId: string): Promise<VideoMetadata | null> {
+    let pending = this.cache.get(videoId);
+    if (!pending) {
+      pending = this.lookup(videoId);
+      this.cache.set(videoId, pending);
+      pending.then(metadata => {
+        if (!metadata) this.cache.delete(videoId);
+      });
+    }
+    return pending;
+  }
+
+  private async lookup(videoId: string): Promise<VideoMetadata | null> {
+    try {
+      const metadata = await this.provider.fetch(videoId);
+      if (metadata || this.fallback === this.provider) {
+        return metadata;
+      }
+    } catch (error) {
+      console.warn(`🎞️ ${this.provider.name} metadata provider failed:`, error);
+    }
+
+    try {
+      return await this.fallback.fetch(videoId);
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+export default VideoMetadataService;
@@ -0,0 +1,303 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import {
+  startWatchSession,
+  resumeWatchSession,
+  recordWatchHeartbeat,
+} from '../lib/supabase';
+import type { WatchSession } from '../lib/supabase';
+import CoinOutboxService from './CoinOutboxService';
+import type { OutboxResult } from './CoinOutboxService';
+
+const DEFAULT_HEARTBEAT_INTERVAL = 5; // seconds of playback between heartbeats
+const START_RETRY_DELAY_MS = 10000; // between re-opening attempts after a failed start
+const WATCH_PROGRESS_KEY = 'watch_progress';
+
+// In-progress watch saved so it survives the app being killed mid-video
+interface SavedWatchProgress {
+  userId: string;
+  videoId: string;
+  session: WatchSession;
+  sequence: number;
+  watchedSeconds: number;
+  savedAt: string;
+}
+
+class WatchSessionService {
+  private static instance: WatchSessionService;
+  private session: WatchSession | null = null;
+  private userId: string | null = null;
+  private videoId: string | null = null;
+  private sequence = 0;
+  private lastHeartbeatSeconds = 0;
+  private heartbeatPromise: Promise<boolean> | null = null;
+  private startPromise: Promise<WatchSession | null> | null = null;
+  private lastStartFailedAt = 0;
+  private resumedSeconds = 0;
+
+  static getInstance(): WatchSessionService {
+    if (!WatchSessionService.instance) {
+      WatchSessionService.instance = new WatchSessionService();
+    }
+    return WatchSessionService.instance;
+  }
+
+  async start(userId: string, videoId: string): Promise<WatchSession | null> {
+    if (this.videoId !== videoId || this.userId !== userId) {
+      this.end();
+      this.userId = userId;
+      this.videoId = videoId;
+    }
+
+    if (this.session) {
+      return this.session;
+    }
+    return this.open(userId, videoId);
+  }
+
+  // Opens (or resumes) the session for the current video. A failed open keeps the
+  // video, so heartbeat() and complete() can try again instead of losing the reward.
+  private async open(userId: string, videoId: string): Promise<WatchSession | null> {
+    if (this.startPromise) {
+      return this.startPromise;
+    }
+
+    const startPromise = (async () => {
+      // Pick up where a killed app left off, if the server still accepts that session
+      const resumed = await this.resume(userId, videoId);
+      if (resumed || this.videoId !== videoId) {
+        return resumed;
+      }
+
+      const { data, error } = await startWatchSession(userId, videoId);
+
+      // The video may have changed while the session was being opened
+      if (this.videoId !== videoId) {
+        return null;
+      }
+
+      if (error || !data?.session_id) {
+        console.error('🎫 Failed to open watch session:', error);
+        this.lastStartFailedAt = Date.now();
+        return null;
+      }
+
+      console.log('🎫 Watch session opened:', data.session_id);
+      this.session = data;
+      await this.persist(0);
+      return data;
+    })();
+    this.startPromise = startPromise;
+
+    try {
+      return await startPromise;
+    } finally {
+      if (this.startPromise === startPromise) {
+        this.startPromise = null;
+      }
+    }
+  }
+
+  // The current session, re-opening it if the first attempt failed. Periodic callers
+  // wait START_RETRY_DELAY_MS between attempts; forced ones (completion) always try.
+  private async ensureSession(force: boolean): Promise<WatchSession | null> {
+    if (this.startPromise) {
+      await this.startPromise;
+    }
+    if (this.session || !this.userId || !this.videoId) {
+      return this.session;
+    }
+    if (!force && Date.now() - this.lastStartFailedAt < START_RETRY_DELAY_MS) {
+      return null;
+    }
+    return this.open(this.userId, this.videoId);
+  }
+
+  // Sends a signed heartbeat once enough playback has accumulated since the last one.
+  // Periodic heartbeats are skipped while one is in flight; forced ones (completion,
+  // backgrounding) wait for it so the final watch time always reaches the server.
+  async heartbeat(watchedSeconds: number, force: boolean = false): Promise<boolean> {
+    while (this.heartbeatPromise) {
+      if (!force) {
+        return false;
+      }
+      await this.heartbeatPromise;
+    }
+
+    const session = await this.ensureSession(force);
+    if (!session) {
+      return false;
+    }
+
+    const interval = session.heartbeat_interval || DEFAULT_HEARTBEAT_INTERVAL;
+    if (!force && watchedSeconds - this.lastHeartbeatSeconds < interval) {
+      return true;
+    }
+
+    const heartbeatPromise = this.sendHeartbeat(session, watchedSeconds).finally(() => {
+      if (this.heartbeatPromise === heartbeatPromise) {
+        this.heartbeatPromise = null;
+      }
+    });
+    this.heartbeatPromise = heartbeatPromise;
+    return heartbeatPromise;
+  }
+
+  private async sendHeartbeat(session: WatchSession, watchedSeconds: number): Promise<boolean> {
+    try {
+      const sequence = this.sequence + 1;
+      const signature = await this.signHeartbeat(session, sequence, watchedSeconds);
+      const { error } = await recordWatchHeartbeat(
+        session.session_id,
+        sequence,
+        watchedSeconds,
+        signature
+      );
+
+      if (error) {
+        console.warn('🎫 Heartbeat rejected:', error);
+        return false;
+      }
+
+      this.sequence = sequence;
+      this.lastHeartbeatSeconds = watchedSeconds;
+      if (this.session === session) {
+        await this.persist(watchedSeconds);
+      }
+      return true;
+    } catch (error) {
+      console.warn('🎫 Heartbeat failed:', error);
+      return false;
+    }
+  }
+
+  // Closes the session; the server decides the payout from the recorded heartbeats.
+  // The claim goes through the coin outbox, so a network failure queues it for replay.
+  async complete(watchedSeconds: number, expectedCoins: number = 0): Promise<OutboxResult> {
+    const session = await this.ensureSession(true);
+    const userId = this.userId;
+    const videoId = this.videoId;
+    if (!session || !userId || !videoId) {
+      return { data: null, error: new Error('No active watch session'), queued: false };
+    }
+
+    await this.heartbeat(watchedSeconds, true);
+    const result = await CoinOutboxService.getInstance().submit(
+      'watch_reward',
+      { sessionId: session.session_id, userId, videoId },
+      { userId, coins: expectedCoins }
+    );
+    await AsyncStorage.removeItem(WATCH_PROGRESS_KEY);
+
+    if (this.session === session) {
+      this.end();
+    }
+    return result;
+  }
+
+  // Saves progress and reports it to the server before the app is backgrounded,
+  // since the OS may kill it before it comes back
+  async saveProgress(watchedSeconds: number): Promise<void> {
+    if (!this.session) return;
+    await this.persist(watchedSeconds);
+    await this.heartbeat(watchedSeconds, true);
+  }
+
+  // Drops the current session without claiming a reward (skip, video change, unmount).
+  // Saved progress is kept until another session replaces it, so a restart can resume.
+  end() {
+    this.session = null;
+    this.userId = null;
+    this.videoId = null;
+    this.sequence = 0;
+    this.lastHeartbeatSeconds = 0;
+    this.resumedSeconds = 0;
+    this.startPromise = null;
+    this.lastStartFailedAt = 0;
+  }
+
+  getSessionId(): string | null {
+    return this.session?.session_id ?? null;
+  }
+
+  // Watch time the server credited to a resumed session, 0 for a fresh one
+  getResumedSeconds(videoId: string): number {
+    return this.videoId === videoId ? this.resumedSeconds : 0;
+  }
+
+  private async resume(userId: string, videoId: string): Promise<WatchSession | null> {
+    let saved: SavedWatchProgress | null = null;
+    try {
+      const stored = await AsyncStorage.getItem(WATCH_PROGRESS_KEY);
+      saved = stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('🎫 Failed to read saved watch progress:', error);
+    }
+
+    if (!saved || saved.userId !== userId || saved.videoId !== videoId) {
+      return null;
+    }
+
+    // Expired sessions can't be finished, so don't bother asking
+    if (saved.session.expires_at && new Date(saved.session.expires_at) <= new Date()) {
+      await AsyncStorage.removeItem(WATCH_PROGRESS_KEY);
+      return null;
+    }
+
+    const { data, error } = await resumeWatchSession(saved.session.session_id, userId, videoId);
+    if (this.videoId !== videoId) {
+      return null;
+    }
+
+    if (error || !data?.resumable) {
+      console.log('🎫 Saved watch session cannot be resumed:', error || 'rejected by server');
+      await AsyncStorage.removeItem(WATCH_PROGRESS_KEY);
+      return null;
+    }
+
+    const session: WatchSession = {
+      session_id: data.session_id || saved.session.session_id,
+      session_token: data.session_token || saved.session.session_token,
+      heartbeat_interval: data.heartbeat_interval || saved.session.heartbeat_interval,
+      expires_at: data.expires_at || saved.session.expires_at,
+    };
+
+    // The server's view of watch time wins over whatever was saved locally
+    this.session = session;
+    this.sequence = data.last_sequence ?? saved.sequence;
+    this.lastHeartbeatSeconds = data.watched_seconds ?? 0;
+    this.resumedSeconds = data.watched_seconds ?? 0;
+    console.log('🎫 Watch session resumed:', session.session_id, 'at', this.resumedSeconds, 's');
+    return session;
+  }
+
+  private async persist(watchedSeconds: number): Promise<void> {
+    if (!this.session || !this.userId || !this.videoId) return;
+
+    const progress: SavedWatchProgress = {
+      userId: this.userId,
+      videoId: this.videoId,
+      session: this.session,
+      sequence: this.sequence,
+      watchedSeconds,
+      savedAt: new Date().toISOString(),
+    };
+
+    try {
+      await AsyncStorage.setItem(WATCH_PROGRESS_KEY, JSON.stringify(progress));
+    } catch (error) {
+      console.warn('🎫 Failed to save watch progress:', error);
+    }
+  }
+
+  private async signHeartbeat(
+    session: WatchSession,
+    sequence: number,
+    watchedSeconds: number
+  ): Promise<string> {
+    const payload = `${session.session_id}:${sequence}:${watchedSeconds}:${session.session_token}`;
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, payload);
+  }
+}
+
+export default WatchSessionService;
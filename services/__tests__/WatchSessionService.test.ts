@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import WatchSessionService from '../WatchSessionService';
+import CoinOutboxService from '../CoinOutboxService';
+import { startWatchSession, resumeWatchSession, recordWatchHeartbeat } from '../../lib/supabase';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: jest.fn(async (_algorithm: string, payload: string) => `signed:${payload}`),
+}));
+jest.mock('../../lib/supabase', () => ({
+  startWatchSession: jest.fn(),
+  resumeWatchSession: jest.fn(),
+  recordWatchHeartbeat: jest.fn(),
+}));
+jest.mock('../CoinOutboxService', () => {
+  const submit = jest.fn(async () => ({ data: { coins_awarded: 10 }, error: null, queued: false }));
+  return { __esModule: true, default: { getInstance: () => ({ submit }) } };
+});
+
+const mockStart = startWatchSession as jest.Mock;
+const mockResume = resumeWatchSession as jest.Mock;
+const mockHeartbeat = recordWatchHeartbeat as jest.Mock;
+const mockSubmit = CoinOutboxService.getInstance().submit as jest.Mock;
+
+const session = { session_id: 'session-1', session_token: 'token', heartbeat_interval: 5 };
+
+describe('WatchSessionService', () => {
+  const service = WatchSessionService.getInstance();
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    service.end();
+    await AsyncStorage.clear();
+    mockResume.mockResolvedValue({ data: { resumable: false }, error: null });
+    mockHeartbeat.mockResolvedValue({ data: { success: true }, error: null });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('re-opens the session on completion after the start failed', async () => {
+    mockStart
+      .mockResolvedValueOnce({ data: null, error: new Error('Network request failed') })
+      .mockResolvedValueOnce({ data: session, error: null });
+
+    expect(await service.start('user-1', 'video-1')).toBeNull();
+    expect(service.getSessionId()).toBeNull();
+
+    const result = await service.complete(30, 10);
+
+    expect(mockStart).toHaveBeenCalledTimes(2);
+    expect(mockHeartbeat).toHaveBeenCalledWith('session-1', 1, 30, expect.any(String));
+    expect(mockSubmit).toHaveBeenCalledWith(
+      'watch_reward',
+      { sessionId: 'session-1', userId: 'user-1', videoId: 'video-1' },
+      { userId: 'user-1', coins: 10 }
+    );
+    expect(result.error).toBeNull();
+  });
+
+  it('waits before re-opening from periodic heartbeats', async () => {
+    mockStart.mockResolvedValue({ data: null, error: new Error('Network request failed') });
+
+    await service.start('user-1', 'video-1');
+    expect(await service.heartbeat(5)).toBe(false);
+    expect(mockStart).toHaveBeenCalledTimes(1);
+
+    mockStart.mockResolvedValue({ data: session, error: null });
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 11000);
+    expect(await service.heartbeat(5)).toBe(true);
+    expect(mockStart).toHaveBeenCalledTimes(2);
+    expect(service.getSessionId()).toBe('session-1');
+  });
+
+  it('reports no session once the video has been dropped', async () => {
+    mockStart.mockResolvedValue({ data: null, error: new Error('Network request failed') });
+
+    await service.start('user-1', 'video-1');
+    service.end();
+    const result = await service.complete(30);
+
+    expect(result.error).toBeInstanceOf(Error);
+    expect(mockSubmit).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,16 @@
 import { create } from 'zustand';
-import { getVideoQueue } from '../lib/supabase';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Image } from 'react-native';
+import { getVideoQueue, getRewardedVideoIds, VIDEO_QUEUE_PAGE_SIZE } from '../lib/supabase';
+import { extractYouTubeVideoId } from '../utils/validation';
+import { mergeQueuePage } from '../utils/queueRanking';
+import { isCampaignServable } from '../utils/campaignPacing';
+
+// Start loading the next page when this many videos are left ahead of the current one
+const PREFETCH_THRESHOLD = 3;
+// Pages fetchVideos may read to fill the queue when the newest videos were all already watched
+const MAX_INITIAL_PAGES = 5;
 
 interface Video {
   video_id: string;
@@ -15,6 +26,11 @@ interface Video {
   total_watch_time?: number;
   completion_rate?: number;
   hold_until?: string;
+  owner_is_vip?: boolean;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  daily_view_cap?: number | null;
+  views_today?: number | null;
 }
 
 interface VideoState {
@@ -23,9 +39,19 @@ interface VideoState {
   isLoading: boolean;
   error: string | null;
   canLoop: boolean;
+  userId: string | null;
+  nextOffset: number;
+  hasMore: boolean;
+  isPrefetching: boolean;
+  rewardedVideoIds: Set<string>;
+  hasHydrated: boolean;
   fetchVideos: (userId: string) => Promise<void>;
+  prefetchNextPage: () => Promise<void>;
   getCurrentVideo: () => Video | null;
   moveToNextVideo: () => void;
+  markVideoRewarded: (videoId: string) => void;
+  removeVideo: (videoId: string) => void;
+  warmNextVideo: () => void;
   clearQueue: () => void;
   checkQueueLoop: (userId: string) => Promise<boolean>;
   refreshQueue: (userId: string) => Promise<void>;
@@ -33,97 +59,159 @@ interface VideoState {
   moveToNextIfNeeded: (userId: string) => Promise<void>;
 }
 
-export const useVideoStore = create<VideoState>((set, get) => ({
+// Normalizes backend rows and keeps only videos that can still be played
+function toPlayableVideos(videos: any[]): Video[] {
+  // Normalize backend fields
+  const normalized = videos.map((video: any) => ({
+    ...video,
+    // Use video_id if available, otherwise fall back to id
+    video_id: video.video_id || video.id,
+    youtube_url: video.youtube_url || '',
+    duration_seconds: Number(video.duration_seconds || 30),
+    coin_reward: Number(video.coin_reward ?? 10),
+    // Ensure these fields have default values
+    views_count: video.views_count || 0,
+    target_views: video.target_views || 0,
+    completed: video.completed || false,
+    status: video.status || 'active'
+  }));
+
+  // Enhanced safety filter for the new schema
+  return normalized.filter(video => {
+    // Check for required fields
+    const missingFields = [];
+    if (!video.video_id) missingFields.push('video_id');
+    if (!video.youtube_url) missingFields.push('youtube_url');
+    if (!video.title) missingFields.push('title');
+
+    const hasRequiredFields = missingFields.length === 0;
+
+    // Check if video is not completed
+    const isNotCompleted = video.completed !== true && 
+                         video.views_count < (video.target_views || 0) &&
+                         video.status !== 'completed';
+
+    // Check if status is valid
+    const hasValidStatus = ['active', 'repromoted'].includes(video.status) ||
+                        (video.status === 'on_hold' && new Date(video.hold_until || 0) <= new Date());
+
+    const shouldInclude = hasRequiredFields && isNotCompleted && hasValidStatus;
+
+    // Debug logging for videos that are filtered out
+    if (!shouldInclude) {
+      // console.log('🚫 VideoStore: Filtering out video:', {
+      //   title: video.title || 'No title',
+      //   status: video.status,
+      //   completed: video.completed,
+      //   views: video.views_count,
+      //   target: video.target_views,
+      //   reason: !hasRequiredFields ? `missing_required_fields: ${missingFields.join(', ')}` : 
+      //              !isNotCompleted ? 'completed' : 
+      //              'invalid_status',
+      //   videoData: JSON.stringify({
+      //     video_id: video.video_id,
+      //     youtube_url: video.youtube_url ? 'present' : 'missing',
+      //     title: video.title ? 'present' : 'missing',
+      //     duration_seconds: video.duration_seconds,
+      //     coin_reward: video.coin_reward
+      //   }, null, 2)
+      // });
+    }
+
+    return shouldInclude;
+  });
+}
+
+// Fetches one queue page along with which of its videos the viewer was already paid for
+async function fetchQueuePage(userId: string, offset: number) {
+  const videos = (await getVideoQueue(userId, { offset, limit: VIDEO_QUEUE_PAGE_SIZE })) || [];
+  const rewardedIds = await getRewardedVideoIds(
+    userId,
+    videos.map((video: any) => video.video_id || video.id).filter(Boolean)
+  );
+  return { videos, rewardedIds, hasMore: videos.length >= VIDEO_QUEUE_PAGE_SIZE };
+}
+
+// Per-video oEmbed lookups, so each upcoming video is only warmed once
+const warmedVideos = new Map<string, Promise<boolean>>();
+
+// Fetches oEmbed metadata and the thumbnail; resolves false if YouTube won't embed the video
+function warmVideo(youtubeId: string): Promise<boolean> {
+  let pending = warmedVideos.get(youtubeId);
+  if (!pending) {
+    pending = (async () => {
+      Image.prefetch(`https://img.youtube.com/vi/${youtubeId}/hqdefault.jpg`).catch(() => {});
+      try {
+        const response = await fetch(
+          `https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=${youtubeId}&format=json`
+        );
+        return ![401, 403, 404].includes(response.status);
+      } catch {
+        // Network problems are not a reason to drop the video
+        return true;
+      }
+    })();
+    warmedVideos.set(youtubeId, pending);
+  }
+  return pending;
+}
+
+export const useVideoStore = create<VideoState>()(persist((set, get) => ({
   videoQueue: [],
   currentVideoIndex: 0,
   isLoading: false,
   error: null,
   canLoop: true,
+  userId: null,
+  nextOffset: 0,
+  hasMore: false,
+  isPrefetching: false,
+  rewardedVideoIds: new Set<string>(),
+  hasHydrated: false,
 
   fetchVideos: async (userId: string) => {
     if (!userId) {
       set({ isLoading: false, error: 'User not authenticated' });
       return;
     }
-    set({ isLoading: true, error: null });
+    set({ isLoading: true, error: null, userId });
     
     try {
-      const videos = await getVideoQueue(userId);
+      // Keep anything marked locally that the server hasn't reported yet
+      const rewardedVideoIds = new Set(get().rewardedVideoIds);
+      let ranked: Video[] = [];
+      let nextOffset = 0;
+      let hasMore = true;
+
+      // Page further back until there is enough to watch, since the newest videos may all be watched already
+      for (let page = 0; page < MAX_INITIAL_PAGES && hasMore && ranked.length < PREFETCH_THRESHOLD; page++) {
+        const result = await fetchQueuePage(userId, nextOffset);
+        result.rewardedIds.forEach(id => rewardedVideoIds.add(id));
+        ranked = mergeQueuePage(ranked, toPlayableVideos(result.videos), rewardedVideoIds);
+        nextOffset += result.videos.length;
+        hasMore = result.hasMore;
+      }
       
-      if (videos && videos.length > 0) {
-        // Normalize backend fields
-        const normalized = videos.map((video: any) => ({
-          ...video,
-          // Use video_id if available, otherwise fall back to id
-          video_id: video.video_id || video.id,
-          youtube_url: video.youtube_url || '',
-          duration_seconds: Number(video.duration_seconds || 30),
-          coin_reward: Number(video.coin_reward ?? 10),
-          // Ensure these fields have default values
-          views_count: video.views_count || 0,
-          target_views: video.target_views || 0,
-          completed: video.completed || false,
-          status: video.status || 'active'
-        }));
-
-        // Enhanced safety filter for the new schema
-        const safeVideos = normalized.filter(video => {
-          // Check for required fields
-          const missingFields = [];
-          if (!video.video_id) missingFields.push('video_id');
-          if (!video.youtube_url) missingFields.push('youtube_url');
-          if (!video.title) missingFields.push('title');
-          
-          const hasRequiredFields = missingFields.length === 0;
-          
-          // Check if video is not completed
-          const isNotCompleted = video.completed !== true && 
-                               video.views_count < (video.target_views || 0) &&
-                               video.status !== 'completed';
-          
-          // Check if status is valid
-          const hasValidStatus = ['active', 'repromoted'].includes(video.status) ||
-                              (video.status === 'on_hold' && new Date(video.hold_until || 0) <= new Date());
-          
-          const shouldInclude = hasRequiredFields && isNotCompleted && hasValidStatus;
-          
-          // Debug logging for videos that are filtered out
-          if (!shouldInclude) {
-            // console.log('🚫 VideoStore: Filtering out video:', {
-            //   title: video.title || 'No title',
-            //   status: video.status,
-            //   completed: video.completed,
-            //   views: video.views_count,
-            //   target: video.target_views,
-            //   reason: !hasRequiredFields ? `missing_required_fields: ${missingFields.join(', ')}` : 
-            //              !isNotCompleted ? 'completed' : 
-            //              'invalid_status',
-            //   videoData: JSON.stringify({
-            //     video_id: video.video_id,
-            //     youtube_url: video.youtube_url ? 'present' : 'missing',
-            //     title: video.title ? 'present' : 'missing',
-            //     duration_seconds: video.duration_seconds,
-            //     coin_reward: video.coin_reward
-            //   }, null, 2)
-            // });
-          }
-          
-          return shouldInclude;
-        });
-        
-        // Keep the current index if we're just refreshing the queue
-        const { currentVideoIndex } = get();
-        const newIndex = currentVideoIndex < safeVideos.length ? currentVideoIndex : 0;
+      if (nextOffset > 0) {
+        // Keep the video that is on screen in front so a refresh never swaps it out mid-watch
+        const current = get().getCurrentVideo();
+        if (current) {
+          const refreshed = ranked.find(video => video.video_id === current.video_id);
+          ranked = [refreshed || current, ...ranked.filter(video => video.video_id !== current.video_id)];
+        }
         
         set({ 
-          videoQueue: safeVideos, 
-          currentVideoIndex: newIndex,
+          videoQueue: ranked, 
+          currentVideoIndex: 0,
           isLoading: false,
           error: null,
-          canLoop: true
+          canLoop: true,
+          nextOffset,
+          hasMore,
+          rewardedVideoIds
         });
         
-        // console.log('🎬 VideoStore: Queue updated. Current index:', newIndex, 'Queue size:', safeVideos.length);
+        // console.log('🎬 VideoStore: Queue updated. Queue size:', ranked.length);
       } else {
         // console.log('🎬 VideoStore: No videos received from API');
         set({ 
@@ -131,7 +219,10 @@ export const useVideoStore = create<VideoState>((set, get) => ({
           currentVideoIndex: 0, 
           isLoading: false,
           error: 'No videos available. Videos will loop automatically when available!',
-          canLoop: true
+          canLoop: true,
+          nextOffset: 0,
+          hasMore: false,
+          rewardedVideoIds
         });
       }
     } catch (error) {
@@ -144,6 +235,34 @@ export const useVideoStore = create<VideoState>((set, get) => ({
     }
   },
 
+  // Load the next page in the background and append it behind the current queue
+  prefetchNextPage: async () => {
+    const { userId, hasMore, isPrefetching, nextOffset } = get();
+    if (!userId || !hasMore || isPrefetching) return;
+
+    set({ isPrefetching: true });
+    try {
+      const { videos, rewardedIds, hasMore: pageHasMore } = await fetchQueuePage(userId, nextOffset);
+
+      // The user may have signed out or the queue refreshed while the page was loading
+      if (get().userId !== userId || get().nextOffset !== nextOffset) return;
+
+      const { videoQueue } = get();
+      const rewardedVideoIds = new Set([...get().rewardedVideoIds, ...rewardedIds]);
+      set({
+        videoQueue: mergeQueuePage(videoQueue, toPlayableVideos(videos), rewardedVideoIds),
+        nextOffset: nextOffset + videos.length,
+        hasMore: pageHasMore,
+        rewardedVideoIds,
+      });
+      console.log('📥 VideoStore: Prefetched', videos.length, 'more videos');
+    } catch {
+      // A failed prefetch just means we loop sooner; the next move will retry
+    } finally {
+      set({ isPrefetching: false });
+    }
+  },
+
   getCurrentVideo: () => {
     const { videoQueue, currentVideoIndex } = get();
     const currentVideo = videoQueue[currentVideoIndex] || null;
@@ -154,32 +273,87 @@ export const useVideoStore = create<VideoState>((set, get) => ({
   },
 
   moveToNextVideo: () => {
-    const { videoQueue, currentVideoIndex } = get();
+    const { videoQueue, currentVideoIndex, rewardedVideoIds, hasMore, prefetchNextPage } = get();
 
-    // console.log('�� VideoStore: Moving to next video. Current index:', currentVideoIndex, 'Queue length:', videoQueue.length);
+    // console.log('🔄 VideoStore: Moving to next video. Current index:', currentVideoIndex, 'Queue length:', videoQueue.length);
 
     if (videoQueue.length === 0) {
       // console.log('🔄 VideoStore: No videos in queue');
       return;
     }
 
-    if (currentVideoIndex < videoQueue.length - 1) {
-      const nextIndex = currentVideoIndex + 1;
-      // console.log('🔄 VideoStore: Moving to next video at index:', nextIndex, 'Title:', videoQueue[nextIndex]?.title);
-      set({ currentVideoIndex: nextIndex });
-    } else {
+    // Videos we've already been paid for leave the queue instead of coming round again
+    let queue = videoQueue;
+    let nextIndex = currentVideoIndex + 1;
+    const currentVideo = videoQueue[currentVideoIndex];
+    if (currentVideo && rewardedVideoIds.has(currentVideo.video_id)) {
+      queue = videoQueue.filter((_, index) => index !== currentVideoIndex);
+      nextIndex = currentVideoIndex;
+    }
+
+    if (nextIndex >= queue.length) {
       // Loop back to beginning for continuous playback
       // console.log('🔄 VideoStore: Looping back to first video');
-      set({ currentVideoIndex: 0 });
+      nextIndex = 0;
+    }
+
+    set({ videoQueue: queue, currentVideoIndex: nextIndex });
+
+    if (hasMore && queue.length - nextIndex <= PREFETCH_THRESHOLD) {
+      prefetchNextPage();
     }
   },
 
+  markVideoRewarded: (videoId: string) => {
+    const { rewardedVideoIds } = get();
+    if (rewardedVideoIds.has(videoId)) return;
+    set({ rewardedVideoIds: new Set([...rewardedVideoIds, videoId]) });
+  },
+
+  // Take a video out of the queue (e.g. the viewer reported it); if it's on screen, the next one takes its place
+  removeVideo: (videoId: string) => {
+    const { videoQueue, currentVideoIndex } = get();
+    const index = videoQueue.findIndex(video => video.video_id === videoId);
+    if (index === -1) return;
+
+    const queue = videoQueue.filter((_, i) => i !== index);
+    let nextIndex = index < currentVideoIndex ? currentVideoIndex - 1 : currentVideoIndex;
+    if (nextIndex >= queue.length) nextIndex = 0;
+    set({ videoQueue: queue, currentVideoIndex: nextIndex });
+  },
+
+  // Warm oEmbed metadata and the thumbnail for the upcoming video so the switch doesn't stall
+  warmNextVideo: () => {
+    const { videoQueue, currentVideoIndex } = get();
+    if (videoQueue.length < 2) return;
+
+    const nextVideo = videoQueue[(currentVideoIndex + 1) % videoQueue.length];
+    const youtubeId = extractYouTubeVideoId(nextVideo.youtube_url || '');
+    if (!youtubeId) return;
+
+    warmVideo(youtubeId).then(embeddable => {
+      if (embeddable) return;
+      console.log('🚫 VideoStore: Dropping unembeddable video:', nextVideo.video_id);
+      const { videoQueue, currentVideoIndex } = get();
+      const index = videoQueue.findIndex(video => video.video_id === nextVideo.video_id);
+      if (index === -1 || index === currentVideoIndex) return;
+      set({
+        videoQueue: videoQueue.filter((_, i) => i !== index),
+        currentVideoIndex: index < currentVideoIndex ? currentVideoIndex - 1 : currentVideoIndex,
+      });
+    });
+  },
+
   clearQueue: () => {
     set({ 
       videoQueue: [], 
       currentVideoIndex: 0, 
       error: null,
-      canLoop: false 
+      canLoop: false,
+      userId: null,
+      nextOffset: 0,
+      hasMore: false,
+      rewardedVideoIds: new Set<string>()
     });
   },
 
@@ -209,10 +383,12 @@ export const useVideoStore = create<VideoState>((set, get) => ({
     if (!currentVideo) return true;
     
     const shouldSkip = currentVideo.completed === true || 
+                      get().rewardedVideoIds.has(currentVideo.video_id) ||
                       currentVideo.views_count >= currentVideo.target_views ||
                       currentVideo.status === 'completed' ||
                       !['active', 'repromoted'].includes(currentVideo.status) ||
-                      (currentVideo.status === 'on_hold' && new Date(currentVideo.hold_until || 0) > new Date());
+                      (currentVideo.status === 'on_hold' && new Date(currentVideo.hold_until || 0) > new Date()) ||
+                      !isCampaignServable(currentVideo);
     
     // console.log('🎬 VideoStore: Current video should be skipped:', {
     //   videoId: currentVideo.video_id,
@@ -241,4 +417,18 @@ export const useVideoStore = create<VideoState>((set, get) => ({
       }
     }
   },
+}), {
+  // Keep the queue and position across restarts so the Watch tab reopens on the same video
+  name: 'video_queue',
+  storage: createJSONStorage(() => AsyncStorage),
+  partialize: state => ({
+    videoQueue: state.videoQueue,
+    currentVideoIndex: state.currentVideoIndex,
+    userId: state.userId,
+    nextOffset: state.nextOffset,
+    hasMore: state.hasMore,
+  }),
+  onRehydrateStorage: () => () => {
+    useVideoStore.setState({ hasHydrated: true });
+  },
 }));
@@ -0,0 +1,79 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { canonicalJson, verifyConfigSignature } from '../configSignature';
+import type { ConfigSignature, ConfigSigningKey } from '../configSignature';
+
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digest: jest.fn(async (_algorithm: string, bytes: Uint8Array) => {
+    const digest: Buffer = jest.requireActual('crypto').createHash('sha256').update(bytes).digest();
+    return digest.buffer.slice(digest.byteOffset, digest.byteOffset + digest.length);
+  }),
+}));
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwk = publicKey.export({ format: 'jwk' });
+const keys: ConfigSigningKey[] = [{ kid: 'config-2026', kty: 'RSA', n: jwk.n!, e: jwk.e! }];
+
+const data = {
+  features: { coinsEnabled: true, adsEnabled: false },
+  app: { minVersion: '1.4.0', name: 'VidGro' },
+  metadata: { ttl: 3600 },
+};
+
+// Signed the way the server does: RS256 over the canonical JSON
+const signConfig = (value: unknown, kid = 'config-2026'): ConfigSignature => ({
+  kid,
+  alg: 'RS256',
+  sig: sign('sha256', Buffer.from(canonicalJson(value)), privateKey).toString('base64url'),
+});
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined values', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { z: 1, y: undefined, x: null }], c: 'x' } }))
+      .toBe('{"a":{"c":"x","d":[2,{"x":null,"z":1}]},"b":1}');
+  });
+
+  it('gives the same bytes regardless of insertion order', () => {
+    expect(canonicalJson({ app: data.app, metadata: data.metadata, features: data.features }))
+      .toBe(canonicalJson(data));
+  });
+});
+
+describe('verifyConfigSignature', () => {
+  it('accepts a config signed by a bundled key', async () => {
+    expect(await verifyConfigSignature(data, signConfig(data), keys)).toEqual({ valid: true, kid: 'config-2026' });
+  });
+
+  it('rejects a signature with one byte changed', async () => {
+    const signature = signConfig(data);
+    const bytes = Buffer.from(signature.sig, 'base64url');
+    bytes[bytes.length - 1] ^= 0x01;
+
+    expect(await verifyConfigSignature(data, { ...signature, sig: bytes.toString('base64url') }, keys))
+      .toEqual({ valid: false, reason: 'invalid_signature', kid: 'config-2026' });
+  });
+
+  it('rejects a config changed after signing', async () => {
+    const tampered = { ...data, features: { ...data.features, adsEnabled: true } };
+
+    expect(await verifyConfigSignature(tampered, signConfig(data), keys))
+      .toEqual({ valid: false, reason: 'invalid_signature', kid: 'config-2026' });
+  });
+
+  it('rejects a key id that is not bundled', async () => {
+    expect(await verifyConfigSignature(data, signConfig(data, 'config-2025'), keys))
+      .toEqual({ valid: false, reason: 'unknown_key', kid: 'config-2025' });
+  });
+
+  it('rejects any algorithm other than RS256', async () => {
+    const signature = { ...signConfig(data), alg: 'HS256' } as unknown as ConfigSignature;
+
+    expect(await verifyConfigSignature(data, signature, keys))
+      .toEqual({ valid: false, reason: 'unsupported_algorithm', kid: 'config-2026' });
+  });
+
+  it('rejects a missing signature', async () => {
+    expect(await verifyConfigSignature(data, null, keys))
+      .toEqual({ valid: false, reason: 'missing_signature', kid: null });
+  });
+});
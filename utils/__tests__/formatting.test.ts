@@ -0,0 +1,125 @@
+import {
+  DEFAULT_CURRENCY,
+  formatCoins,
+  formatCurrency,
+  formatDate,
+  formatDuration,
+  formatPrice,
+  formatTimer,
+  getStorePrice,
+} from '../formatting';
+import type { StorePrice } from '../formatting';
+
+describe('prices', () => {
+  const usd: StorePrice = { amount: 0.99, currency: 'USD', formatted: '$0.99' };
+
+  it("shows the store's own localized string for the list price", () => {
+    expect(formatPrice(29, 'en-US', { listPrice: 29, storePrice: usd })).toBe('$0.99');
+  });
+
+  it('scales other amounts into the store currency', () => {
+    // An original price of 58 against a list price of 29 is twice the store price
+    expect(formatPrice(58, 'en-US', { listPrice: 29, storePrice: usd })).toBe('$1.98');
+  });
+
+  it('formats the store amount when the store gives no string', () => {
+    expect(formatPrice(29, 'en-US', { listPrice: 29, storePrice: { ...usd, formatted: null } })).toBe('$0.99');
+  });
+
+  it('falls back to the list price in the default currency without a store price', () => {
+    expect(DEFAULT_CURRENCY).toBe('INR');
+    expect(formatPrice(1234, 'en-IN')).toBe('₹1,234');
+    expect(formatPrice(29, 'en-US', { listPrice: 29, storePrice: null, currency: 'USD' })).toBe('$29');
+  });
+
+  it('keeps cents only for fractional amounts', () => {
+    expect(formatCurrency(5, 'USD', 'en-US')).toBe('$5');
+    expect(formatCurrency(5.5, 'USD', 'en-US')).toBe('$5.50');
+  });
+
+  it('falls back to a plain string for an unknown currency code', () => {
+    expect(formatCurrency(12, 'NOT-A-CODE', 'en-US')).toBe('NOT-A-CODE 12');
+  });
+});
+
+describe('getStorePrice', () => {
+  it('reads Google Play one-time products from micros', () => {
+    const product = {
+      oneTimePurchaseOfferDetails: { priceAmountMicros: '990000', priceCurrencyCode: 'USD', formattedPrice: '$0.99' },
+    };
+    expect(getStorePrice(product)).toEqual({ amount: 0.99, currency: 'USD', formatted: '$0.99' });
+  });
+
+  it('uses the recurring phase of a Google Play subscription', () => {
+    const product = {
+      subscriptionOfferDetails: [{
+        pricingPhases: {
+          pricingPhaseList: [
+            { priceAmountMicros: '0', priceCurrencyCode: 'EUR', formattedPrice: 'Free' },
+            { priceAmountMicros: '4990000', priceCurrencyCode: 'EUR', formattedPrice: '4,99 €' },
+          ],
+        },
+      }],
+    };
+    expect(getStorePrice(product)).toEqual({ amount: 4.99, currency: 'EUR', formatted: '4,99 €' });
+  });
+
+  it('reads App Store products and rejects ones without a currency', () => {
+    expect(getStorePrice({ price: '2.99', currency: 'GBP', localizedPrice: '£2.99' }))
+      .toEqual({ amount: 2.99, currency: 'GBP', formatted: '£2.99' });
+    expect(getStorePrice({ price: '2.99' })).toBeNull();
+    expect(getStorePrice(null)).toBeNull();
+  });
+});
+
+describe('formatCoins', () => {
+  it('groups digits and drops fractions', () => {
+    expect(formatCoins(12345.9, 'en-US')).toBe('12,345');
+    expect(formatCoins(null, 'en-US')).toBe('0');
+  });
+});
+
+// Replaces the edit screen's formatHoldTimer
+describe('formatTimer', () => {
+  it.each([
+    [0, '0:00'],
+    [9, '0:09'],
+    [59, '0:59'],
+    [60, '1:00'],
+    [600, '10:00'],
+    [3661, '61:01'],
+  ])('formats %d seconds as %s', (seconds, expected) => {
+    expect(formatTimer(seconds, 'en-US')).toBe(expected);
+  });
+
+  it('clamps negative and invalid input to zero', () => {
+    expect(formatTimer(-5, 'en-US')).toBe('0:00');
+    expect(formatTimer(NaN, 'en-US')).toBe('0:00');
+  });
+});
+
+// Replaces the edit screen's formatEngagementTime
+describe('formatDuration', () => {
+  it.each([
+    [0, '0s'],
+    [59, '59s'],
+    [60, '1m 0s'],
+    [3599, '59m 59s'],
+    [3600, '1h 0m 0s'],
+    [3725, '1h 2m 5s'],
+  ])('formats %d seconds as %s', (seconds, expected) => {
+    expect(formatDuration(seconds, 'en-US')).toBe(expected);
+  });
+
+  it('drops fractions and clamps negative input', () => {
+    expect(formatDuration(59.9, 'en-US')).toBe('59s');
+    expect(formatDuration(-10, 'en-US')).toBe('0s');
+  });
+});
+
+describe('formatDate', () => {
+  it('formats for the locale and ignores invalid dates', () => {
+    expect(formatDate(new Date(2026, 0, 5), 'en-US')).toBe('Jan 5, 2026');
+    expect(formatDate('not a date', 'en-US')).toBe('');
+  });
+});
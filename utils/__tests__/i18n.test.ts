@@ -0,0 +1,79 @@
+import { formatMessage, getLocaleChain, isRTLLanguage, translate } from '../i18n';
+import type { MessageCatalog } from '../i18n';
+
+const coins = '{count, plural, =0 {No coins} one {# coin} other {# coins}}';
+
+describe('formatMessage', () => {
+  it('fills named placeholders', () => {
+    expect(formatMessage('Hello, {name}!', { name: 'Sam' })).toBe('Hello, Sam!');
+  });
+
+  it('leaves placeholders without a value visible', () => {
+    expect(formatMessage('Hello, {name}!')).toBe('Hello, {name}!');
+  });
+
+  it('picks the exact =0 branch before the plural category', () => {
+    expect(formatMessage(coins, { count: 0 })).toBe('No coins');
+  });
+
+  it('picks one and other by plural category and substitutes #', () => {
+    expect(formatMessage(coins, { count: 1 })).toBe('1 coin');
+    expect(formatMessage(coins, { count: 25 })).toBe('25 coins');
+  });
+
+  it('falls back to other when the locale has no matching branch', () => {
+    expect(formatMessage('{count, plural, other {# views}}', { count: 1 })).toBe('1 views');
+  });
+
+  it('fills placeholders nested inside plural branches', () => {
+    const message = '{count, plural, one {{name} watched # video} other {{name} watched # videos}}';
+    expect(formatMessage(message, { count: 3, name: 'Ana' })).toBe('Ana watched 3 videos');
+    expect(formatMessage(message, { count: 1, name: 'Ana' })).toBe('Ana watched 1 video');
+  });
+
+  it('keeps # literal outside a plural', () => {
+    expect(formatMessage('Rank #{rank}', { rank: 2 })).toBe('Rank #2');
+  });
+});
+
+describe('getLocaleChain', () => {
+  it('falls back from region to language to English', () => {
+    expect(getLocaleChain('pt-BR')).toEqual(['pt-BR', 'pt', 'en']);
+    expect(getLocaleChain('pt_BR')).toEqual(['pt-BR', 'pt', 'en']);
+    expect(getLocaleChain('en')).toEqual(['en']);
+    expect(getLocaleChain(null)).toEqual(['en']);
+  });
+});
+
+describe('translate', () => {
+  const catalogs: Record<string, MessageCatalog> = {
+    en: { greeting: 'Hello', farewell: 'Goodbye', balance: coins },
+    pt: { greeting: 'Olá', balance: '{count, plural, one {# moeda} other {# moedas}}' },
+    'pt-BR': { greeting: 'Oi' },
+  };
+
+  it('uses the most specific catalog that has the key', () => {
+    expect(translate(catalogs, 'pt-BR', 'greeting')).toBe('Oi');
+  });
+
+  it('falls back from pt-BR to pt', () => {
+    expect(translate(catalogs, 'pt-BR', 'balance', { count: 2 })).toBe('2 moedas');
+  });
+
+  it('falls back to English when no Portuguese catalog has the key', () => {
+    expect(translate(catalogs, 'pt-BR', 'farewell')).toBe('Goodbye');
+  });
+
+  it('returns the key when no catalog has it', () => {
+    expect(translate(catalogs, 'pt-BR', 'missing.key')).toBe('missing.key');
+  });
+});
+
+describe('isRTLLanguage', () => {
+  it('matches on the language part of the locale', () => {
+    expect(isRTLLanguage('ar')).toBe(true);
+    expect(isRTLLanguage('he-IL')).toBe(true);
+    expect(isRTLLanguage('en-US')).toBe(false);
+    expect(isRTLLanguage(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  canClaimReward,
+  createPlaybackMachine,
+  initialPlaybackState,
+  isTimerRunning,
+  remainingSeconds,
+  shouldAutoPlay,
+  transition,
+} from '../playbackMachine';
+import type { PlaybackEvent, PlaybackState } from '../playbackMachine';
+
+const run = (state: PlaybackState, ...events: PlaybackEvent[]) => events.reduce(transition, state);
+
+const focused: PlaybackState = { ...initialPlaybackState, focused: true };
+const load = (targetSeconds = 3): PlaybackEvent => ({ type: 'LOAD', videoId: 'video-1', targetSeconds });
+
+const playing = (targetSeconds = 3) => run(focused, load(targetSeconds), { type: 'LOADED' }, { type: 'PLAYING' });
+
+describe('playback timer', () => {
+  it('counts watch time only while playing, focused and foregrounded', () => {
+    const state = run(playing(), { type: 'TICK' }, { type: 'TICK' });
+    expect(state.watchedSeconds).toBe(2);
+    expect(remainingSeconds(state)).toBe(1);
+
+    const blurred = run(state, { type: 'BLUR' }, { type: 'TICK' });
+    expect(blurred.status).toBe('paused');
+    expect(blurred.watchedSeconds).toBe(2);
+
+    const backgrounded = run(state, { type: 'BACKGROUND' }, { type: 'TICK' });
+    expect(backgrounded.status).toBe('paused');
+    expect(backgrounded.watchedSeconds).toBe(2);
+  });
+
+  it('resumes after focus returns instead of staying stuck', () => {
+    const blurred = run(playing(), { type: 'TICK' }, { type: 'BLUR' });
+    const refocused = transition(blurred, { type: 'FOCUS' });
+    expect(shouldAutoPlay(refocused)).toBe(true);
+
+    const resumed = run(refocused, { type: 'PLAYING' }, { type: 'TICK' });
+    expect(isTimerRunning(resumed)).toBe(true);
+    expect(resumed.watchedSeconds).toBe(2);
+  });
+
+  it('completes once the target is reached and stops counting', () => {
+    const state = run(playing(2), { type: 'TICK' }, { type: 'TICK' }, { type: 'TICK' });
+    expect(state.status).toBe('completed');
+    expect(state.watchedSeconds).toBe(2);
+  });
+
+  it('starts a new video from zero but keeps focus and foreground', () => {
+    const state = run(playing(), { type: 'TICK' }, { type: 'BACKGROUND' }, load(10));
+    expect(state).toMatchObject({ status: 'loading', watchedSeconds: 0, targetSeconds: 10, focused: true, foreground: false });
+  });
+});
+
+describe('reward claims', () => {
+  const completed = () => run(playing(1), { type: 'TICK' });
+
+  it('claims a finished watch exactly once', () => {
+    const rewarding = transition(completed(), { type: 'REWARD_START' });
+    expect(rewarding.status).toBe('rewarding');
+    expect(transition(rewarding, { type: 'REWARD_START' })).toBe(rewarding);
+
+    const rewarded = transition(rewarding, { type: 'REWARD_SUCCESS' });
+    expect(rewarded.rewardClaimed).toBe(true);
+    expect(canClaimReward(rewarded)).toBe(false);
+    expect(transition(rewarded, { type: 'REWARD_START' })).toBe(rewarded);
+  });
+
+  it('allows a retry after a failed claim', () => {
+    const failed = run(completed(), { type: 'REWARD_START' }, { type: 'REWARD_FAILURE' });
+    expect(canClaimReward(failed)).toBe(true);
+  });
+
+  it('cannot claim an unfinished watch', () => {
+    const state = playing();
+    expect(canClaimReward(state)).toBe(false);
+    expect(transition(state, { type: 'REWARD_START' })).toBe(state);
+  });
+
+  it('keeps a finished watch claimable when the player errors afterwards', () => {
+    const state = completed();
+    expect(transition(state, { type: 'ERROR', reason: 'player' })).toBe(state);
+  });
+});
+
+describe('no-op events', () => {
+  it('return the same state object', () => {
+    const paused = run(playing(), { type: 'BLUR' });
+    expect(transition(paused, { type: 'BLUR' })).toBe(paused);
+    expect(transition(paused, { type: 'PAUSED' })).toBe(paused);
+
+    const backgrounded = run(playing(), { type: 'BACKGROUND' });
+    expect(transition(backgrounded, { type: 'BACKGROUND' })).toBe(backgrounded);
+    expect(transition(focused, { type: 'FOCUS' })).toBe(focused);
+  });
+
+  it('do not notify machine listeners', () => {
+    const machine = createPlaybackMachine({ focused: true });
+    const listener = jest.fn();
+    machine.subscribe(listener);
+
+    machine.send({ type: 'FOCUS' });
+    machine.send({ type: 'TICK' });
+    expect(listener).not.toHaveBeenCalled();
+
+    machine.send(load());
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,85 @@
+// Version checks behind the update, maintenance and API gates that ConfigLoader
+// applies from the runtime config's `app` section.
+import { Platform } from 'react-native';
+import * as Application from 'expo-application';
+import Constants from 'expo-constants';
+
+// Major version of the RPC contract this build was written against
+export const SUPPORTED_API_VERSION = '1';
+
+export interface AppGateConfig {
+  minVersion?: string;
+  forceUpdate?: boolean;
+  maintenanceMode?: boolean;
+  maintenanceEndsAt?: string;
+  maintenanceMessage?: string;
+  apiVersion?: string;
+  updateUrl?: string;
+}
+
+export type AppGate =
+  | { type: 'maintenance'; endsAt: Date | null; message: string | null }
+  | { type: 'update'; required: boolean; reason: 'min_version' | 'api_version'; minVersion: string | null };
+
+// Store build version; the web build has no native version and uses app.json's
+export function getInstalledVersion(): string | null {
+  return Application.nativeApplicationVersion || Constants.expoConfig?.version || null;
+}
+
+const versionParts = (version: string): number[] =>
+  version.split(/[.+-]/).slice(0, 3).map(part => parseInt(part, 10) || 0);
+
+// Numeric dotted comparison: '1.10.0' > '1.9.2'. Returns -1, 0 or 1
+export function compareVersions(a: string, b: string): number {
+  const left = versionParts(a);
+  const right = versionParts(b);
+  for (let i = 0; i < 3; i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff > 0 ? 1 : -1;
+  }
+  return 0;
+}
+
+// Only the major version breaks the contract; a server that doesn't report one is trusted
+export function isApiVersionCompatible(
+  serverVersion: string | null | undefined,
+  supportedVersion: string = SUPPORTED_API_VERSION
+): boolean {
+  if (!serverVersion) return true;
+  return versionParts(String(serverVersion))[0] === versionParts(supportedVersion)[0];
+}
+
+// What should stand in front of the app, if anything. Maintenance wins over updates
+// because an update can't help while the backend is down.
+export function getAppGate(app: AppGateConfig | null | undefined, installedVersion: string | null): AppGate | null {
+  if (!app) return null;
+
+  if (app.maintenanceMode) {
+    const endsAt = app.maintenanceEndsAt ? new Date(app.maintenanceEndsAt) : null;
+    return {
+      type: 'maintenance',
+      endsAt: endsAt && !isNaN(endsAt.getTime()) ? endsAt : null,
+      message: app.maintenanceMessage || null,
+    };
+  }
+
+  // An incompatible backend can't be worked around, so that update is never optional
+  if (!isApiVersionCompatible(app.apiVersion)) {
+    return { type: 'update', required: true, reason: 'api_version', minVersion: app.minVersion || null };
+  }
+
+  if (app.minVersion && installedVersion && compareVersions(installedVersion, app.minVersion) < 0) {
+    return { type: 'update', required: !!app.forceUpdate, reason: 'min_version', minVersion: app.minVersion };
+  }
+
+  return null;
+}
+
+// Config can point at a specific listing; otherwise open this app's store page
+export function getUpdateUrl(app: AppGateConfig | null | undefined): string | null {
+  if (app?.updateUrl) return app.updateUrl;
+  if (Platform.OS === 'android' && Application.applicationId) {
+    return `market://details?id=${Application.applicationId}`;
+  }
+  return null;
+}
@@ -0,0 +1,94 @@
+// Audience targeting for promotions. Creators can limit a campaign to viewers
+// with certain languages and countries; getVideoQueue filters on the viewer's
+// profiles.language and profiles.country, and quote_promotion prices narrower
+// targeting with a multiplier.
+
+export interface LanguageOption {
+  code: string;
+  name: string;
+  nativeName: string;
+  flag: string;
+}
+
+export interface CountryOption {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  flag: string;
+}
+
+// Languages the app offers (the Languages screen) and promotions can target
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', name: 'English', nativeName: 'English', flag: '🇺🇸' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español', flag: '🇪🇸' },
+  { code: 'fr', name: 'French', nativeName: 'Français', flag: '🇫🇷' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', flag: '🇩🇪' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano', flag: '🇮🇹' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português', flag: '🇵🇹' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский', flag: '🇷🇺' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文', flag: '🇨🇳' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', flag: '🇯🇵' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어', flag: '🇰🇷' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', flag: '🇸🇦' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', flag: '🇮🇳' },
+];
+
+export const TARGET_COUNTRIES: CountryOption[] = [
+  { code: 'IN', name: 'India', flag: '🇮🇳' },
+  { code: 'US', name: 'United States', flag: '🇺🇸' },
+  { code: 'GB', name: 'United Kingdom', flag: '🇬🇧' },
+  { code: 'BR', name: 'Brazil', flag: '🇧🇷' },
+  { code: 'MX', name: 'Mexico', flag: '🇲🇽' },
+  { code: 'ES', name: 'Spain', flag: '🇪🇸' },
+  { code: 'FR', name: 'France', flag: '🇫🇷' },
+  { code: 'DE', name: 'Germany', flag: '🇩🇪' },
+  { code: 'RU', name: 'Russia', flag: '🇷🇺' },
+  { code: 'JP', name: 'Japan', flag: '🇯🇵' },
+  { code: 'KR', name: 'South Korea', flag: '🇰🇷' },
+  { code: 'SA', name: 'Saudi Arabia', flag: '🇸🇦' },
+  { code: 'ID', name: 'Indonesia', flag: '🇮🇩' },
+  { code: 'PH', name: 'Philippines', flag: '🇵🇭' },
+];
+
+// Empty lists mean everyone
+export interface PromotionTargeting {
+  languages: string[];
+  countries: string[];
+}
+
+export const EVERYONE: PromotionTargeting = { languages: [], countries: [] };
+
+export function isTargeted(targeting: PromotionTargeting): boolean {
+  return targeting.languages.length > 0 || targeting.countries.length > 0;
+}
+
+export function isSameTargeting(a: PromotionTargeting, b: PromotionTargeting): boolean {
+  const same = (x: string[], y: string[]) =>
+    x.length === y.length && [...x].sort().join(',') === [...y].sort().join(',');
+  return same(a.languages, b.languages) && same(a.countries, b.countries);
+}
+
+export function describeTargeting(targeting: PromotionTargeting): string {
+  if (!isTargeted(targeting)) return 'Everyone';
+
+  const languages = targeting.languages
+    .map(code => LANGUAGES.find(language => language.code === code)?.name || code);
+  const countries = targeting.countries
+    .map(code => TARGET_COUNTRIES.find(country => country.code === code)?.name || code);
+  return [languages.join(', '), countries.join(', ')].filter(Boolean).join(' · ');
+}
+
+// Language and country from the device locale (e.g. 'pt-BR'), used until the
+// viewer picks a language themselves
+export function detectDeviceLocale(): { language: string | null; country: string | null } {
+  try {
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale || '';
+    const [languagePart, ...rest] = locale.split('-');
+    const language = LANGUAGES.some(option => option.code === languagePart.toLowerCase())
+      ? languagePart.toLowerCase()
+      : null;
+    const region = rest.find(part => /^[A-Za-z]{2}$/.test(part));
+    return { language, country: region ? region.toUpperCase() : null };
+  } catch (error) {
+    return { language: null, country: null };
+  }
+}
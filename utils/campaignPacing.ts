@@ -0,0 +1,95 @@
+// Scheduling and pacing for promotion campaigns. A campaign can have a start
+// time, an end time and a daily view cap; the server enforces all three when it
+// records views, and the queue uses the same rules to skip campaigns that can't
+// take a view right now.
+
+export interface PromotionSchedule {
+  startsAt: Date | null; // null: as soon as the hold period ends
+  endsAt: Date | null; // null: runs until target_views is reached
+  dailyViewCap: number | null; // null: no daily limit
+}
+
+export interface PacedCampaign {
+  status?: string;
+  views_count: number;
+  target_views: number;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  daily_view_cap?: number | null;
+  views_today?: number | null;
+}
+
+export type CampaignPhase =
+  | 'scheduled' // start time not reached yet
+  | 'live'
+  | 'capped' // daily cap reached; resumes tomorrow
+  | 'ended' // end time passed
+  | 'paused';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function getCampaignPhase(campaign: PacedCampaign, now: Date = new Date()): CampaignPhase {
+  if (campaign.status === 'paused') return 'paused';
+
+  const startsAt = parseDate(campaign.starts_at);
+  if (startsAt && now < startsAt) return 'scheduled';
+
+  const endsAt = parseDate(campaign.ends_at);
+  if (endsAt && now >= endsAt) return 'ended';
+
+  if (campaign.daily_view_cap && (campaign.views_today || 0) >= campaign.daily_view_cap) return 'capped';
+
+  return 'live';
+}
+
+// Whether a viewer may be served this campaign now (status checks are done by the caller)
+export function isCampaignServable(campaign: PacedCampaign, now: Date = new Date()): boolean {
+  return getCampaignPhase(campaign, now) === 'live';
+}
+
+// How far a campaign with an end date is behind an even spread of its views, 0..1.
+// Campaigns without an end date are never behind.
+export function getPacingDeficit(campaign: PacedCampaign, now: Date = new Date()): number {
+  const startsAt = parseDate(campaign.starts_at);
+  const endsAt = parseDate(campaign.ends_at);
+  if (!startsAt || !endsAt || endsAt <= startsAt || campaign.target_views <= 0) return 0;
+
+  const elapsedShare = Math.min(1, Math.max(0, (now.getTime() - startsAt.getTime()) / (endsAt.getTime() - startsAt.getTime())));
+  const deliveredShare = Math.min(1, (campaign.views_count || 0) / campaign.target_views);
+  return Math.max(0, elapsedShare - deliveredShare);
+}
+
+// Days the campaign runs for, rounded up; null when it has no end date
+export function getScheduleDays(schedule: PromotionSchedule, now: Date = new Date()): number | null {
+  if (!schedule.endsAt) return null;
+  const start = schedule.startsAt || now;
+  return Math.max(1, Math.ceil((schedule.endsAt.getTime() - start.getTime()) / DAY_MS));
+}
+
+// Returns an error message when the schedule can't work, or null when it can
+export function validateSchedule(
+  schedule: PromotionSchedule,
+  targetViews: number,
+  now: Date = new Date()
+): string | null {
+  if (schedule.endsAt && schedule.endsAt <= (schedule.startsAt || now)) {
+    return 'End date must be after the start date';
+  }
+
+  if (schedule.dailyViewCap !== null && schedule.dailyViewCap <= 0) {
+    return 'Daily view cap must be greater than zero';
+  }
+
+  const days = getScheduleDays(schedule, now);
+  if (days !== null && schedule.dailyViewCap !== null && days * schedule.dailyViewCap < targetViews) {
+    return `A cap of ${schedule.dailyViewCap}/day over ${days} day${days === 1 ? '' : 's'} can't reach ${targetViews} views`;
+  }
+
+  return null;
+}
@@ -0,0 +1,55 @@
+// Kinds of promotion a creator can buy. View campaigns pay viewers for watch time
+// in the Watch tab; subscribe and like campaigns pay for an action on YouTube,
+// earned through the engagement flow and checked by an EngagementVerifier.
+
+export type CampaignType = 'view' | 'subscribe' | 'like';
+
+export type EngagementCampaignType = Exclude<CampaignType, 'view'>;
+
+export interface CampaignTypeInfo {
+  type: CampaignType;
+  label: string;
+  unit: string; // what target_views counts for this type
+  unitPlural: string;
+  actionLabel: string; // button text for viewers
+  description: string;
+}
+
+export const CAMPAIGN_TYPES: Record<CampaignType, CampaignTypeInfo> = {
+  view: {
+    type: 'view',
+    label: 'Views',
+    unit: 'view',
+    unitPlural: 'views',
+    actionLabel: 'Watch',
+    description: 'Viewers watch your video for the chosen duration',
+  },
+  subscribe: {
+    type: 'subscribe',
+    label: 'Subscribers',
+    unit: 'subscriber',
+    unitPlural: 'subscribers',
+    actionLabel: 'Subscribe',
+    description: 'Viewers subscribe to your channel',
+  },
+  like: {
+    type: 'like',
+    label: 'Likes',
+    unit: 'like',
+    unitPlural: 'likes',
+    actionLabel: 'Like',
+    description: 'Viewers like your video',
+  },
+};
+
+export const ENGAGEMENT_CAMPAIGN_TYPES: EngagementCampaignType[] = ['subscribe', 'like'];
+
+// Rows created before campaign types existed have no campaign_type
+export function getCampaignType(video: { campaign_type?: string | null } | null | undefined): CampaignType {
+  const type = video?.campaign_type;
+  return type === 'subscribe' || type === 'like' ? type : 'view';
+}
+
+export function isEngagementCampaign(video: { campaign_type?: string | null } | null | undefined): boolean {
+  return getCampaignType(video) !== 'view';
+}
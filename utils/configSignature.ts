@@ -0,0 +1,146 @@
+// Verifies the detached signature the config endpoint sends next to the runtime
+// config. The server signs the canonical JSON of `data` with RS256 (RSASSA-PKCS1-v1_5
+// over SHA-256) and names the key it used, so keys can be rotated by shipping the
+// new public key before the server switches to it.
+//
+// Build settings:
+// - EXPO_PUBLIC_CONFIG_SIGNING_KEYS: the public keys, as a JWKS, set as an EAS environment
+//   variable. When any are bundled, every config must be signed by one of them.
+// - EXPO_PUBLIC_REQUIRE_CONFIG_SIGNATURE: 'true' rejects unsigned config even when no keys
+//   are bundled. The preview and production profiles in eas.json set it, so a release build
+//   missing its keys rejects every config and falls back to the verified cache.
+import * as Crypto from 'expo-crypto';
+
+export interface ConfigSignature {
+  kid: string;
+  alg: 'RS256';
+  sig: string; // base64url
+}
+
+// Public half of a signing key, as a JWK
+export interface ConfigSigningKey {
+  kid: string;
+  kty: 'RSA';
+  n: string; // modulus, base64url
+  e: string; // exponent, base64url
+}
+
+export type SignatureFailure = 'missing_signature' | 'unknown_key' | 'unsupported_algorithm' | 'invalid_signature';
+
+export type SignatureCheck = { valid: true; kid: string } | { valid: false; reason: SignatureFailure; kid: string | null };
+
+// Thrown for a rejected config, so callers can skip other endpoints and go to the verified cache
+export class ConfigSignatureError extends Error {
+  constructor(public readonly reason: SignatureFailure, public readonly kid: string | null) {
+    super(`Runtime config signature rejected (${reason})`);
+    this.name = 'ConfigSignatureError';
+  }
+}
+
+// DER prefix of the DigestInfo for SHA-256 in an EMSA-PKCS1-v1_5 block
+const SHA256_DIGEST_INFO = '3031300d060960864801650304020105000420';
+
+// Keys are bundled at build time as a JWKS: EXPO_PUBLIC_CONFIG_SIGNING_KEYS='{"keys":[...]}'
+export function getBundledSigningKeys(): ConfigSigningKey[] {
+  const raw = process.env.EXPO_PUBLIC_CONFIG_SIGNING_KEYS;
+  if (!raw) return [];
+  try {
+    const keys = JSON.parse(raw)?.keys;
+    return Array.isArray(keys) ? keys.filter(key => key?.kty === 'RSA' && key.kid && key.n && key.e) : [];
+  } catch (error) {
+    console.error('Invalid EXPO_PUBLIC_CONFIG_SIGNING_KEYS:', error);
+    return [];
+  }
+}
+
+// Unsigned config is only accepted by builds that ship no keys and don't ask for signatures
+export function isConfigSignatureRequired(keys: ConfigSigningKey[] = getBundledSigningKeys()): boolean {
+  return keys.length > 0 || process.env.EXPO_PUBLIC_REQUIRE_CONFIG_SIGNATURE === 'true';
+}
+
+// JSON with object keys sorted and no whitespace, so both sides sign the same bytes
+export function canonicalJson(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  const entries = Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+const base64UrlToHex = (input: string): string => {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  let hex = '';
+  for (let i = 0; i < binary.length; i++) {
+    hex += binary.charCodeAt(i).toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+const hexToBigInt = (hex: string): bigint => BigInt(`0x${hex || '0'}`);
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = BigInt(1);
+  let b = base % modulus;
+  let e = exponent;
+  while (e > BigInt(0)) {
+    if (e & BigInt(1)) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+    e >>= BigInt(1);
+  }
+  return result;
+};
+
+const sha256Hex = async (message: string): Promise<string> => {
+  const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+async function verifyRs256(message: string, signature: string, key: ConfigSigningKey): Promise<boolean> {
+  const modulusHex = base64UrlToHex(key.n).replace(/^(00)+/, '');
+  const keyLength = modulusHex.length / 2;
+  const modulus = hexToBigInt(modulusHex);
+  const signatureValue = hexToBigInt(base64UrlToHex(signature));
+  if (signatureValue >= modulus) return false;
+
+  const encoded = modPow(signatureValue, hexToBigInt(base64UrlToHex(key.e)), modulus)
+    .toString(16)
+    .padStart(keyLength * 2, '0');
+  const hashHex = await sha256Hex(message);
+  const paddingLength = keyLength - 3 - SHA256_DIGEST_INFO.length / 2 - hashHex.length / 2;
+  if (paddingLength < 8) return false;
+
+  const expected = `0001${'ff'.repeat(paddingLength)}00${SHA256_DIGEST_INFO}${hashHex}`;
+  return encoded === expected;
+}
+
+export async function verifyConfigSignature(
+  data: any,
+  signature: ConfigSignature | null | undefined,
+  keys: ConfigSigningKey[] = getBundledSigningKeys()
+): Promise<SignatureCheck> {
+  if (!signature?.sig || !signature.kid) {
+    return { valid: false, reason: 'missing_signature', kid: signature?.kid ?? null };
+  }
+  if (signature.alg !== 'RS256') {
+    return { valid: false, reason: 'unsupported_algorithm', kid: signature.kid };
+  }
+  const key = keys.find(candidate => candidate.kid === signature.kid);
+  if (!key) {
+    return { valid: false, reason: 'unknown_key', kid: signature.kid };
+  }
+
+  try {
+    const valid = await verifyRs256(canonicalJson(data), signature.sig, key);
+    return valid ? { valid: true, kid: key.kid } : { valid: false, reason: 'invalid_signature', kid: key.kid };
+  } catch (error) {
+    console.error('Config signature check failed:', error);
+    return { valid: false, reason: 'invalid_signature', kid: key.kid };
+  }
+}
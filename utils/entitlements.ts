@@ -0,0 +1,53 @@
+// Perks each membership tier unlocks. Screens read named perks from
+// useEntitlements() instead of checking VIP status themselves; runtime config
+// can override any perk per tier, so perks change without an app release.
+import type { VipStatus } from './vipStatus';
+
+export type Tier = 'free' | 'vip';
+
+export interface Perks {
+  promotionDiscountPct: number; // off the coin cost of every promotion
+  adFree: boolean;
+  prioritySupport: boolean;
+  maxActiveCampaigns: number; // promotions running at once
+  badge: boolean;
+}
+
+export interface Entitlements extends Perks {
+  tier: Tier;
+}
+
+export type TierPerkOverrides = Partial<Record<Tier, Partial<Perks>>>;
+
+export const DEFAULT_TIER_PERKS: Record<Tier, Perks> = {
+  free: {
+    promotionDiscountPct: 0,
+    adFree: false,
+    prioritySupport: false,
+    maxActiveCampaigns: 5,
+    badge: false,
+  },
+  vip: {
+    promotionDiscountPct: 10,
+    adFree: true,
+    prioritySupport: true,
+    maxActiveCampaigns: 20,
+    badge: true,
+  },
+};
+
+export function getTierForVipStatus(vipStatus: Pick<VipStatus, 'isVip'> | null | undefined): Tier {
+  return vipStatus?.isVip ? 'vip' : 'free';
+}
+
+export function getTierPerks(tier: Tier, overrides?: TierPerkOverrides): Perks {
+  return { ...DEFAULT_TIER_PERKS[tier], ...(overrides?.[tier] || {}) };
+}
+
+export function resolveEntitlements(
+  vipStatus: Pick<VipStatus, 'isVip'> | null | undefined,
+  overrides?: TierPerkOverrides
+): Entitlements {
+  const tier = getTierForVipStatus(vipStatus);
+  return { tier, ...getTierPerks(tier, overrides) };
+}
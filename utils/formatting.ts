@@ -0,0 +1,140 @@
+// Locale-aware formatting for prices, coins, durations and dates. Everything
+// takes the locale to format for; useFormatting binds these to the app
+// language. Intl support varies between JS engines, so each formatter has a
+// plain fallback.
+import { detectDeviceLocale } from './audienceTargeting';
+
+// Currency the list prices in the app are written in; runtime config can override it
+export const DEFAULT_CURRENCY = 'INR';
+
+// Price of a store product as reported by react-native-iap
+export interface StorePrice {
+  amount: number;
+  currency: string;
+  formatted: string | null; // the store's own localized string, shown as-is when present
+}
+
+// App language plus the device region, so 'en' on an Indian phone groups digits as en-IN
+export function getFormattingLocale(language: string): string {
+  const { country } = detectDeviceLocale();
+  return country && !language.includes('-') ? `${language}-${country}` : language;
+}
+
+export function formatNumber(value: number, locale: string, options?: Intl.NumberFormatOptions): string {
+  const safeValue = Number(value) || 0;
+  try {
+    return new Intl.NumberFormat(locale, options).format(safeValue);
+  } catch (error) {
+    return String(safeValue);
+  }
+}
+
+export function formatCoins(value: number | null | undefined, locale: string): string {
+  return formatNumber(Math.floor(Number(value) || 0), locale);
+}
+
+export function formatCurrency(amount: number, currency: string, locale: string): string {
+  const safeAmount = Number(amount) || 0;
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      // Whole prices read better without ".00"
+      minimumFractionDigits: Number.isInteger(safeAmount) ? 0 : 2,
+      maximumFractionDigits: 2,
+    }).format(safeAmount);
+  } catch (error) {
+    return `${currency} ${safeAmount.toFixed(Number.isInteger(safeAmount) ? 0 : 2)}`;
+  }
+}
+
+// Reads the price from a product or subscription returned by getProducts/getSubscriptions
+export function getStorePrice(product: any): StorePrice | null {
+  if (!product) return null;
+
+  // Google Play subscriptions: the recurring price is the last phase of the offer being sold
+  const phases = product.subscriptionOfferDetails?.[0]?.pricingPhases?.pricingPhaseList;
+  const details = phases?.length ? phases[phases.length - 1] : product.oneTimePurchaseOfferDetails;
+  if (details?.priceAmountMicros && details.priceCurrencyCode) {
+    return {
+      amount: Number(details.priceAmountMicros) / 1_000_000,
+      currency: details.priceCurrencyCode,
+      formatted: details.formattedPrice || null,
+    };
+  }
+
+  const amount = Number(product.price);
+  if (!product.currency || !Number.isFinite(amount)) return null;
+  return { amount, currency: product.currency, formatted: product.localizedPrice || null };
+}
+
+// Formats an amount written against the list price (the price itself, an original
+// price, savings). With a store price the amount is scaled into the store's currency.
+export function formatPrice(
+  amount: number,
+  locale: string,
+  options: { listPrice?: number; storePrice?: StorePrice | null; currency?: string } = {}
+): string {
+  const { listPrice, storePrice, currency = DEFAULT_CURRENCY } = options;
+  if (!storePrice || !listPrice) {
+    return formatCurrency(amount, currency, locale);
+  }
+  if (amount === listPrice && storePrice.formatted) {
+    return storePrice.formatted;
+  }
+  return formatCurrency((amount * storePrice.amount) / listPrice, storePrice.currency, locale);
+}
+
+function formatUnit(value: number, unit: 'hour' | 'minute' | 'second', locale: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'narrow' }).format(value);
+  } catch (error) {
+    return `${value}${unit[0]}`;
+  }
+}
+
+// 3725 -> "1h 2m 5s", 65 -> "1m 5s"
+export function formatDuration(seconds: number, locale: string): string {
+  const safeSeconds = Math.max(0, Math.floor(Number(seconds) || 0));
+  const hours = Math.floor(safeSeconds / 3600);
+  const minutes = Math.floor((safeSeconds % 3600) / 60);
+  const remainingSeconds = safeSeconds % 60;
+
+  const parts: string[] = [];
+  if (hours > 0) parts.push(formatUnit(hours, 'hour', locale));
+  if (hours > 0 || minutes > 0) parts.push(formatUnit(minutes, 'minute', locale));
+  parts.push(formatUnit(remainingSeconds, 'second', locale));
+  return parts.join(' ');
+}
+
+// Countdown clock: 65 -> "1:05"
+export function formatTimer(seconds: number, locale: string): string {
+  const safeSeconds = Math.max(0, Math.floor(Number(seconds) || 0));
+  const minutes = formatNumber(Math.floor(safeSeconds / 60), locale, { useGrouping: false });
+  const secs = formatNumber(safeSeconds % 60, locale, { minimumIntegerDigits: 2 });
+  return `${minutes}:${secs}`;
+}
+
+const DEFAULT_DATE_OPTIONS: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
+
+export function formatDate(
+  date: Date | string | number,
+  locale: string,
+  options: Intl.DateTimeFormatOptions = DEFAULT_DATE_OPTIONS
+): string {
+  const value = new Date(date);
+  if (isNaN(value.getTime())) return '';
+  try {
+    return new Intl.DateTimeFormat(locale, options).format(value);
+  } catch (error) {
+    return value.toLocaleDateString();
+  }
+}
+
+export function formatDateTime(date: Date | string | number, locale: string): string {
+  return formatDate(date, locale, { ...DEFAULT_DATE_OPTIONS, hour: 'numeric', minute: '2-digit' });
+}
+
+export function formatTime(date: Date | string | number, locale: string): string {
+  return formatDate(date, locale, { hour: 'numeric', minute: '2-digit' });
+}
@@ -0,0 +1,129 @@
+// Message formatting for the translation catalogs in locales/. Messages use a
+// small ICU subset: {name} placeholders and {count, plural, =0 {...} one {...}
+// other {...}} where # stands for the count. Lookups fall back from the full
+// locale (pt-BR) to its language (pt) to English, and finally to the key.
+
+export type MessageValues = Record<string, string | number>;
+export type MessageCatalog = Record<string, string | undefined>;
+
+export const DEFAULT_LOCALE = 'en';
+
+// Languages written right to left; the layout mirrors when one is active
+export const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+
+export function isRTLLanguage(locale: string | null | undefined): boolean {
+  return RTL_LANGUAGES.includes((locale || '').split(/[-_]/)[0].toLowerCase());
+}
+
+// 'pt-BR' -> ['pt-BR', 'pt', 'en']
+export function getLocaleChain(locale: string | null | undefined): string[] {
+  const chain: string[] = [];
+  const add = (code: string | null | undefined) => {
+    if (code && !chain.includes(code)) chain.push(code);
+  };
+
+  const normalized = (locale || '').replace('_', '-');
+  add(normalized);
+  add(normalized.split('-')[0].toLowerCase());
+  add(DEFAULT_LOCALE);
+  return chain;
+}
+
+// Hermes only ships Intl.PluralRules on newer engines; English rules otherwise
+function selectPluralCategory(count: number, locale: string): string {
+  try {
+    if (typeof Intl !== 'undefined' && typeof Intl.PluralRules === 'function') {
+      return new Intl.PluralRules(locale).select(count);
+    }
+  } catch (error) {
+    // Unsupported locale tag
+  }
+  return count === 1 ? 'one' : 'other';
+}
+
+// Index of the brace that closes the one at `start`
+function findClosingBrace(message: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < message.length; i++) {
+    if (message[i] === '{') depth++;
+    if (message[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// "=0 {none} one {# coin} other {# coins}" -> { '=0': 'none', one: '# coin', other: '# coins' }
+function parsePluralOptions(body: string): Record<string, string> {
+  const options: Record<string, string> = {};
+  let i = 0;
+  while (i < body.length) {
+    const open = body.indexOf('{', i);
+    if (open === -1) break;
+    const close = findClosingBrace(body, open);
+    if (close === -1) break;
+    const selector = body.slice(i, open).trim();
+    if (selector) options[selector] = body.slice(open + 1, close);
+    i = close + 1;
+  }
+  return options;
+}
+
+function formatArgument(argument: string, values: MessageValues, locale: string): string {
+  const [name, type, ...rest] = argument.split(',');
+  const key = name.trim();
+  const value = values[key];
+
+  if (type?.trim() === 'plural') {
+    const count = Number(value ?? 0);
+    const options = parsePluralOptions(rest.join(','));
+    const branch = options[`=${count}`] ?? options[selectPluralCategory(count, locale)] ?? options.other ?? '';
+    return formatMessage(branch, values, locale, count);
+  }
+
+  // Unknown placeholders stay visible so missing values are easy to spot
+  return value === undefined || value === null ? `{${key}}` : String(value);
+}
+
+export function formatMessage(
+  message: string,
+  values: MessageValues = {},
+  locale: string = DEFAULT_LOCALE,
+  pluralCount?: number
+): string {
+  let result = '';
+  let i = 0;
+  while (i < message.length) {
+    const char = message[i];
+    if (char === '{') {
+      const close = findClosingBrace(message, i);
+      if (close === -1) {
+        result += message.slice(i);
+        break;
+      }
+      result += formatArgument(message.slice(i + 1, close), values, locale);
+      i = close + 1;
+      continue;
+    }
+    result += char === '#' && pluralCount !== undefined ? String(pluralCount) : char;
+    i++;
+  }
+  return result;
+}
+
+// Finds the message in the first catalog along the locale chain that has it
+export function translate(
+  catalogs: Record<string, MessageCatalog>,
+  locale: string,
+  key: string,
+  values?: MessageValues
+): string {
+  for (const code of getLocaleChain(locale)) {
+    const message = catalogs[code]?.[key];
+    if (message !== undefined) {
+      return formatMessage(message, values, code);
+    }
+  }
+  return key;
+}
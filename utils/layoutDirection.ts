@@ -0,0 +1,34 @@
+// Layout direction follows the app language. Native layout direction is read
+// once at startup, so switching between LTR and RTL needs a reload there; on
+// web the document direction is switched in place.
+import { I18nManager, Platform } from 'react-native';
+import { reloadAppAsync } from 'expo';
+
+export function getLayoutIsRTL(): boolean {
+  if (Platform.OS === 'web') {
+    return typeof document !== 'undefined' && document.documentElement.dir === 'rtl';
+  }
+  return I18nManager.isRTL;
+}
+
+// Requests the direction and returns true when a reload is needed to show it
+export function applyLayoutDirection(isRTL: boolean): boolean {
+  if (Platform.OS === 'web') {
+    if (typeof document !== 'undefined') {
+      document.documentElement.dir = isRTL ? 'rtl' : 'ltr';
+    }
+    return false;
+  }
+
+  I18nManager.allowRTL(isRTL);
+  I18nManager.forceRTL(isRTL);
+  return I18nManager.isRTL !== isRTL;
+}
+
+export async function reloadForLayoutDirection(): Promise<void> {
+  try {
+    await reloadAppAsync('Layout direction changed');
+  } catch (error) {
+    console.error('Error reloading for layout direction:', error);
+  }
+}
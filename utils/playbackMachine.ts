@@ -0,0 +1,237 @@
+// Watch-tab playback state machine. Pure TypeScript with no React Native imports,
+// so every transition can be exercised without rendering the screen.
+
+export type PlaybackStatus =
+  | 'idle'
+  | 'loading'
+  | 'ready'
+  | 'playing'
+  | 'paused'
+  | 'completed'
+  | 'rewarding'
+  | 'error';
+
+export interface PlaybackState {
+  status: PlaybackStatus;
+  videoId: string | null;
+  watchedSeconds: number;
+  targetSeconds: number;
+  focused: boolean;
+  foreground: boolean;
+  rewardClaimed: boolean;
+  errorReason: string | null;
+}
+
+export type PlaybackEvent =
+  | { type: 'LOAD'; videoId: string; targetSeconds: number }
+  | { type: 'RESUME'; videoId: string; watchedSeconds: number }
+  | { type: 'LOADED' }
+  | { type: 'LOAD_TIMEOUT' }
+  | { type: 'PLAYING' }
+  | { type: 'PAUSED' }
+  | { type: 'ENDED' }
+  | { type: 'TICK' }
+  | { type: 'FOCUS' }
+  | { type: 'BLUR' }
+  | { type: 'FOREGROUND' }
+  | { type: 'BACKGROUND' }
+  | { type: 'REWARD_START' }
+  | { type: 'REWARD_SUCCESS' }
+  | { type: 'REWARD_FAILURE' }
+  | { type: 'ERROR'; reason: string }
+  | { type: 'RESET' };
+
+export const initialPlaybackState: PlaybackState = {
+  status: 'idle',
+  videoId: null,
+  watchedSeconds: 0,
+  targetSeconds: 0,
+  focused: false,
+  foreground: true,
+  rewardClaimed: false,
+  errorReason: null,
+};
+
+// Statuses in which the player may still report playback changes
+const ACTIVE_STATUSES: PlaybackStatus[] = ['loading', 'ready', 'playing', 'paused', 'error'];
+
+// Returns the same object when the event does not change anything, so listeners
+// are only notified on real transitions.
+export function transition(state: PlaybackState, event: PlaybackEvent): PlaybackState {
+  switch (event.type) {
+    case 'LOAD':
+      return {
+        ...initialPlaybackState,
+        status: 'loading',
+        videoId: event.videoId,
+        targetSeconds: Math.max(0, event.targetSeconds),
+        focused: state.focused,
+        foreground: state.foreground,
+      };
+
+    case 'RESET':
+      return {
+        ...initialPlaybackState,
+        focused: state.focused,
+        foreground: state.foreground,
+      };
+
+    case 'RESUME':
+      // Restores watch time the server kept for an interrupted session of this video
+      if (
+        state.videoId === event.videoId &&
+        ACTIVE_STATUSES.includes(state.status) &&
+        event.watchedSeconds > state.watchedSeconds
+      ) {
+        return { ...state, watchedSeconds: Math.min(event.watchedSeconds, state.targetSeconds) };
+      }
+      return state;
+
+    case 'LOADED':
+      if (state.status === 'loading' || state.status === 'error') {
+        return { ...state, status: 'ready', errorReason: null };
+      }
+      return state;
+
+    case 'LOAD_TIMEOUT':
+      if (state.status === 'loading') {
+        return { ...state, status: 'error', errorReason: 'timeout' };
+      }
+      return state;
+
+    case 'PLAYING':
+      if (ACTIVE_STATUSES.includes(state.status) && state.status !== 'playing') {
+        return { ...state, status: 'playing', errorReason: null };
+      }
+      return state;
+
+    case 'PAUSED':
+      if (state.status === 'playing') {
+        return { ...state, status: 'paused' };
+      }
+      return state;
+
+    case 'ENDED':
+      if (ACTIVE_STATUSES.includes(state.status) && state.status !== 'error') {
+        return { ...state, status: 'error', errorReason: 'ended' };
+      }
+      return state;
+
+    case 'TICK': {
+      if (!isTimerRunning(state)) {
+        return state;
+      }
+      const watchedSeconds = state.watchedSeconds + 1;
+      return {
+        ...state,
+        watchedSeconds,
+        status: watchedSeconds >= state.targetSeconds ? 'completed' : 'playing',
+      };
+    }
+
+    case 'FOCUS':
+      return state.focused ? state : { ...state, focused: true };
+
+    case 'BLUR':
+      if (!state.focused && state.status !== 'playing') {
+        return state;
+      }
+      return {
+        ...state,
+        focused: false,
+        status: state.status === 'playing' ? 'paused' : state.status,
+      };
+
+    case 'FOREGROUND':
+      return state.foreground ? state : { ...state, foreground: true };
+
+    case 'BACKGROUND':
+      if (!state.foreground && state.status !== 'playing') {
+        return state;
+      }
+      return {
+        ...state,
+        foreground: false,
+        status: state.status === 'playing' ? 'paused' : state.status,
+      };
+
+    case 'REWARD_START':
+      if (canClaimReward(state)) {
+        return { ...state, status: 'rewarding' };
+      }
+      return state;
+
+    case 'REWARD_SUCCESS':
+      if (state.status === 'rewarding') {
+        return { ...state, status: 'completed', rewardClaimed: true };
+      }
+      return state;
+
+    case 'REWARD_FAILURE':
+      if (state.status === 'rewarding') {
+        return { ...state, status: 'completed', rewardClaimed: false };
+      }
+      return state;
+
+    case 'ERROR':
+      // A finished watch stays claimable even if the player fails afterwards
+      if (state.status === 'completed' || state.status === 'rewarding' || state.status === 'idle') {
+        return state;
+      }
+      return { ...state, status: 'error', errorReason: event.reason };
+
+    default:
+      return state;
+  }
+}
+
+// Watch time only accrues while the video plays in a focused, foregrounded tab
+export function isTimerRunning(state: PlaybackState): boolean {
+  return state.status === 'playing' && state.focused && state.foreground;
+}
+
+export function canClaimReward(state: PlaybackState): boolean {
+  return state.status === 'completed' && !state.rewardClaimed && state.videoId !== null;
+}
+
+export function shouldAutoPlay(state: PlaybackState): boolean {
+  return (
+    state.focused &&
+    state.foreground &&
+    (state.status === 'loading' || state.status === 'ready' || state.status === 'paused')
+  );
+}
+
+export function remainingSeconds(state: PlaybackState): number {
+  return Math.max(0, state.targetSeconds - state.watchedSeconds);
+}
+
+type PlaybackListener = (state: PlaybackState, previous: PlaybackState) => void;
+
+export function createPlaybackMachine(initial: Partial<PlaybackState> = {}) {
+  let state: PlaybackState = { ...initialPlaybackState, ...initial };
+  const listeners = new Set<PlaybackListener>();
+
+  return {
+    getState: (): PlaybackState => state,
+
+    send(event: PlaybackEvent): PlaybackState {
+      const previous = state;
+      const next = transition(previous, event);
+      if (next !== previous) {
+        state = next;
+        listeners.forEach(listener => listener(next, previous));
+      }
+      return state;
+    },
+
+    subscribe(listener: PlaybackListener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type PlaybackMachine = ReturnType<typeof createPlaybackMachine>;
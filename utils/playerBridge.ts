@@ -0,0 +1,388 @@
+// Versioned message protocol between the player HTML (WebView / iframe) and React Native.
+// Every message is an envelope { v, id, type, payload, replyTo? }; payloads are validated
+// against the schemas below on both sides, and anything unknown or malformed is reported.
+
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
+type FieldSpec = 'string' | 'number' | 'boolean' | 'string?' | 'number?' | 'boolean?';
+
+type PayloadSchema<P> = { [K in keyof P]-?: FieldSpec };
+
+export type BridgeSchemas<M> = { [K in keyof M]: PayloadSchema<M[K]> };
+
+export interface BridgeMessageBase<K, P> {
+  v: number;
+  id: string;
+  type: K;
+  payload: P;
+  replyTo?: string;
+}
+
+export type BridgeMessage<M> = {
+  [K in keyof M]: BridgeMessageBase<K, M[K]>;
+}[keyof M];
+
+// Payload of messages that carry no data
+type EmptyPayload = Record<string, never>;
+
+// Sent by either side of the bridge
+interface CommonEventMap {
+  commandAck: { ok: boolean; error?: string };
+  bridgeError: { reason: string; raw?: string };
+}
+
+// React Native -> watch player
+export interface PlayerCommandMap {
+  playVideo: EmptyPayload;
+  pauseVideo: EmptyPayload;
+  timerComplete: EmptyPayload;
+}
+
+// Watch player -> React Native
+export interface PlayerEventMap extends CommonEventMap {
+  webViewReady: EmptyPayload;
+  videoLoaded: EmptyPayload;
+  videoPlaying: EmptyPayload;
+  videoPaused: EmptyPayload;
+  videoEnded: EmptyPayload;
+  videoUnavailable: { errorCode?: number }; // YouTube error code when the player reported one
+  videoError: { errorCode?: number };
+}
+
+// Promote-screen preview player -> React Native
+export interface PreviewEventMap extends CommonEventMap {
+  PLAYER_READY: { videoId: string };
+  LOADING_TIMEOUT: { message: string };
+  API_LOAD_ERROR: { message: string };
+  PLAYER_INIT_ERROR: { message: string };
+  LIVE_VIDEO_DETECTED: { message: string };
+  PLAYBACK_SUCCESS: { embeddable: boolean; state: number; stateName: string };
+  PLAYBACK_FAILED: { embeddable: boolean; error?: number; message: string; isEmbeddingError: boolean };
+  RETRY_NEEDED: { error?: number; message: string; retryAttempt: number };
+  TITLE_DETECTED: { title: string; success: boolean; message?: string };
+  STATE_CHANGE: { state: number; stateName: string };
+  PAGE_ERROR: { message: string };
+}
+
+export type PlayerCommandType = keyof PlayerCommandMap;
+export type PlayerEvent = BridgeMessage<PlayerEventMap>;
+export type PreviewEvent = BridgeMessage<PreviewEventMap>;
+
+const COMMON_EVENT_SCHEMAS: BridgeSchemas<CommonEventMap> = {
+  commandAck: { ok: 'boolean', error: 'string?' },
+  bridgeError: { reason: 'string', raw: 'string?' },
+};
+
+export const PLAYER_COMMAND_SCHEMAS: BridgeSchemas<PlayerCommandMap> = {
+  playVideo: {},
+  pauseVideo: {},
+  timerComplete: {},
+};
+
+export const PLAYER_EVENT_SCHEMAS: BridgeSchemas<PlayerEventMap> = {
+  ...COMMON_EVENT_SCHEMAS,
+  webViewReady: {},
+  videoLoaded: {},
+  videoPlaying: {},
+  videoPaused: {},
+  videoEnded: {},
+  videoUnavailable: { errorCode: 'number?' },
+  videoError: { errorCode: 'number?' },
+};
+
+export const PREVIEW_EVENT_SCHEMAS: BridgeSchemas<PreviewEventMap> = {
+  ...COMMON_EVENT_SCHEMAS,
+  PLAYER_READY: { videoId: 'string' },
+  LOADING_TIMEOUT: { message: 'string' },
+  API_LOAD_ERROR: { message: 'string' },
+  PLAYER_INIT_ERROR: { message: 'string' },
+  LIVE_VIDEO_DETECTED: { message: 'string' },
+  PLAYBACK_SUCCESS: { embeddable: 'boolean', state: 'number', stateName: 'string' },
+  PLAYBACK_FAILED: { embeddable: 'boolean', error: 'number?', message: 'string', isEmbeddingError: 'boolean' },
+  RETRY_NEEDED: { error: 'number?', message: 'string', retryAttempt: 'number' },
+  TITLE_DETECTED: { title: 'string', success: 'boolean', message: 'string?' },
+  STATE_CHANGE: { state: 'number', stateName: 'string' },
+  PAGE_ERROR: { message: 'string' },
+};
+
+export interface BridgeErrorReport {
+  reason: string;
+  raw: string;
+}
+
+export type ParseResult<M> =
+  | { ok: true; message: BridgeMessage<M> }
+  | { ok: false; error: BridgeErrorReport };
+
+let messageCounter = 0;
+
+export function createMessageId(prefix: string = 'rn'): string {
+  messageCounter += 1;
+  return `${prefix}-${Date.now().toString(36)}-${messageCounter}`;
+}
+
+const truncate = (value: string) => (value.length > 200 ? `${value.slice(0, 200)}…` : value);
+
+function validatePayload(payload: any, schema: Record<string, FieldSpec>): string | null {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return 'payload must be an object';
+  }
+
+  for (const field of Object.keys(schema)) {
+    const spec = schema[field];
+    const optional = spec.endsWith('?');
+    const expected = optional ? spec.slice(0, -1) : spec;
+    const value = payload[field];
+
+    if (value === undefined || value === null) {
+      if (!optional) return `missing field "${field}"`;
+      continue;
+    }
+    if (typeof value !== expected) {
+      return `field "${field}" must be a ${expected}`;
+    }
+  }
+
+  return null;
+}
+
+// Parses and validates a raw bridge message against a schema table
+export function parseBridgeMessage<M>(raw: unknown, schemas: BridgeSchemas<M>): ParseResult<M> {
+  const rawText = typeof raw === 'string' ? raw : JSON.stringify(raw) ?? String(raw);
+  const fail = (reason: string): ParseResult<M> => ({
+    ok: false,
+    error: { reason, raw: truncate(rawText) },
+  });
+
+  let message: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return fail('message is not valid JSON');
+    }
+  }
+
+  if (!message || typeof message !== 'object') {
+    return fail('message must be an object');
+  }
+  if (message.v !== BRIDGE_PROTOCOL_VERSION) {
+    return fail(`unsupported protocol version ${message.v}`);
+  }
+  if (typeof message.id !== 'string' || !message.id) {
+    return fail('message id is missing');
+  }
+  if (message.replyTo !== undefined && typeof message.replyTo !== 'string') {
+    return fail('replyTo must be a string');
+  }
+  if (typeof message.type !== 'string' || !Object.prototype.hasOwnProperty.call(schemas, message.type)) {
+    return fail(`unknown message type "${message.type}"`);
+  }
+
+  const payload = message.payload ?? {};
+  const payloadError = validatePayload(payload, (schemas as any)[message.type]);
+  if (payloadError) {
+    return fail(`${message.type}: ${payloadError}`);
+  }
+
+  return { ok: true, message: { ...message, payload } as BridgeMessage<M> };
+}
+
+// In-page half of the bridge. Embed the result in a <script> tag before any code that
+// uses window.VidGroBridge. Commands are validated against `commandSchemas`, acknowledged
+// with their correlation id, and failures are reported back as `bridgeError` events.
+export function createBridgeScript(commandSchemas: Record<string, Record<string, FieldSpec>> = {}): string {
+  return `
+    (function() {
+      'use strict';
+      var VERSION = ${BRIDGE_PROTOCOL_VERSION};
+      var COMMANDS = ${JSON.stringify(commandSchemas)};
+      var handlers = [];
+      var counter = 0;
+
+      function nextId() {
+        counter += 1;
+        return 'web-' + Date.now().toString(36) + '-' + counter;
+      }
+
+      function post(message) {
+        var text = JSON.stringify(message);
+        if (window.ReactNativeWebView) {
+          window.ReactNativeWebView.postMessage(text);
+        } else if (window.parent && window.parent !== window) {
+          window.parent.postMessage(text, '*');
+        }
+      }
+
+      function send(type, payload, replyTo) {
+        var message = { v: VERSION, id: nextId(), type: type, payload: payload || {} };
+        if (replyTo) message.replyTo = replyTo;
+        try {
+          post(message);
+        } catch (e) {
+          console.log('❌ Bridge failed to post message:', e);
+        }
+        return message.id;
+      }
+
+      function validate(message) {
+        if (!message || typeof message !== 'object') return 'message must be an object';
+        if (message.v !== VERSION) return 'unsupported protocol version ' + message.v;
+        if (typeof message.id !== 'string' || !message.id) return 'message id is missing';
+        if (!Object.prototype.hasOwnProperty.call(COMMANDS, message.type)) {
+          return 'unknown message type "' + message.type + '"';
+        }
+        var payload = message.payload || {};
+        if (typeof payload !== 'object') return message.type + ': payload must be an object';
+        var schema = COMMANDS[message.type];
+        for (var field in schema) {
+          var spec = schema[field];
+          var optional = spec.charAt(spec.length - 1) === '?';
+          var expected = optional ? spec.slice(0, -1) : spec;
+          var value = payload[field];
+          if (value === undefined || value === null) {
+            if (!optional) return message.type + ': missing field "' + field + '"';
+          } else if (typeof value !== expected) {
+            return message.type + ': field "' + field + '" must be a ' + expected;
+          }
+        }
+        return null;
+      }
+
+      function receive(raw) {
+        var message;
+        try {
+          message = typeof raw === 'string' ? JSON.parse(raw) : raw;
+        } catch (e) {
+          send('bridgeError', { reason: 'message is not valid JSON', raw: String(raw).slice(0, 200) });
+          return;
+        }
+
+        var error = validate(message);
+        if (error) {
+          send('bridgeError', { reason: error, raw: JSON.stringify(message).slice(0, 200) });
+          if (message && typeof message.id === 'string') {
+            send('commandAck', { ok: false, error: error }, message.id);
+          }
+          return;
+        }
+
+        var failure = null;
+        for (var i = 0; i < handlers.length; i++) {
+          try {
+            handlers[i](message.type, message.payload || {});
+          } catch (e) {
+            failure = String((e && e.message) || e);
+          }
+        }
+        send('commandAck', failure ? { ok: false, error: failure } : { ok: true }, message.id);
+      }
+
+      window.VidGroBridge = {
+        version: VERSION,
+        send: send,
+        receive: receive,
+        onCommand: function(handler) { handlers.push(handler); }
+      };
+
+      // Commands may also arrive through window messages (e.g. from an embedding page).
+      // Other frames (the YouTube iframe itself) post here too, so only bridge envelopes are handled.
+      window.addEventListener('message', function(event) {
+        if (event.source === window || typeof event.data !== 'string') return;
+        var candidate;
+        try {
+          candidate = JSON.parse(event.data);
+        } catch (e) {
+          return;
+        }
+        if (candidate && candidate.v === VERSION && typeof candidate.type === 'string') {
+          receive(candidate);
+        }
+      });
+    })();
+  `;
+}
+
+export interface PlayerCommandAck {
+  ok: boolean;
+  error?: string;
+}
+
+interface PlayerBridgeOptions {
+  inject: (javascript: string) => void;
+  onInvalidMessage?: (report: BridgeErrorReport) => void;
+  ackTimeoutMs?: number;
+}
+
+export const reportBridgeError = (report: BridgeErrorReport) => {
+  console.warn('🌉 Invalid bridge message:', report.reason, report.raw);
+};
+
+// React Native half of the watch-player bridge
+export function createPlayerBridge({
+  inject,
+  onInvalidMessage = reportBridgeError,
+  ackTimeoutMs = 5000,
+}: PlayerBridgeOptions) {
+  const pending = new Map<string, { resolve: (ack: PlayerCommandAck) => void; timeout: ReturnType<typeof setTimeout> }>();
+
+  const settle = (id: string, ack: PlayerCommandAck) => {
+    const entry = pending.get(id);
+    if (!entry) return;
+    clearTimeout(entry.timeout);
+    pending.delete(id);
+    entry.resolve(ack);
+  };
+
+  return {
+    // Resolves with the player's acknowledgement; never rejects
+    send<K extends PlayerCommandType>(type: K, payload: PlayerCommandMap[K] = {}): Promise<PlayerCommandAck> {
+      const message: BridgeMessageBase<K, PlayerCommandMap[K]> = {
+        v: BRIDGE_PROTOCOL_VERSION,
+        id: createMessageId(),
+        type,
+        payload,
+      };
+
+      return new Promise(resolve => {
+        const timeout = setTimeout(
+          () => settle(message.id, { ok: false, error: 'acknowledgement timeout' }),
+          ackTimeoutMs
+        );
+        pending.set(message.id, { resolve, timeout });
+
+        inject(`
+          (function() {
+            if (window.VidGroBridge) {
+              window.VidGroBridge.receive(${JSON.stringify(JSON.stringify(message))});
+            }
+          })();
+          true;
+        `);
+      });
+    },
+
+    // Validates an incoming message; acknowledgements are settled here and returned too
+    receive(raw: unknown): PlayerEvent | null {
+      const result = parseBridgeMessage(raw, PLAYER_EVENT_SCHEMAS);
+      if (!result.ok) {
+        onInvalidMessage(result.error);
+        return null;
+      }
+
+      const message = result.message;
+      if (message.type === 'commandAck' && message.replyTo) {
+        settle(message.replyTo, message.payload);
+      } else if (message.type === 'bridgeError') {
+        onInvalidMessage({ reason: `player rejected command: ${message.payload.reason}`, raw: message.payload.raw || '' });
+      }
+      return message;
+    },
+
+    dispose() {
+      pending.forEach((entry, id) => settle(id, { ok: false, error: 'bridge disposed' }));
+    },
+  };
+}
+
+export type PlayerBridge = ReturnType<typeof createPlayerBridge>;
@@ -0,0 +1,52 @@
+// Helpers for server-issued promotion quotes (see quotePromotion in lib/supabase).
+// Pricing itself lives on the server; these only decide when a quote can still be used.
+import type { PromotionQuote } from '../lib/supabase';
+import { isSameTargeting } from './audienceTargeting';
+import type { PromotionTargeting } from './audienceTargeting';
+import type { CampaignType } from './campaignTypes';
+
+export interface QuoteRequest {
+  campaignType: CampaignType;
+  targetViews: number;
+  durationSeconds: number; // 0 for subscribe and like campaigns
+  targeting: PromotionTargeting;
+}
+
+// Video durations a promotion can pay viewers for, in seconds
+export const PROMOTION_DURATIONS = [30, 45, 60, 90, 120, 180, 240, 300, 360, 420, 480, 540];
+
+// Don't submit a quote this close to expiry; it could lapse before the RPC runs
+export const QUOTE_EXPIRY_MARGIN_MS = 15 * 1000;
+
+export function getQuoteExpiresInMs(quote: PromotionQuote, now: number = Date.now()): number {
+  const expiresAt = new Date(quote.expires_at).getTime();
+  if (isNaN(expiresAt)) return 0;
+  return Math.max(0, expiresAt - now);
+}
+
+// True when the quote was issued for exactly these options
+export function quoteMatches(quote: PromotionQuote | null, request: QuoteRequest): quote is PromotionQuote {
+  if (!quote) return false;
+  return (
+    (quote.campaign_type || 'view') === request.campaignType &&
+    quote.target_views === request.targetViews &&
+    quote.duration_seconds === request.durationSeconds &&
+    isSameTargeting(
+      { languages: quote.target_languages || [], countries: quote.target_countries || [] },
+      request.targeting
+    )
+  );
+}
+
+// True when the quote matches the selected options and won't expire before it's submitted
+export function isQuoteUsable(
+  quote: PromotionQuote | null,
+  request: QuoteRequest,
+  now: number = Date.now()
+): quote is PromotionQuote {
+  return quoteMatches(quote, request) && getQuoteExpiresInMs(quote, now) > QUOTE_EXPIRY_MARGIN_MS;
+}
+
+export function getQuoteDiscountTotal(quote: PromotionQuote): number {
+  return (quote.discounts || []).reduce((sum, discount) => sum + discount.amount, 0);
+}
@@ -0,0 +1,104 @@
+// Checks a promotion must pass before create_video_promotion is called. The
+// server runs the same checks; doing them first lets the promote screen explain
+// the rejection (and offer adding views to the existing campaign) without
+// spending a quote.
+
+export type PromotionRejectionCode =
+  | 'duplicate_campaign'
+  | 'blocklisted_video'
+  | 'blocklisted_channel'
+  | 'rate_limited'
+  | 'campaign_limit' // server only: maxActiveCampaigns reached
+  | 'video_unsupported'; // server only: live, unembeddable, age-restricted or shorter than the duration
+
+export interface PromotionRejection {
+  code: PromotionRejectionCode;
+  title: string;
+  message: string;
+  existingVideoId?: string; // duplicate_campaign: row id of the running campaign
+  retryAfterSeconds?: number; // rate_limited
+}
+
+export interface PromotionRateLimit {
+  maxCampaigns: number;
+  windowMinutes: number;
+}
+
+// Everything the checks need, gathered by validatePromotion in lib/supabase
+export interface PromotionCheckFacts {
+  activeCampaign: { id: string; title?: string } | null; // same video and campaign type
+  blocklistHit: { kind: 'video' | 'channel'; reason?: string | null } | null;
+  recentCampaignTimes: string[]; // created_at of this user's campaigns inside the window
+  rateLimit: PromotionRateLimit;
+}
+
+type PromotionCheck = (facts: PromotionCheckFacts, now: number) => PromotionRejection | null;
+
+const checkBlocklist: PromotionCheck = ({ blocklistHit }) => {
+  if (!blocklistHit) return null;
+  const subject = blocklistHit.kind === 'channel' ? 'videos from this channel' : 'this video';
+  return {
+    code: blocklistHit.kind === 'channel' ? 'blocklisted_channel' : 'blocklisted_video',
+    title: 'Video Not Allowed',
+    message: `VidGro can't promote ${subject}.${blocklistHit.reason ? ` Reason: ${blocklistHit.reason}` : ''}`,
+  };
+};
+
+const checkDuplicate: PromotionCheck = ({ activeCampaign }) => {
+  if (!activeCampaign) return null;
+  return {
+    code: 'duplicate_campaign',
+    title: 'Already Promoted',
+    message: `${activeCampaign.title ? `"${activeCampaign.title}"` : 'This video'} already has a running campaign. Add views to it instead of starting another.`,
+    existingVideoId: activeCampaign.id,
+  };
+};
+
+const checkRateLimit: PromotionCheck = ({ recentCampaignTimes, rateLimit }, now) => {
+  if (recentCampaignTimes.length < rateLimit.maxCampaigns) return null;
+
+  // The window frees up when the oldest campaign in it ages out
+  const oldest = Math.min(...recentCampaignTimes.map(time => new Date(time).getTime()));
+  const retryAfterSeconds = Math.max(60, Math.ceil((oldest + rateLimit.windowMinutes * 60 * 1000 - now) / 1000));
+  return {
+    code: 'rate_limited',
+    title: 'Too Many Promotions',
+    message: `You can start up to ${rateLimit.maxCampaigns} promotions every ${rateLimit.windowMinutes} minutes. Try again in ${Math.ceil(retryAfterSeconds / 60)} min.`,
+    retryAfterSeconds,
+  };
+};
+
+// Blocklist first: there's no point suggesting "add views" for a blocked video
+const PROMOTION_CHECKS: PromotionCheck[] = [checkBlocklist, checkDuplicate, checkRateLimit];
+
+export function runPromotionChecks(facts: PromotionCheckFacts, now: number = Date.now()): PromotionRejection | null {
+  for (const check of PROMOTION_CHECKS) {
+    const rejection = check(facts, now);
+    if (rejection) return rejection;
+  }
+  return null;
+}
+
+// Rejections reported by create_video_promotion ({ success: false, code, error })
+export function toPromotionRejection(result: any): PromotionRejection | null {
+  const code = result?.code as PromotionRejectionCode | undefined;
+  if (!code || !['duplicate_campaign', 'blocklisted_video', 'blocklisted_channel', 'rate_limited', 'campaign_limit', 'video_unsupported'].includes(code)) {
+    return null;
+  }
+
+  const titles: Record<PromotionRejectionCode, string> = {
+    duplicate_campaign: 'Already Promoted',
+    blocklisted_video: 'Video Not Allowed',
+    blocklisted_channel: 'Video Not Allowed',
+    rate_limited: 'Too Many Promotions',
+    campaign_limit: 'Campaign Limit Reached',
+    video_unsupported: 'Video Not Supported',
+  };
+  return {
+    code,
+    title: titles[code],
+    message: result.error || result.message || 'This promotion was rejected',
+    existingVideoId: result.existing_video_id ?? undefined,
+    retryAfterSeconds: result.retry_after_seconds ?? undefined,
+  };
+}
@@ -0,0 +1,63 @@
+// Ranking for the Watch tab queue. Campaigns that are furthest from their
+// target, owned by VIP creators, paying more coins, or behind their schedule
+// are served first. Campaigns that can't take a view right now (not started,
+// ended, or at their daily cap) are left out.
+import { getPacingDeficit, isCampaignServable } from './campaignPacing';
+import type { PacedCampaign } from './campaignPacing';
+
+export interface RankableVideo extends PacedCampaign {
+  video_id: string;
+  views_count: number;
+  target_views: number;
+  coin_reward: number;
+  owner_is_vip?: boolean;
+}
+
+const WEIGHTS = {
+  remaining: 0.5,
+  vip: 0.25,
+  reward: 0.25,
+  pacing: 0.25, // only for campaigns with an end date
+};
+
+// Highest reward on the promote screen's duration ladder
+const MAX_COIN_REWARD = 200;
+
+export function scoreVideo(video: RankableVideo, now: Date = new Date()): number {
+  const target = Math.max(0, video.target_views || 0);
+  const remaining = Math.max(0, target - (video.views_count || 0));
+  const remainingShare = target > 0 ? remaining / target : 0;
+  const rewardShare = Math.min(Math.max(video.coin_reward || 0, 0) / MAX_COIN_REWARD, 1);
+
+  return (
+    remainingShare * WEIGHTS.remaining +
+    (video.owner_is_vip ? WEIGHTS.vip : 0) +
+    rewardShare * WEIGHTS.reward +
+    getPacingDeficit(video, now) * WEIGHTS.pacing
+  );
+}
+
+// Stable sort by descending score, dropping videos the viewer was already paid for
+// and campaigns outside their schedule or over their daily cap
+export function rankVideoQueue<T extends RankableVideo>(
+  videos: T[],
+  rewardedVideoIds: Set<string> = new Set(),
+  now: Date = new Date()
+): T[] {
+  return videos
+    .filter(video => !rewardedVideoIds.has(video.video_id) && isCampaignServable(video, now))
+    .map((video, index) => ({ video, index, score: scoreVideo(video, now) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.video);
+}
+
+// Appends a freshly fetched page behind the videos already queued, without duplicates
+export function mergeQueuePage<T extends RankableVideo>(
+  queue: T[],
+  page: T[],
+  rewardedVideoIds: Set<string> = new Set()
+): T[] {
+  const queued = new Set(queue.map(video => video.video_id));
+  const fresh = page.filter(video => !queued.has(video.video_id));
+  return [...queue, ...rankVideoQueue(fresh, rewardedVideoIds)];
+}
@@ -0,0 +1,35 @@
+// Refund preview for deleting a promoted video. The policy comes from the server
+// (get_refund_policy), which also applies it in delete_video_with_refund, so the
+// client never keeps its own copy of the numbers.
+
+export interface RefundPolicy {
+  fullRefundWindowMinutes: number;
+  fullRefundPercentage: number;
+  partialRefundPercentage: number;
+}
+
+export interface RefundQuote {
+  refundPercentage: number;
+  refundAmount: number;
+  isWithinFullRefundWindow: boolean;
+}
+
+export function getMinutesSinceCreation(createdAt: string | Date, now: Date = new Date()): number {
+  const createdTime = new Date(createdAt).getTime();
+  if (isNaN(createdTime)) return Infinity;
+  return Math.max(0, (now.getTime() - createdTime) / (1000 * 60));
+}
+
+export function calculateRefund(
+  coinCost: number,
+  createdAt: string | Date,
+  policy: RefundPolicy,
+  now: Date = new Date()
+): RefundQuote {
+  const isWithinFullRefundWindow = getMinutesSinceCreation(createdAt, now) <= policy.fullRefundWindowMinutes;
+  const refundPercentage = isWithinFullRefundWindow ? policy.fullRefundPercentage : policy.partialRefundPercentage;
+  // Rounded the same way the refund RPC rounds
+  const refundAmount = Math.round((Math.max(0, coinCost || 0) * refundPercentage) / 100);
+
+  return { refundPercentage, refundAmount, isWithinFullRefundWindow };
+}
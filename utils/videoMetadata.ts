@@ -0,0 +1,70 @@
+// Facts about a YouTube video that decide whether and how it can be promoted.
+// VideoMetadataService resolves them through a pluggable provider; these
+// helpers turn them into the choices the promote screen offers.
+import { PROMOTION_DURATIONS } from './promotionQuote';
+import type { CampaignType } from './campaignTypes';
+
+export interface VideoMetadata {
+  videoId: string;
+  title: string | null;
+  durationSeconds: number | null; // null when the provider can't tell
+  isLive: boolean;
+  isShort: boolean;
+  ageRestricted: boolean;
+  embeddable: boolean;
+  channelId: string | null;
+  channelTitle: string | null;
+  thumbnailUrl: string;
+  source: string; // provider that answered
+}
+
+export function getThumbnailUrl(videoId: string): string {
+  return `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`;
+}
+
+// Watch durations a view campaign can ask for; all of them when the length is unknown
+export function getPromotableDurations(durationSeconds: number | null | undefined): number[] {
+  if (!durationSeconds) return PROMOTION_DURATIONS;
+  return PROMOTION_DURATIONS.filter(duration => duration <= durationSeconds);
+}
+
+// Returns why the video can't be promoted this way, or null when it can. Without a
+// campaign type (the preview doesn't know it yet) only playability is checked.
+export function getPromotionBlocker(
+  metadata: VideoMetadata,
+  campaignType?: CampaignType,
+  durationSeconds?: number
+): string | null {
+  if (metadata.isLive) {
+    return 'Live videos cannot be promoted. Please choose a regular video.';
+  }
+
+  // Viewers watch and verify through the embedded player, which refuses these
+  if (!metadata.embeddable) {
+    return 'This video cannot be embedded. Please make it embeddable first or choose a different video.';
+  }
+  if (metadata.ageRestricted) {
+    return 'Age-restricted videos cannot be played in the app. Please choose a different video.';
+  }
+
+  if (campaignType === 'view' && metadata.durationSeconds) {
+    const durations = getPromotableDurations(metadata.durationSeconds);
+    if (durations.length === 0) {
+      return `This video is only ${metadata.durationSeconds}s long. View campaigns need at least ${PROMOTION_DURATIONS[0]}s.`;
+    }
+    if (durationSeconds && durationSeconds > metadata.durationSeconds) {
+      return `This video is only ${metadata.durationSeconds}s long. Choose a duration of ${durations[durations.length - 1]}s or less.`;
+    }
+  }
+
+  return null;
+}
+
+export function formatVideoLength(durationSeconds: number | null | undefined): string | null {
+  if (!durationSeconds) return null;
+  const hours = Math.floor(durationSeconds / 3600);
+  const minutes = Math.floor((durationSeconds % 3600) / 60);
+  const seconds = durationSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
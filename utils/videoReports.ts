@@ -0,0 +1,51 @@
+// Viewer reports on promoted videos. Viewers pick a reason on the Watch tab and
+// playback errors are reported automatically; report_video puts the campaign on
+// hold once enough distinct viewers report it, and the owner sees why in edit-video.
+
+export type ReportReason =
+  | 'broken' // won't play or plays the wrong thing
+  | 'misleading'
+  | 'inappropriate'
+  | 'spam'
+  | 'unavailable' // automatic: removed, private or not found
+  | 'embed_blocked'; // automatic: owner disabled embedding
+
+export interface ReportReasonOption {
+  reason: ReportReason;
+  label: string;
+  description: string;
+}
+
+// Reasons a viewer can choose; the automatic ones come from the player
+export const VIEWER_REPORT_REASONS: ReportReasonOption[] = [
+  { reason: 'broken', label: 'Broken', description: "Video won't play or is stuck" },
+  { reason: 'misleading', label: 'Misleading', description: "Title doesn't match the video" },
+  { reason: 'inappropriate', label: 'Inappropriate', description: 'Sexual, violent or hateful content' },
+  { reason: 'spam', label: 'Spam', description: 'Scam, repetitive or low-effort content' },
+];
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  broken: 'Broken',
+  misleading: 'Misleading',
+  inappropriate: 'Inappropriate',
+  spam: 'Spam',
+  unavailable: 'Unavailable',
+  embed_blocked: 'Embedding disabled',
+};
+
+// YouTube IFrame API error codes: 100 removed/private, 101 and 150 embedding disabled.
+// Failures without a code (network, script loading) aren't the video's fault.
+export function getAutoReportReason(errorCode?: number | null): ReportReason | null {
+  if (errorCode === 101 || errorCode === 150) return 'embed_blocked';
+  if (errorCode === 100) return 'unavailable';
+  return null;
+}
+
+// "Broken (3) · Misleading (1)", most reported first
+export function describeReportCounts(counts: Partial<Record<ReportReason, number>>): string {
+  return (Object.entries(counts) as [ReportReason, number][])
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, count]) => `${REPORT_REASON_LABELS[reason] || reason} (${count})`)
+    .join(' · ');
+}
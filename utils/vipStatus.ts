@@ -0,0 +1,90 @@
+// VIP status derived from the profile. The server sets vip_expires_at on activation
+// and renewal and downgrades lapsed subscriptions; this mirrors its rules so the
+// app stops granting perks the moment a subscription runs out, even before the
+// profile is refreshed.
+
+export type VipState = 'none' | 'active' | 'grace' | 'expired';
+
+// Renewals that fail (card declined, store billing retry) keep VIP this long past expiry
+export const VIP_GRACE_PERIOD_HOURS = 72;
+
+export interface VipProfileFields {
+  is_vip: boolean;
+  vip_expires_at: string | null;
+  vip_grace_ends_at?: string | null;
+  vip_plan?: string | null;
+  vip_auto_renew?: boolean;
+}
+
+export interface VipStatus {
+  state: VipState;
+  isVip: boolean; // true while active or in the grace period
+  plan: string | null;
+  autoRenew: boolean;
+  expiresAt: Date | null;
+  graceEndsAt: Date | null;
+  nextChangeAt: Date | null; // when the state will next change on its own
+}
+
+const NO_VIP: VipStatus = {
+  state: 'none',
+  isVip: false,
+  plan: null,
+  autoRenew: false,
+  expiresAt: null,
+  graceEndsAt: null,
+  nextChangeAt: null,
+};
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function deriveVipStatus(
+  profile: VipProfileFields | null | undefined,
+  now: Date = new Date()
+): VipStatus {
+  // is_vip is the server's verdict: a revoked or refunded subscription loses its perks
+  // straight away, even if its expiry date is still in the future
+  if (!profile || !profile.is_vip) return NO_VIP;
+
+  const expiresAt = parseDate(profile.vip_expires_at);
+  const plan = profile.vip_plan ?? null;
+  const autoRenew = profile.vip_auto_renew === true;
+
+  if (!expiresAt) {
+    // VIP granted without an end date (e.g. by support) never lapses on its own
+    return { ...NO_VIP, state: 'active', isVip: true, plan, autoRenew };
+  }
+
+  const graceEndsAt =
+    parseDate(profile.vip_grace_ends_at) ??
+    new Date(expiresAt.getTime() + VIP_GRACE_PERIOD_HOURS * 60 * 60 * 1000);
+  const base = { plan, autoRenew, expiresAt, graceEndsAt };
+
+  if (now < expiresAt) {
+    return { ...base, state: 'active', isVip: true, nextChangeAt: expiresAt };
+  }
+  if (now < graceEndsAt) {
+    return { ...base, state: 'grace', isVip: true, nextChangeAt: graceEndsAt };
+  }
+  return { ...base, state: 'expired', isVip: false, nextChangeAt: null };
+}
+
+export function formatVipTimeRemaining(until: Date | null, now: Date = new Date()): string {
+  if (!until) return '';
+
+  const diff = until.getTime() - now.getTime();
+  if (diff <= 0) return 'Expired';
+
+  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
+  const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+  const seconds = Math.floor((diff % (1000 * 60)) / 1000);
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+  return `${minutes}m ${seconds}s`;
+}